@@ -1,100 +1,859 @@
-import React, { useState, useCallback, useMemo } from 'react';
+import React, { useState, useCallback, useMemo, useRef, useEffect } from 'react';
+import { AnalysisCachePanel } from './components/AnalysisCachePanel';
+import { AuditLogPanel } from './components/AuditLogPanel';
+import { EnsembleSettingsPanel } from './components/EnsembleSettingsPanel';
+import { EvaluationDashboard } from './components/EvaluationDashboard';
+import { ExportPanel } from './components/ExportPanel';
+import { GradingQueue, type GradingFilter } from './components/GradingQueue';
 import { Header } from './components/Header';
 import { ImageUploader } from './components/ImageUploader';
+import { PatientTimeline } from './components/PatientTimeline';
+import { PreprocessingSettingsPanel } from './components/PreprocessingSettingsPanel';
+import { PromptSettingsPanel } from './components/PromptSettingsPanel';
+import { QualitySettingsPanel } from './components/QualitySettingsPanel';
 import { AnalysisResults } from './components/AnalysisResults';
-import { analyzeImage } from './services/geminiService';
-import type { AnalyzableImage } from './types';
+import { SessionList } from './components/SessionList';
+import { TriageSettingsPanel } from './components/TriageSettingsPanel';
+import { VolumeResults } from './components/VolumeResults';
+import { analyzeImage, askAboutScan, checkImageQuality, compareVisits, generateMap, getAnalysisProvider } from './services/analysisService';
+import { createAnalysisQueue, type AnalysisQueue, type QueueState } from './services/analysisQueue';
+import { MAP_URL_FIELDS, finishedStatus, isAnalyzed, withoutMapError } from './services/analysisMaps';
+import type { AnalysisOutput, AnalysisStageEvent } from './services/analysisProvider';
+import { classifyApiError } from './services/apiErrors';
+import { recordUserAction, setAuditEntryListener, setAuditSession, toAuditedImages } from './services/auditLog';
+import { buildResultBundle, buildResultsCsv, readResultBundle } from './services/batchExport';
+import { appConfig } from './services/config';
+import { isDicomFile, parseDicom } from './services/dicomParser';
+import { baseFileName, downloadBlob } from './services/download';
+import { MAX_ENSEMBLE_SIZE } from './services/ensemble';
+import { GRADING_STAGES, describeGradingChange, gradingStage } from './services/grading';
+import { base64ToBlob, hashBlob } from './services/imageData';
+import { DEFAULT_QUALITY_SETTINGS, isHeldBack } from './services/imageQuality';
+import { labelFromPath, parseManifest } from './services/groundTruth';
+import { buildReportPdf } from './services/pdfReport';
+import { DEFAULT_PREPROCESSING_SETTINGS } from './services/preprocessing';
+import { getActivePreset, loadPromptRegistry, resolvePrompts, savePromptRegistry, type PromptRegistry } from './services/promptRegistry';
+import { createChatMessage } from './services/scanChat';
+import * as sessionStore from './services/sessionStore';
+import { DEFAULT_TRIAGE_SETTINGS, triageImage, triageResult } from './services/triage';
+import { visitFromMetadata } from './services/visits';
+import { sortSlices } from './services/volumeAnalysis';
+import type { AnalysisMapKind, AnalysisProgress, AnalysisSession, AnalysisVersion, AnalyzableImage, ClinicalDiagnosis, EnsembleSettings, GradingStage, ImageQuality, PreprocessingSettings, QualitySettings, ScanAnnotation, ScanGrading, ScanMetadata, ScanVolume, TriageSettings, VisitComparison, VisitInfo, VolumeAggregation } from './types';
 import { UploadIcon, AlertTriangleIcon, CheckCircleIcon } from './components/icons';
 
+const MAX_CONCURRENCY = 8;
+
+interface AnalysisJobResult {
+  /** Absent when the quality gate held the scan back. */
+  output?: AnalysisOutput;
+  quality?: ImageQuality;
+  refinementFeedback?: string;
+  annotations?: ScanAnnotation[];
+}
+
+interface AnalysisMaps {
+  segmentation?: Blob;
+  heatmap?: Blob;
+  uncertainty?: Blob;
+}
+
+const toAnalysisMaps = (output: AnalysisOutput): AnalysisMaps => ({
+  segmentation: output.segmentedImageBase64 ? base64ToBlob(output.segmentedImageBase64) : undefined,
+  heatmap: output.heatmapImageBase64 ? base64ToBlob(output.heatmapImageBase64) : undefined,
+  uncertainty: output.segmentationUncertaintyMapBase64 ? base64ToBlob(output.segmentationUncertaintyMapBase64) : undefined,
+});
+
+const toObjectUrl = (blob?: Blob) => blob ? URL.createObjectURL(blob) : undefined;
+
+const revokeProgressUrls = (progress?: AnalysisProgress) => {
+  Object.values(MAP_URL_FIELDS).forEach(field => progress?.[field] && URL.revokeObjectURL(progress[field]));
+};
+
+const revokeImageUrls = (img: AnalyzableImage) => {
+  const urls = new Set([
+    img.previewUrl,
+    img.processedImageUrl,
+    img.segmentedImageUrl,
+    img.heatmapImageUrl,
+    img.segmentationUncertaintyMapUrl,
+    ...(img.versions ?? []).map(version => version.heatmapImageUrl),
+  ]);
+  urls.forEach(url => url && URL.revokeObjectURL(url));
+  revokeProgressUrls(img.progress);
+};
+
+// A run that ends without a result drops whatever it had streamed.
+const withoutProgress = (img: AnalyzableImage): AnalyzableImage => {
+  revokeProgressUrls(img.progress);
+  return { ...img, progress: undefined };
+};
+
+// Rebuilds object URLs for an image whose scan and maps were loaded as Blobs.
+const toDisplayImage = ({ image, blobs }: sessionStore.LoadedImage): AnalyzableImage => {
+  const versions = image.versions?.map(version => ({
+    ...version,
+    heatmapImageUrl: toObjectUrl(blobs[sessionStore.versionHeatmapKind(version.id)]),
+  }));
+  const activeVersion = versions?.find(version => version.id === image.activeVersionId);
+  // A processed scan is only current while the image records how it was made.
+  const processed = image.preprocessing ? blobs.processed : undefined;
+  return {
+    ...image,
+    versions,
+    previewUrl: URL.createObjectURL(blobs.original!),
+    processedFile: processed && new File([processed], `${baseFileName(image.file.name)}-preprocessed.png`, { type: processed.type }),
+    processedImageUrl: toObjectUrl(processed),
+    // A map that failed in the latest analysis may still have a stored blob from an earlier one.
+    segmentedImageUrl: image.mapErrors?.segmentation ? undefined : toObjectUrl(blobs.segmentation),
+    heatmapImageUrl: activeVersion ? activeVersion.heatmapImageUrl : toObjectUrl(blobs.heatmap),
+    segmentationUncertaintyMapUrl: image.mapErrors?.uncertainty ? undefined : toObjectUrl(blobs.uncertainty),
+  };
+};
+
+const defaultSessionName = () => `Session ${new Date().toLocaleString()}`;
+
 const App: React.FC = () => {
   const [images, setImages] = useState<AnalyzableImage[]>([]);
-  const [isAnalyzing, setIsAnalyzing] = useState<boolean>(false);
-  const [error, setError] = useState<string | null>(null);
+  const [queueState, setQueueState] = useState<QueueState>({ paused: false, queued: 0, running: 0 });
+  const [concurrency, setConcurrency] = useState<number>(appConfig.analysisConcurrency);
+  const [error, setError] = useState<{ title: string; message: string } | null>(null);
+  const [sessions, setSessions] = useState<AnalysisSession[]>([]);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [volumes, setVolumes] = useState<ScanVolume[]>([]);
+  const [groupAsVolume, setGroupAsVolume] = useState<boolean>(false);
+  const [isExporting, setIsExporting] = useState<boolean>(false);
+  const [triageSettings, setTriageSettings] = useState<TriageSettings>(DEFAULT_TRIAGE_SETTINGS);
+  const [comparisons, setComparisons] = useState<VisitComparison[]>([]);
+  const [comparingIds, setComparingIds] = useState<[string, string] | undefined>();
+  const [gradingFilter, setGradingFilter] = useState<GradingFilter>('all');
+  const [promptRegistry, setPromptRegistry] = useState<PromptRegistry>(loadPromptRegistry);
+  const [preprocessingSettings, setPreprocessingSettings] = useState<PreprocessingSettings>(DEFAULT_PREPROCESSING_SETTINGS);
+  const [qualitySettings, setQualitySettings] = useState<QualitySettings>(DEFAULT_QUALITY_SETTINGS);
+  const [ensembleSettings, setEnsembleSettings] = useState<EnsembleSettings>({ size: Math.min(MAX_ENSEMBLE_SIZE, appConfig.ensembleSize), models: [] });
+  // Counts audit entries written since the app loaded, so the audit log viewer refreshes only when one is added.
+  const [auditRevision, setAuditRevision] = useState(0);
+  const provider = useMemo(() => getAnalysisProvider(), []);
+  const activePrompts = useMemo(() => resolvePrompts(getActivePreset(promptRegistry)), [promptRegistry]);
+  // Last version of each image written to IndexedDB, used to persist only what changed.
+  const persistedRef = useRef<Map<string, AnalyzableImage>>(new Map());
+  const persistedVolumesRef = useRef<ScanVolume[]>([]);
+  const persistedTriageRef = useRef<TriageSettings>(DEFAULT_TRIAGE_SETTINGS);
+  const persistedPreprocessingRef = useRef<PreprocessingSettings>(DEFAULT_PREPROCESSING_SETTINGS);
+  const persistedComparisonsRef = useRef<VisitComparison[]>([]);
+  // The queue callbacks are created once, so they read the current settings through a ref.
+  const triageSettingsRef = useRef(triageSettings);
+  triageSettingsRef.current = triageSettings;
 
-  const handleImageUpload = (files: FileList) => {
-    const newImages: AnalyzableImage[] = Array.from(files)
-      .filter(file => file.type.startsWith('image/'))
-      .map(file => ({
-        id: crypto.randomUUID(),
-        file: file,
-        previewUrl: URL.createObjectURL(file),
-        status: 'pending',
-      }));
+  const handleImageUpload = async (files: FileList) => {
+    // Each entry is one upload unit: a plain image, or all frames of one DICOM file.
+    // Ground truth comes from the folder the file was uploaded from, if it names a diagnosis.
+    const groups: { file: File; metadata?: ScanMetadata; groundTruth?: ClinicalDiagnosis; contentHash?: string }[][] = [];
+    const failures: string[] = [];
+    for (const file of Array.from(files)) {
+      if (file.type.startsWith('image/')) {
+        groups.push([{ file, groundTruth: labelFromPath(file) }]);
+        continue;
+      }
+      // DICOM is decoded locally; each frame becomes its own image.
+      try {
+        if (!(await isDicomFile(file))) {
+          failures.push(`${file.name}: not an image or DICOM file.`);
+          continue;
+        }
+        const groundTruth = labelFromPath(file);
+        groups.push((await parseDicom(file)).map(frame => ({ ...frame, groundTruth })));
+      } catch (err) {
+        failures.push(`${file.name}: ${(err as Error).message}`);
+      }
+    }
+
+    // A scan already in the session, or earlier in this upload, is skipped; a DICOM file only when all its frames are.
+    const knownScans = new Map(images.flatMap(img => img.contentHash ? [[img.contentHash, img.file.name] as const] : []));
+    const duplicates: string[] = [];
+    const uniqueGroups: typeof groups = [];
+    for (const group of groups) {
+      for (const scan of group) {
+        scan.contentHash = await hashBlob(scan.file);
+      }
+      const original = group.every(scan => knownScans.has(scan.contentHash!)) ? knownScans.get(group[0].contentHash!) : undefined;
+      if (original) {
+        duplicates.push(`${group[0].metadata?.sourceFileName ?? group[0].file.name} is the same scan as ${original}.`);
+        continue;
+      }
+      group.forEach(scan => knownScans.set(scan.contentHash!, scan.file.name));
+      uniqueGroups.push(group);
+    }
+
+    // Multi-frame DICOM files are always volumes; plain images form one volume when requested.
+    const newVolumes: ScanVolume[] = [];
+    const createVolume = (name: string) => {
+      const volume: ScanVolume = { id: crypto.randomUUID(), name, createdAt: new Date().toISOString(), aggregation: 'worst-finding' };
+      newVolumes.push(volume);
+      return volume.id;
+    };
+    const singleImages = uniqueGroups.filter(group => group.length === 1 && !group[0].metadata).map(([scan]) => scan);
+    const stackVolumeId = groupAsVolume && singleImages.length > 1 ? createVolume(`Volume ${singleImages[0].file.name}`) : undefined;
+
+    const newImages: AnalyzableImage[] = uniqueGroups.flatMap(group => {
+      const dicomVolumeId = group.length > 1 ? createVolume(group[0].metadata?.studyDescription ?? group[0].metadata?.sourceFileName ?? 'Volume') : undefined;
+      return group.map(({ file, metadata, groundTruth, contentHash }, index): AnalyzableImage => {
+        const volumeId = dicomVolumeId ?? (singleImages.some(scan => scan.file === file) ? stackVolumeId : undefined);
+        return {
+          id: crypto.randomUUID(),
+          file: file,
+          previewUrl: URL.createObjectURL(file),
+          status: 'pending',
+          metadata,
+          groundTruth,
+          contentHash,
+          visit: visitFromMetadata(metadata),
+          volumeId,
+          sliceIndex: volumeId ? (dicomVolumeId ? index : singleImages.findIndex(scan => scan.file === file)) : undefined,
+        };
+      });
+    });
+    newImages.forEach(img => {
+      sessionStore.saveImageBlobs(img.id, { original: img.file }).catch(err => console.error('Failed to store image:', err));
+    });
+    setVolumes(prev => [...prev, ...newVolumes]);
     setImages(prev => [...prev, ...newImages]);
-    setError(null);
+    if (newImages.length > 0) {
+      const skipped = duplicates.length > 0 ? `; skipped ${duplicates.length} duplicate${duplicates.length !== 1 ? 's' : ''}` : '';
+      recordUserAction('upload', `Uploaded ${newImages.length} image${newImages.length !== 1 ? 's' : ''}${skipped}`, toAuditedImages(newImages));
+    }
+    if (failures.length > 0) {
+      setError({ title: 'Some Files Could Not Be Loaded', message: [...failures, ...duplicates].join(' ') });
+    } else {
+      setError(duplicates.length > 0 ? { title: `Skipped ${duplicates.length} Duplicate Scan${duplicates.length !== 1 ? 's' : ''}`, message: duplicates.join(' ') } : null);
+    }
+
+    // Local quality metrics are cheap but decode every image, so measure one at a time.
+    for (const img of newImages) {
+      try {
+        const quality = await checkImageQuality(img.file, {}, provider);
+        updateImage(img.id, current => ({ ...current, quality }));
+      } catch (err) {
+        console.error(`Failed to measure the quality of ${img.file.name}:`, err);
+      }
+    }
   };
 
-  const handleAnalyzeAll = useCallback(async () => {
-    setIsAnalyzing(true);
-    setError(null);
+  const updateImage = useCallback((id: string, update: (img: AnalyzableImage) => AnalyzableImage) => {
+    setImages(prev => prev.map(img => img.id === id ? update(img) : img));
+  }, []);
 
-    const imagesToAnalyze = images.filter(img => img.status === 'pending');
-    if (imagesToAnalyze.length === 0) {
-        setIsAnalyzing(false);
-        return;
-    }
-
-    setImages(prev => prev.map(img => 
-        img.status === 'pending' ? { ...img, status: 'loading' } : img
-    ));
-
-    for (const image of imagesToAnalyze) {
-        try {
-            const { analysis, segmentedImageBase64, heatmapImageBase64, segmentationUncertaintyMapBase64 } = await analyzeImage(image.file);
-            setImages(prev => prev.map(img =>
-                img.id === image.id ? {
-                    ...img,
-                    status: 'success',
-                    result: analysis,
-                    segmentedImageUrl: `data:image/jpeg;base64,${segmentedImageBase64}`,
-                    heatmapImageUrl: `data:image/jpeg;base64,${heatmapImageBase64}`,
-                    segmentationUncertaintyMapUrl: `data:image/jpeg;base64,${segmentationUncertaintyMapBase64}`
-                } : img
-            ));
-        } catch (err) {
-            setImages(prev => prev.map(img =>
-                img.id === image.id ? { ...img, status: 'error', error: (err as Error).message } : img
-            ));
-        }
+  const handleJobSuccess = useCallback((id: string, { output, quality, refinementFeedback, annotations }: AnalysisJobResult) => {
+    if (!output) {
+      updateImage(id, img => ({ ...withoutProgress(img), status: img.result ? finishedStatus(img.mapErrors) : 'pending', retryAttempt: undefined, quality }));
+      return;
     }
-    setIsAnalyzing(false);
-  }, [images]);
-  
-  const handleRefineAnalysis = useCallback(async (id: string, feedback: string) => {
-    const imageToRefine = images.find(img => img.id === id);
-    if (!imageToRefine) return;
+    const maps = toAnalysisMaps(output);
+    const version: AnalysisVersion = {
+      id: crypto.randomUUID(),
+      createdAt: new Date().toISOString(),
+      feedback: refinementFeedback,
+      annotations,
+      result: triageResult(output.analysis, triageSettingsRef.current),
+      cachedAt: output.cachedAt,
+      heatmapImageUrl: toObjectUrl(maps.heatmap),
+    };
+    const blobs: sessionStore.ImageBlobs = { processed: output.processedImage, segmentation: maps.segmentation, uncertainty: maps.uncertainty };
+    if (maps.heatmap) blobs[sessionStore.versionHeatmapKind(version.id)] = maps.heatmap;
+    sessionStore.saveImageBlobs(id, blobs).catch(err => console.error('Failed to store analysis maps:', err));
 
-    setImages(prev => prev.map(img => img.id === id ? { ...img, status: 'loading' } : img));
+    const segmentedImageUrl = toObjectUrl(maps.segmentation);
+    const segmentationUncertaintyMapUrl = toObjectUrl(maps.uncertainty);
+    const processedImageUrl = toObjectUrl(output.processedImage);
+    updateImage(id, img => {
+      // Refinements return only the report and heatmap, so they keep the other maps and their errors.
+      // A first run replaces every map, including one that failed this time. Earlier heatmaps stay
+      // alive with the versions that own them.
+      const isRefinement = !!refinementFeedback || !!annotations?.length;
+      if (!isRefinement) [img.segmentedImageUrl, img.segmentationUncertaintyMapUrl].forEach(url => url && URL.revokeObjectURL(url));
+      const mapErrors = isRefinement
+        ? { ...withoutMapError(img.mapErrors, 'heatmap'), ...output.mapErrors }
+        : output.mapErrors;
+      // A first run replaces the processed scan, or drops it when preprocessing was off; a refinement reuses it.
+      if (!isRefinement && img.processedImageUrl) URL.revokeObjectURL(img.processedImageUrl);
+      const preprocessed = isRefinement
+        ? { preprocessing: img.preprocessing, processedFile: img.processedFile, processedImageUrl: img.processedImageUrl }
+        : { preprocessing: output.analysis.preprocessing, processedFile: output.processedImage, processedImageUrl };
+      const status = finishedStatus(mapErrors);
+      return {
+        ...withoutProgress(img),
+        ...preprocessed,
+        status,
+        retryAttempt: undefined,
+        mapErrors: status === 'partial' ? mapErrors : undefined,
+        quality: quality ?? img.quality,
+        result: version.result,
+        heatmapImageUrl: version.heatmapImageUrl,
+        segmentedImageUrl: isRefinement ? img.segmentedImageUrl : segmentedImageUrl,
+        segmentationUncertaintyMapUrl: isRefinement ? img.segmentationUncertaintyMapUrl : segmentationUncertaintyMapUrl,
+        versions: [...(img.versions ?? []), version],
+        activeVersionId: version.id,
+      };
+    });
+  }, [updateImage]);
 
+  // Stages are shown as they arrive. A stage that arrives after its run ended, e.g. was cancelled, is dropped.
+  const handleStage = useCallback((id: string, event: AnalysisStageEvent) => {
+    if (event.type === 'classification') {
+      const result = triageResult(event.analysis, triageSettingsRef.current);
+      updateImage(id, img => img.progress ? { ...img, progress: { ...img.progress, result } } : img);
+    } else if (event.type === 'mapError') {
+      updateImage(id, img => img.progress ? { ...img, progress: { ...img.progress, mapErrors: { ...img.progress.mapErrors, [event.map]: event.message } } } : img);
+    } else {
+      const url = URL.createObjectURL(base64ToBlob(event.imageBase64));
+      updateImage(id, img => {
+        if (img.progress) return { ...img, progress: { ...img.progress, [MAP_URL_FIELDS[event.type]]: url } };
+        URL.revokeObjectURL(url);
+        return img;
+      });
+    }
+  }, [updateImage]);
+
+  const queueRef = useRef<AnalysisQueue<AnalysisJobResult> | null>(null);
+  if (!queueRef.current) {
+    queueRef.current = createAnalysisQueue<AnalysisJobResult>({
+      onStart: (id) => updateImage(id, img => ({ ...img, status: 'loading', error: undefined, errorKind: undefined, retryAttempt: undefined })),
+      onRetry: (id, attempt) => updateImage(id, img => ({ ...withoutProgress(img), retryAttempt: attempt + 1 })),
+      onSuccess: handleJobSuccess,
+      // A failed or cancelled refinement keeps the previous report; the failure is shown beside it.
+      onError: (id, err) => updateImage(id, img => ({
+        ...withoutProgress(img),
+        status: img.result ? finishedStatus(img.mapErrors) : 'error',
+        error: (err as Error).message,
+        errorKind: classifyApiError(err),
+        retryAttempt: undefined,
+      })),
+      // A cancelled first run goes back to pending.
+      onCancel: (id) => updateImage(id, img => ({ ...withoutProgress(img), status: img.result ? finishedStatus(img.mapErrors) : 'pending', retryAttempt: undefined })),
+      onStateChange: setQueueState,
+    }, { concurrency: appConfig.analysisConcurrency });
+  }
+  const queue = queueRef.current;
+
+  const enqueueAnalysis = useCallback((targets: AnalyzableImage[], refinementFeedback?: string, annotations?: ScanAnnotation[], forceRefresh = false) => {
+    // The gate runs before first analyses only; a refined scan has already passed it or been let through.
+    const isRefinement = !!refinementFeedback || !!annotations?.length;
+    const runAnalysis = (image: AnalyzableImage) => async (signal: AbortSignal): Promise<AnalysisJobResult> => {
+      const gated = !isRefinement && qualitySettings.mode !== 'off' && !image.qualityOverride;
+      const quality = gated
+        ? await checkImageQuality(image.file, { modelCheck: qualitySettings.modelCheck, previous: image.quality, prompts: activePrompts, signal }, provider)
+        : image.quality;
+      // A scan the model check finds ungradable is held back too; in warn mode its card asks whether to analyze it anyway.
+      if (gated && quality && !quality.gradable) {
+        return { quality, refinementFeedback, annotations };
+      }
+      const maps: AnalysisMapKind[] = isRefinement ? ['heatmap'] : ['segmentation', 'uncertainty', 'heatmap'];
+      updateImage(image.id, img => ({ ...withoutProgress(img), progress: { maps } }));
+      const onStage = (event: AnalysisStageEvent) => {
+        if (!signal.aborted) handleStage(image.id, event);
+      };
+      // A refinement runs on the scan the first analysis saw, so regions and maps keep lining up.
+      const output = isRefinement
+        ? await analyzeImage(image.processedFile ?? image.file, {
+          refinementFeedback, annotations, prompts: activePrompts, ensemble: ensembleSettings, preprocessed: image.processedFile && image.preprocessing, signal, onStage,
+        }, provider)
+        : await analyzeImage(image.file, {
+          prompts: activePrompts, ensemble: ensembleSettings, preprocessing: preprocessingSettings, contentHash: image.contentHash, forceRefresh, signal, onStage,
+        }, provider);
+      return { output, quality, refinementFeedback, annotations };
+    };
+    // A scan that is already queued or running keeps its job, so only the accepted ones are marked queued.
+    // One the queue started right away is already loading.
+    const accepted = targets.filter(image => queue.enqueue(image.id, runAnalysis(image)));
+    const ids = new Set(accepted.map(img => img.id));
+    setImages(prev => prev.map(img => ids.has(img.id) && img.status !== 'loading' ? { ...img, status: 'queued', error: undefined, errorKind: undefined } : img));
+    if (accepted.length === 0) return;
+    if (isRefinement) {
+      const regions = annotations?.length ? `${annotations.length} marked region${annotations.length !== 1 ? 's' : ''}` : undefined;
+      recordUserAction('refine', [refinementFeedback && `Feedback: "${refinementFeedback}"`, regions].filter(Boolean).join('; '), toAuditedImages(accepted));
+    } else {
+      recordUserAction('analyze', `Queued ${accepted.length} image${accepted.length !== 1 ? 's' : ''} for analysis${forceRefresh ? ', bypassing the cache' : ''}`, toAuditedImages(accepted));
+    }
+  }, [queue, provider, activePrompts, ensembleSettings, preprocessingSettings, qualitySettings, updateImage, handleStage]);
+
+  // Scans that look ungradable are left out in skip mode; in warn mode the user decides.
+  const handleAnalyzeAll = useCallback(() => {
+    setError(null);
+    const pending = images.filter(img => img.status === 'pending');
+    const heldBack = pending.filter(img => isHeldBack(img, qualitySettings));
+    const includeHeldBack = heldBack.length > 0 && qualitySettings.mode === 'warn'
+      && window.confirm(`${heldBack.length} scan${heldBack.length !== 1 ? 's look' : ' looks'} ungradable. Analyze ${heldBack.length !== 1 ? 'them' : 'it'} anyway? Cancel analyzes only the other scans.`);
+    if (!includeHeldBack) {
+      enqueueAnalysis(pending.filter(img => !heldBack.includes(img)));
+      return;
+    }
+    // Confirmed scans skip the gate, which would otherwise hold them back again.
+    const overridden = new Set(heldBack.map(img => img.id));
+    setImages(prev => prev.map(img => overridden.has(img.id) ? { ...img, qualityOverride: true } : img));
+    enqueueAnalysis(pending.map(img => overridden.has(img.id) ? { ...img, qualityOverride: true } : img));
+  }, [images, enqueueAnalysis, qualitySettings]);
+
+  const handleAnalyzeAnyway = useCallback((id: string) => {
+    const target = images.find(img => img.id === id);
+    if (!target) return;
+    updateImage(id, img => ({ ...img, qualityOverride: true }));
+    enqueueAnalysis([{ ...target, qualityOverride: true }]);
+  }, [images, updateImage, enqueueAnalysis]);
+
+  const handleForceRefresh = useCallback((id: string) => {
+    enqueueAnalysis(images.filter(img => img.id === id), undefined, undefined, true);
+  }, [images, enqueueAnalysis]);
+
+  const handleRetryFailed = useCallback(() => {
+    setError(null);
+    enqueueAnalysis(images.filter(img => img.status === 'error'));
+  }, [images, enqueueAnalysis]);
+
+  const handleRetryImage = useCallback((id: string) => {
+    enqueueAnalysis(images.filter(img => img.id === id && img.status === 'error'));
+  }, [images, enqueueAnalysis]);
+
+  // Runs every finished image again with the active preset, adding a version each for A/B comparison.
+  const handleReanalyzeWithPreset = useCallback(() => {
+    setError(null);
+    enqueueAnalysis(images.filter(img => isAnalyzed(img.status) || img.status === 'error'));
+  }, [images, enqueueAnalysis]);
+
+  // Refinements carry the scan's current annotations as region-grounded feedback alongside any text.
+  const handleRefineAnalysis = useCallback((id: string, feedback: string) => {
+    const target = images.find(img => img.id === id);
+    if (!target) return;
+    const annotations = target.annotations?.length ? target.annotations : undefined;
+    enqueueAnalysis([target], feedback || undefined, annotations);
+  }, [images, enqueueAnalysis]);
+
+  // A version without a heatmap lost it to a failure, so reverting to it carries that error along.
+  const handleRevertVersion = useCallback((id: string, versionId: string) => {
+    updateImage(id, img => {
+      const version = img.versions?.find(v => v.id === versionId);
+      if (!version) return img;
+      const mapErrors = version.heatmapImageUrl
+        ? withoutMapError(img.mapErrors, 'heatmap')
+        : { ...img.mapErrors, heatmap: img.mapErrors?.heatmap ?? 'The heatmap of this version could not be generated.' };
+      return { ...img, result: version.result, heatmapImageUrl: version.heatmapImageUrl, activeVersionId: version.id, mapErrors, status: finishedStatus(mapErrors) };
+    });
+  }, [updateImage]);
+
+  // A failed map is generated again on the scan and with the feedback of the analysis it belongs to.
+  const handleRetryMap = useCallback(async (id: string, map: AnalysisMapKind) => {
+    const target = images.find(img => img.id === id);
+    if (!target || target.retryingMaps?.includes(map)) return;
+    const versionId = target.activeVersionId;
+    const version = target.versions?.find(v => v.id === versionId);
+    updateImage(id, img => ({ ...img, retryingMaps: [...(img.retryingMaps ?? []), map] }));
+    recordUserAction('analyze', `Generated the ${map} map again`, toAuditedImages([target]));
+    // The outcome is dropped if the image was analyzed again in the meantime.
+    const finish = (update: (img: AnalyzableImage) => AnalyzableImage) => updateImage(id, img => {
+      const retryingMaps = img.retryingMaps?.filter(kind => kind !== map);
+      const settled = { ...img, retryingMaps: retryingMaps?.length ? retryingMaps : undefined };
+      return isAnalyzed(img.status) && img.activeVersionId === versionId ? update(settled) : settled;
+    });
     try {
-        const { analysis, heatmapImageBase64 } = await analyzeImage(imageToRefine.file, feedback);
-        setImages(prev => prev.map(img =>
-            img.id === id ? {
-                ...img,
-                status: 'success',
-                result: analysis,
-                heatmapImageUrl: `data:image/jpeg;base64,${heatmapImageBase64}`
-                // Note: segmentation map is intentionally not updated on refine
-            } : img
-        ));
+      const imageBase64 = await generateMap(target.processedFile ?? target.file, map, {
+        prompts: activePrompts, refinementFeedback: version?.feedback, annotations: version?.annotations,
+      }, provider);
+      const blob = base64ToBlob(imageBase64);
+      const blobs: sessionStore.ImageBlobs = {};
+      blobs[map === 'heatmap' && versionId ? sessionStore.versionHeatmapKind(versionId) : map] = blob;
+      sessionStore.saveImageBlobs(id, blobs).catch(err => console.error('Failed to store analysis maps:', err));
+      const url = URL.createObjectURL(blob);
+      finish(img => {
+        const mapErrors = withoutMapError(img.mapErrors, map);
+        const current = img[MAP_URL_FIELDS[map]];
+        if (current) URL.revokeObjectURL(current);
+        return {
+          ...img,
+          [MAP_URL_FIELDS[map]]: url,
+          versions: map === 'heatmap' ? img.versions?.map(v => v.id === versionId ? { ...v, heatmapImageUrl: url } : v) : img.versions,
+          mapErrors,
+          status: finishedStatus(mapErrors),
+        };
+      });
     } catch (err) {
-        setImages(prev => prev.map(img =>
-            img.id === id ? { ...img, status: 'error', error: (err as Error).message } : img
-        ));
+      finish(img => ({ ...img, mapErrors: { ...img.mapErrors, [map]: (err as Error).message }, status: 'partial' }));
     }
-  }, [images]);
+  }, [images, updateImage, activePrompts, provider]);
+
+  // The question joins the conversation at once; if it cannot be answered it is taken out again and the error passed on.
+  const handleAskAboutScan = useCallback(async (id: string, question: string) => {
+    const target = images.find(img => img.id === id);
+    // ScanChat has already cleared its draft, so a question that cannot be sent must reject for the draft to come back.
+    if (!target?.result) throw new Error('This scan has no report to ask about.');
+    if (target.chatPending) throw new Error('Wait for the answer to the previous question.');
+    const message = createChatMessage('user', question);
+    const chat = [...(target.chat ?? []), message];
+    updateImage(id, img => ({ ...img, chat: [...(img.chat ?? []), message], chatPending: true }));
+    recordUserAction('ask', `Asked: "${question}"`, toAuditedImages([target]));
+    try {
+      const reply = await askAboutScan(target.processedFile ?? target.file, target.result, chat, { prompts: activePrompts }, provider);
+      updateImage(id, img => ({ ...img, chat: [...(img.chat ?? []), reply], chatPending: undefined }));
+    } catch (err) {
+      updateImage(id, img => {
+        const remaining = img.chat?.filter(entry => entry.id !== message.id);
+        return { ...img, chat: remaining?.length ? remaining : undefined, chatPending: undefined };
+      });
+      throw err;
+    }
+  }, [images, updateImage, activePrompts, provider]);
+
+  const handleClearChat = (id: string) => {
+    updateImage(id, img => ({ ...img, chat: undefined }));
+  };
+
+  const handleCancelImage = useCallback((id: string) => queue.cancel(id), [queue]);
+
+  const handleConcurrencyChange = (value: number) => {
+    const next = Math.min(MAX_CONCURRENCY, Math.max(1, value || 1));
+    setConcurrency(next);
+    queue.setConcurrency(next);
+  };
+
+  const dropComparisonsFor = (imageIds: string[]) => {
+    const removed = new Set(imageIds);
+    setComparisons(prev => prev.some(comparison => removed.has(comparison.baselineImageId) || removed.has(comparison.followUpImageId))
+      ? prev.filter(comparison => !removed.has(comparison.baselineImageId) && !removed.has(comparison.followUpImageId))
+      : prev);
+  };
 
   const handleDeleteImage = (id: string) => {
+    queue.cancel(id);
+    const target = images.find(img => img.id === id);
+    if (target) recordUserAction('delete', `Deleted ${target.file.name}`, toAuditedImages([target]));
+    const volumeId = target?.volumeId;
+    if (volumeId && !images.some(img => img.id !== id && img.volumeId === volumeId)) {
+      setVolumes(prev => prev.filter(volume => volume.id !== volumeId));
+    }
     setImages(prev => {
         const imageToDelete = prev.find(img => img.id === id);
         if (imageToDelete) {
-            URL.revokeObjectURL(imageToDelete.previewUrl);
+            revokeImageUrls(imageToDelete);
         }
         return prev.filter(img => img.id !== id);
     });
+    dropComparisonsFor([id]);
   };
+
+  const handleDeleteVolume = (volumeId: string) => {
+    const slices = images.filter(img => img.volumeId === volumeId);
+    const name = volumes.find(volume => volume.id === volumeId)?.name ?? 'volume';
+    recordUserAction('delete', `Deleted ${name} with ${slices.length} slice${slices.length !== 1 ? 's' : ''}`, toAuditedImages(slices));
+    slices.forEach(img => queue.cancel(img.id));
+    dropComparisonsFor(slices.map(img => img.id));
+    setImages(prev => {
+      prev.filter(img => img.volumeId === volumeId).forEach(revokeImageUrls);
+      return prev.filter(img => img.volumeId !== volumeId);
+    });
+    setVolumes(prev => prev.filter(volume => volume.id !== volumeId));
+  };
+
+  const handleAggregationChange = (volumeId: string, aggregation: VolumeAggregation) => {
+    setVolumes(prev => prev.map(volume => volume.id === volumeId ? { ...volume, aggregation } : volume));
+  };
+
+  const runExport = async (title: string, build: () => Promise<Blob>, fileName: string, exported: AnalyzableImage[]) => {
+    setIsExporting(true);
+    try {
+      downloadBlob(await build(), fileName);
+      recordUserAction('export', `Exported ${fileName}`, toAuditedImages(exported));
+    } catch (err) {
+      console.error(`${title}:`, err);
+      setError({ title, message: (err as Error).message });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const exportBaseName = () => sessions.find(s => s.id === sessionId)?.name ?? 'batch';
+
+  const handleExportImagePdf = (id: string) => {
+    const image = images.find(img => img.id === id);
+    if (image) runExport('PDF Export Failed', () => buildReportPdf([image]), `report-${baseFileName(image.file.name)}.pdf`, [image]);
+  };
+
+  const handleExportBatchPdf = () => {
+    const analyzed = images.filter(img => isAnalyzed(img.status));
+    runExport('PDF Export Failed', () => buildReportPdf(analyzed), `reports-${exportBaseName()}.pdf`, analyzed);
+  };
+
+  const handleExportCsv = () => {
+    const csv = buildResultsCsv(images, volumes);
+    const fileName = `results-${exportBaseName()}.csv`;
+    downloadBlob(new Blob([csv], { type: 'text/csv;charset=utf-8' }), fileName);
+    recordUserAction('export', `Exported ${fileName}`, toAuditedImages(images));
+  };
+
+  const handleExportBundle = () => {
+    runExport('Export Failed', () => buildResultBundle(images, volumes, comparisons), `results-${exportBaseName()}.json`, images);
+  };
+
+  // Imported results join the current session as-is; nothing is sent to the model.
+  const handleImportBundle = async (file: File) => {
+    try {
+      const imported = await readResultBundle(file);
+      await Promise.all(imported.images.map(({ image, blobs }) => sessionStore.saveImageBlobs(image.id, blobs)));
+      const restored = imported.images.map(entry => triageImage(toDisplayImage(entry), triageSettings));
+      setVolumes(prev => [...prev, ...imported.volumes]);
+      setImages(prev => [...prev, ...restored]);
+      recordUserAction('import', `Imported ${restored.length} result${restored.length !== 1 ? 's' : ''} from ${file.name}`, toAuditedImages(restored));
+      if (imported.comparisons.length > 0) setComparisons(prev => [...imported.comparisons, ...prev]);
+      setError(imported.skipped.length > 0 ? { title: 'Some Results Could Not Be Imported', message: imported.skipped.join(' ') } : null);
+    } catch (err) {
+      console.error('Import failed:', err);
+      setError({ title: 'Import Failed', message: (err as Error).message });
+    }
+  };
+
+  const handleGroundTruthChange = (id: string, groundTruth?: ClinicalDiagnosis) => {
+    updateImage(id, img => ({ ...img, groundTruth }));
+  };
+
+  // All slices of a volume come from one visit, so a visit edit applies to the whole volume.
+  const handleVisitChange = (id: string, visit?: VisitInfo) => {
+    const volumeId = images.find(img => img.id === id)?.volumeId;
+    setImages(prev => prev.map(img => img.id === id || (volumeId && img.volumeId === volumeId) ? { ...img, visit } : img));
+  };
+
+  const handleCompareVisits = async (baselineImageId: string, followUpImageId: string) => {
+    const baseline = images.find(img => img.id === baselineImageId);
+    const followUp = images.find(img => img.id === followUpImageId);
+    if (!baseline?.visit || !followUp?.visit) return;
+    setComparingIds([baselineImageId, followUpImageId]);
+    try {
+      // Like a refinement, the comparison sees the scans the two reports were made on.
+      const assessment = await compareVisits(
+        { image: baseline.processedFile ?? baseline.file, visitDate: baseline.visit.visitDate, result: baseline.result },
+        { image: followUp.processedFile ?? followUp.file, visitDate: followUp.visit.visitDate, result: followUp.result },
+        { prompts: activePrompts },
+        provider,
+      );
+      const comparison: VisitComparison = {
+        id: crypto.randomUUID(),
+        createdAt: new Date().toISOString(),
+        patientId: baseline.visit.patientId,
+        eye: baseline.visit.eye,
+        baselineImageId,
+        followUpImageId,
+        assessment,
+      };
+      setComparisons(prev => [comparison, ...prev]);
+    } catch (err) {
+      setError({ title: 'Comparison Failed', message: (err as Error).message });
+    } finally {
+      setComparingIds(undefined);
+    }
+  };
+
+  const handleDeleteComparison = (comparisonId: string) => {
+    setComparisons(prev => prev.filter(comparison => comparison.id !== comparisonId));
+  };
+
+  const handleGradingChange = (id: string, grading?: ScanGrading) => {
+    const target = images.find(img => img.id === id);
+    if (target) recordUserAction('grade', describeGradingChange(target.grading, grading), toAuditedImages([target]));
+    updateImage(id, img => ({ ...img, grading }));
+  };
+
+  const handleAnnotationsChange = (id: string, annotations: ScanAnnotation[]) => {
+    updateImage(id, img => ({ ...img, annotations: annotations.length > 0 ? annotations : undefined }));
+  };
+
+  // Manifest labels apply to images already in the session, matched by file name.
+  const handleImportManifest = async (file: File) => {
+    const { labels, errors } = parseManifest(await file.text());
+    const matched = images.filter(img => labels.has(img.file.name.toLowerCase()));
+    recordUserAction('import', `Imported ground-truth labels from ${file.name} for ${matched.length} image${matched.length !== 1 ? 's' : ''}`, toAuditedImages(matched));
+    setImages(prev => prev.map(img => {
+      const groundTruth = labels.get(img.file.name.toLowerCase());
+      return groundTruth && groundTruth !== img.groundTruth ? { ...img, groundTruth } : img;
+    }));
+    const problems = [
+      ...errors,
+      ...(labels.size > matched.length ? [`${labels.size - matched.length} manifest entr${labels.size - matched.length === 1 ? 'y matches' : 'ies match'} no loaded image.`] : []),
+    ];
+    setError(problems.length > 0 ? { title: `Labeled ${matched.length} Image${matched.length !== 1 ? 's' : ''}`, message: problems.join(' ') } : null);
+  };
+
+  // Changing a threshold or rule re-triages every stored result, including past versions.
+  const handleTriageSettingsChange = (settings: TriageSettings) => {
+    setTriageSettings(settings);
+    setImages(prev => prev.map(img => triageImage(img, settings)));
+  };
+
+  const refreshSessions = useCallback(async () => {
+    setSessions(await sessionStore.listSessions());
+  }, []);
+
+  const openSession = useCallback(async (id: string) => {
+    queue.cancelAll();
+    const [session, loaded] = await Promise.all([sessionStore.getSession(id), sessionStore.loadSessionImages(id)]);
+    // Sessions saved before a setting existed get its default.
+    const restoredTriage = { ...DEFAULT_TRIAGE_SETTINGS, ...session?.triageSettings };
+    const restoredPreprocessing = { ...DEFAULT_PREPROCESSING_SETTINGS, ...session?.preprocessingSettings };
+    const restored = loaded.map(entry => triageImage(toDisplayImage(entry), restoredTriage));
+    const restoredVolumes = session?.volumes ?? [];
+    const restoredComparisons = session?.comparisons ?? [];
+    persistedRef.current = new Map(restored.map(img => [img.id, img]));
+    persistedVolumesRef.current = restoredVolumes;
+    persistedTriageRef.current = restoredTriage;
+    persistedPreprocessingRef.current = restoredPreprocessing;
+    persistedComparisonsRef.current = restoredComparisons;
+    setVolumes(restoredVolumes);
+    setTriageSettings(restoredTriage);
+    setPreprocessingSettings(restoredPreprocessing);
+    setComparisons(restoredComparisons);
+    setImages(prev => {
+      prev.forEach(revokeImageUrls);
+      return restored;
+    });
+    setAuditSession(id);
+    setSessionId(id);
+    setError(null);
+  }, [queue]);
+
+  const handleCreateSession = useCallback(async () => {
+    const session = await sessionStore.createSession(defaultSessionName());
+    await openSession(session.id);
+    await refreshSessions();
+  }, [openSession, refreshSessions]);
+
+  const handleRenameSession = useCallback(async (id: string, name: string) => {
+    await sessionStore.updateSession(id, { name });
+    await refreshSessions();
+  }, [refreshSessions]);
+
+  const handleDeleteSession = useCallback(async (id: string) => {
+    if (!window.confirm('Delete this session and all of its stored images and results?')) return;
+    await sessionStore.deleteSession(id);
+    recordUserAction('delete', `Deleted session "${sessions.find(session => session.id === id)?.name ?? id}"`);
+    const remaining = await sessionStore.listSessions();
+    setSessions(remaining);
+    if (id === sessionId) {
+      if (remaining.length > 0) {
+        await openSession(remaining[0].id);
+      } else {
+        await handleCreateSession();
+      }
+    }
+  }, [sessionId, sessions, openSession, handleCreateSession]);
+
+  // Reopen the most recent session on startup, or start a fresh one.
+  const initializedRef = useRef(false);
+  useEffect(() => {
+    if (initializedRef.current) return;
+    initializedRef.current = true;
+    sessionStore.listSessions()
+      .then(async existing => {
+        if (existing.length > 0) {
+          setSessions(existing);
+          await openSession(existing[0].id);
+        } else {
+          await handleCreateSession();
+        }
+      })
+      .catch(err => console.error('Failed to load sessions:', err));
+  }, []);
+
+  useEffect(() => {
+    setAuditEntryListener(() => setAuditRevision(revision => revision + 1));
+    return () => setAuditEntryListener(undefined);
+  }, []);
+
+  useEffect(() => {
+    if (!sessionId || persistedVolumesRef.current === volumes) return;
+    persistedVolumesRef.current = volumes;
+    sessionStore.updateSession(sessionId, { volumes })
+      .catch(err => console.error('Failed to persist volumes:', err));
+  }, [volumes, sessionId]);
+
+  useEffect(() => {
+    if (!sessionId || persistedTriageRef.current === triageSettings) return;
+    persistedTriageRef.current = triageSettings;
+    sessionStore.updateSession(sessionId, { triageSettings })
+      .catch(err => console.error('Failed to persist triage settings:', err));
+  }, [triageSettings, sessionId]);
+
+  useEffect(() => {
+    if (!sessionId || persistedPreprocessingRef.current === preprocessingSettings) return;
+    persistedPreprocessingRef.current = preprocessingSettings;
+    sessionStore.updateSession(sessionId, { preprocessingSettings })
+      .catch(err => console.error('Failed to persist preprocessing settings:', err));
+  }, [preprocessingSettings, sessionId]);
+
+  useEffect(() => {
+    if (!sessionId || persistedComparisonsRef.current === comparisons) return;
+    persistedComparisonsRef.current = comparisons;
+    sessionStore.updateSession(sessionId, { comparisons })
+      .catch(err => console.error('Failed to persist visit comparisons:', err));
+  }, [comparisons, sessionId]);
+
+  // Prompt presets are app-wide, so they are saved apart from the session.
+  useEffect(() => {
+    try {
+      savePromptRegistry(promptRegistry);
+    } catch (err) {
+      console.error('Failed to save prompt presets:', err);
+    }
+  }, [promptRegistry]);
+
+  // Write changed images to IndexedDB and drop deleted ones.
+  useEffect(() => {
+    if (!sessionId) return;
+    const previous = persistedRef.current;
+    const current = new Map(images.map(img => [img.id, img]));
+    if (previous.size === current.size && images.every(img => previous.get(img.id) === img)) return;
+
+    const writes = images.map((img, order) =>
+      previous.get(img.id) === img ? Promise.resolve() : sessionStore.saveImage(sessionId, img, order));
+    const deletes = [...previous.keys()].filter(id => !current.has(id)).map(id => sessionStore.deleteImage(id));
+    persistedRef.current = current;
+
+    Promise.all([...writes, ...deletes])
+      .then(() => sessionStore.updateSession(sessionId, { imageCount: images.length }))
+      .then(refreshSessions)
+      .catch(err => console.error('Failed to persist session:', err));
+  }, [images, sessionId, refreshSessions]);
   
+  // Volume slices render together as one card, at the position of their first slice.
+  const displayItems = useMemo(() => {
+    const volumeById = new Map<string, ScanVolume>(volumes.map(volume => [volume.id, volume]));
+    const slicesByVolume = new Map<string, AnalyzableImage[]>();
+    images.forEach(img => {
+      if (img.volumeId && volumeById.has(img.volumeId)) {
+        slicesByVolume.set(img.volumeId, [...(slicesByVolume.get(img.volumeId) ?? []), img]);
+      }
+    });
+    const rendered = new Set<string>();
+    return images.flatMap(img => {
+      const volume = img.volumeId ? volumeById.get(img.volumeId) : undefined;
+      if (!volume) return [{ kind: 'image' as const, image: img }];
+      if (rendered.has(volume.id)) return [];
+      rendered.add(volume.id);
+      return [{ kind: 'volume' as const, volume, slices: sortSlices(slicesByVolume.get(volume.id)!) }];
+    });
+  }, [images, volumes]);
+
+  // A volume is graded slice by slice; it stays in the queue view while any of its slices is at the chosen stage.
+  const visibleItems = useMemo(() => gradingFilter === 'all' ? displayItems : displayItems.filter(item =>
+    (item.kind === 'image' ? [item.image] : item.slices).some(img => gradingStage(img.grading) === gradingFilter)
+  ), [displayItems, gradingFilter]);
+
+  const gradingCounts = useMemo(() => {
+    const counts = Object.fromEntries(GRADING_STAGES.map(stage => [stage, 0])) as Record<GradingStage, number>;
+    images.forEach(img => counts[gradingStage(img.grading)]++);
+    return counts;
+  }, [images]);
+
   const pendingCount = useMemo(() => images.filter(i => i.status === 'pending').length, [images]);
+  const failedCount = useMemo(() => images.filter(i => i.status === 'error').length, [images]);
+  const heldBackCount = useMemo(() => images.filter(i => i.status === 'pending' && isHeldBack(i, qualitySettings)).length, [images, qualitySettings]);
+  const hasGroundTruth = useMemo(() => images.some(i => i.groundTruth), [images]);
+  const hasVisits = useMemo(() => images.some(i => i.visit), [images]);
+  const successCount = useMemo(() => images.filter(i => isAnalyzed(i.status)).length, [images]);
+  const isAnalyzing = queueState.running + queueState.queued > 0;
 
   const WelcomeState: React.FC = () => (
     <div className="text-center p-8 border-2 border-dashed border-slate-600 rounded-2xl bg-slate-800/50 col-span-full">
@@ -112,13 +871,17 @@ const App: React.FC = () => {
 
   return (
     <div className="min-h-screen bg-slate-900 font-sans">
-      <Header />
+      <Header providerName={provider.name} />
       <main className="container mx-auto p-4 md:p-8">
         <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
           <aside className="lg:col-span-4 xl:col-span-3">
             <div className="sticky top-8 bg-slate-800 rounded-2xl p-6 shadow-2xl shadow-slate-950/50 border border-slate-700">
               <h2 className="text-xl font-semibold mb-4 text-cyan-400">Control Panel</h2>
               <ImageUploader onImageUpload={handleImageUpload} />
+              <label className="mt-3 flex items-center gap-2 text-sm text-slate-400">
+                <input type="checkbox" checked={groupAsVolume} onChange={(e) => setGroupAsVolume(e.target.checked)} />
+                Group uploaded images as one volume (B-scan stack)
+              </label>
               {images.length > 0 && (
                 <div className="mt-4 flex items-center text-sm text-green-400 bg-green-900/50 p-3 rounded-lg">
                     <CheckCircleIcon className="w-5 h-5 mr-2 flex-shrink-0"/>
@@ -127,20 +890,97 @@ const App: React.FC = () => {
                     </span>
                 </div>
               )}
+              <div className="mt-4 flex items-center justify-between text-sm text-slate-400">
+                <label htmlFor="concurrency">Parallel analyses</label>
+                <input
+                  id="concurrency"
+                  type="number"
+                  min={1}
+                  max={MAX_CONCURRENCY}
+                  value={concurrency}
+                  onChange={(e) => handleConcurrencyChange(parseInt(e.target.value, 10))}
+                  className="w-16 p-1 bg-slate-900 border border-slate-600 rounded-md text-slate-200 text-center focus:ring-2 focus:ring-cyan-500 focus:outline-none"
+                />
+              </div>
               <button
                 onClick={handleAnalyzeAll}
-                disabled={pendingCount === 0 || isAnalyzing}
+                disabled={pendingCount === 0}
                 className="w-full mt-4 bg-cyan-600 hover:bg-cyan-500 disabled:bg-slate-600 disabled:cursor-not-allowed text-white font-bold py-3 px-4 rounded-lg transition-all duration-300 transform hover:scale-105 focus:outline-none focus:ring-2 focus:ring-cyan-400 focus:ring-opacity-75"
               >
-                {isAnalyzing ? `Analyzing...` : `Analyze ${pendingCount > 0 ? pendingCount : ''} Image${pendingCount !== 1 ? 's' : ''}`}
+                {`Analyze ${pendingCount > 0 ? pendingCount : ''} Image${pendingCount !== 1 ? 's' : ''}`}
               </button>
+              {heldBackCount > 0 && (
+                <p className="mt-2 text-xs text-amber-400">
+                  {heldBackCount} scan{heldBackCount !== 1 ? 's look' : ' looks'} ungradable and {qualitySettings.mode === 'skip' ? 'will be skipped' : 'will need confirmation'}.
+                </p>
+              )}
+              {isAnalyzing && (
+                <div className="mt-4">
+                  <p className="text-sm text-slate-400 mb-2">
+                    {queueState.paused ? 'Paused' : 'Analyzing'}: {queueState.running} running, {queueState.queued} queued
+                  </p>
+                  <div className="grid grid-cols-2 gap-2">
+                    <button
+                      onClick={queueState.paused ? queue.resume : queue.pause}
+                      className="px-4 py-2 text-sm font-semibold bg-slate-700 hover:bg-slate-600 text-cyan-300 rounded-lg transition-colors duration-200"
+                    >
+                      {queueState.paused ? 'Resume' : 'Pause'}
+                    </button>
+                    <button
+                      onClick={queue.cancelAll}
+                      className="px-4 py-2 text-sm font-semibold bg-slate-700 hover:bg-slate-600 text-red-300 rounded-lg transition-colors duration-200"
+                    >
+                      Cancel All
+                    </button>
+                  </div>
+                </div>
+              )}
+              {failedCount > 0 && (
+                <button
+                  onClick={handleRetryFailed}
+                  className="w-full mt-4 px-4 py-2 text-sm font-semibold bg-slate-700 hover:bg-slate-600 text-orange-300 rounded-lg transition-colors duration-200"
+                >
+                  Retry {failedCount} Failed
+                </button>
+              )}
+              <ExportPanel
+                imageCount={images.length}
+                successCount={successCount}
+                isExporting={isExporting}
+                onExportCsv={handleExportCsv}
+                onExportBundle={handleExportBundle}
+                onExportPdf={handleExportBatchPdf}
+                onImportBundle={handleImportBundle}
+                onImportManifest={handleImportManifest}
+              />
+              <TriageSettingsPanel settings={triageSettings} onChange={handleTriageSettingsChange} />
+              <PreprocessingSettingsPanel settings={preprocessingSettings} onChange={setPreprocessingSettings} />
+              <QualitySettingsPanel settings={qualitySettings} onChange={setQualitySettings} supportsModelCheck={!!provider.checkQuality} />
+              <EnsembleSettingsPanel settings={ensembleSettings} onChange={setEnsembleSettings} />
+              <PromptSettingsPanel
+                registry={promptRegistry}
+                onChange={setPromptRegistry}
+                usesPrompts={provider.name !== 'local'}
+                reanalyzeCount={images.filter(img => isAnalyzed(img.status) || img.status === 'error').length}
+                onReanalyze={handleReanalyzeWithPreset}
+              />
+              <AnalysisCachePanel refreshKey={successCount} />
+              <AuditLogPanel refreshKey={auditRevision} />
+              <SessionList
+                sessions={sessions}
+                activeSessionId={sessionId}
+                onOpen={openSession}
+                onCreate={handleCreateSession}
+                onRename={handleRenameSession}
+                onDelete={handleDeleteSession}
+              />
               {error && (
                 <div className="mt-4 bg-red-900/30 border border-red-500 text-red-300 px-4 py-3 rounded-lg" role="alert">
                   <div className="flex">
                     <div className="py-1"><AlertTriangleIcon className="w-6 h-6 text-red-400 mr-3 flex-shrink-0"/></div>
                     <div>
-                      <p className="font-bold">Analysis Failed</p>
-                      <p className="text-sm">{error}</p>
+                      <p className="font-bold">{error.title}</p>
+                      <p className="text-sm">{error.message}</p>
                     </div>
                   </div>
                 </div>
@@ -151,12 +991,65 @@ const App: React.FC = () => {
           <div className="lg:col-span-8 xl:col-span-9">
             <div className="grid grid-cols-1 gap-8">
                 {images.length === 0 && <WelcomeState />}
-                {images.map(image => (
+                {hasGroundTruth && <EvaluationDashboard images={images} />}
+                {hasVisits && (
+                    <PatientTimeline
+                        images={images}
+                        comparisons={comparisons}
+                        comparingIds={comparingIds}
+                        onCompare={handleCompareVisits}
+                        onDeleteComparison={handleDeleteComparison}
+                    />
+                )}
+                {images.length > 0 && (
+                    <GradingQueue counts={gradingCounts} total={images.length} filter={gradingFilter} onChange={setGradingFilter} />
+                )}
+                {visibleItems.map(item => item.kind === 'volume' ? (
+                    <VolumeResults
+                        key={item.volume.id}
+                        volume={item.volume}
+                        slices={item.slices}
+                        onAggregationChange={handleAggregationChange}
+                        onDeleteVolume={handleDeleteVolume}
+                        onRefine={handleRefineAnalysis}
+                        onRevert={handleRevertVersion}
+                        onCancel={handleCancelImage}
+                        onRetry={handleRetryImage}
+                        onDelete={handleDeleteImage}
+                        onExportPdf={handleExportImagePdf}
+                        onGroundTruthChange={handleGroundTruthChange}
+                        onAnnotationsChange={handleAnnotationsChange}
+                        onVisitChange={handleVisitChange}
+                        onGradingChange={handleGradingChange}
+                        qualityMode={qualitySettings.mode}
+                        preprocessingSettings={preprocessingSettings}
+                        onAnalyzeAnyway={handleAnalyzeAnyway}
+                        onForceRefresh={handleForceRefresh}
+                        onRetryMap={handleRetryMap}
+                        onAsk={handleAskAboutScan}
+                        onClearChat={handleClearChat}
+                    />
+                ) : (
                     <AnalysisResults
-                        key={image.id}
-                        imageState={image}
+                        key={item.image.id}
+                        imageState={item.image}
                         onRefine={handleRefineAnalysis}
+                        onRevert={handleRevertVersion}
+                        onCancel={handleCancelImage}
+                        onRetry={handleRetryImage}
                         onDelete={handleDeleteImage}
+                        onExportPdf={handleExportImagePdf}
+                        onGroundTruthChange={handleGroundTruthChange}
+                        onAnnotationsChange={handleAnnotationsChange}
+                        onVisitChange={handleVisitChange}
+                        onGradingChange={handleGradingChange}
+                        qualityMode={qualitySettings.mode}
+                        preprocessingSettings={preprocessingSettings}
+                        onAnalyzeAnyway={handleAnalyzeAnyway}
+                        onForceRefresh={handleForceRefresh}
+                        onRetryMap={handleRetryMap}
+                        onAsk={handleAskAboutScan}
+                        onClearChat={handleClearChat}
                     />
                 ))}
             </div>
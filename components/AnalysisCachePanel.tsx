@@ -0,0 +1,45 @@
+import React, { useEffect, useState } from 'react';
+import { MAX_CACHE_ENTRIES, clearAnalysisCache, countCachedAnalyses } from '../services/analysisCache';
+
+interface AnalysisCachePanelProps {
+  /** Changes whenever an analysis finishes, so the entry count is re-read. */
+  refreshKey: number;
+}
+
+export const AnalysisCachePanel: React.FC<AnalysisCachePanelProps> = ({ refreshKey }) => {
+  const [count, setCount] = useState<number | null>(null);
+
+  const refresh = () => {
+    countCachedAnalyses().then(setCount).catch(err => console.error('Failed to read the analysis cache:', err));
+  };
+
+  useEffect(refresh, [refreshKey]);
+
+  const handleClear = async () => {
+    if (!window.confirm('Clear all cached analyses? Results already in your sessions are kept.')) return;
+    try {
+      await clearAnalysisCache();
+    } catch (err) {
+      console.error('Failed to clear the analysis cache:', err);
+    }
+    refresh();
+  };
+
+  return (
+    <div className="mt-6 border-t border-slate-700 pt-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-cyan-400">Analysis Cache</h3>
+        <button
+          onClick={handleClear}
+          disabled={!count}
+          className="px-3 py-1 text-sm font-semibold bg-slate-700 hover:bg-slate-600 text-cyan-300 rounded-lg disabled:text-slate-500 disabled:cursor-not-allowed transition-colors duration-200"
+        >
+          Clear
+        </button>
+      </div>
+      <p className="mt-1 text-xs text-slate-500">
+        {count === null ? 'Unavailable' : `${count} cached analys${count !== 1 ? 'es' : 'is'}`} · An identical scan analyzed with the same settings reuses its result without model calls. The oldest entries are dropped beyond {MAX_CACHE_ENTRIES}.
+      </p>
+    </div>
+  );
+};
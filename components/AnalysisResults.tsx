@@ -1,15 +1,55 @@
 import React, { useState } from 'react';
-import type { AnalyzableImage, AnalysisResult } from '../types';
-import { SparklesIcon, DownloadIcon, InfoIcon, TrashIcon } from './icons';
+import type { AnalysisMapKind, AnalyzableImage, AnalysisResult, AnnotationLabel, AnnotationShape, ClinicalDiagnosis, EnsembleSummary, ImageQuality, PreprocessingSettings, QualityGateMode, ScanAnnotation, ScanGrading, ScanMetadata, StructuredFindings, VisitInfo } from '../types';
+import { SparklesIcon, DownloadIcon, InfoIcon, TrashIcon, ChatIcon } from './icons';
 import { Loader } from './Loader';
+import { AnnotationToolbar } from './AnnotationToolbar';
+import { GradingPanel } from './GradingPanel';
+import { PreprocessingPreview } from './PreprocessingPreview';
+import { ScanChat } from './ScanChat';
+import { ScanViewer, type AnnotationTool } from './ScanViewer';
+import { VersionHistory } from './VersionHistory';
+import { VisitFields } from './VisitFields';
+import { ANALYSIS_MAPS, MAP_URL_FIELDS, isAnalyzed } from '../services/analysisMaps';
+import { CLINICAL_DIAGNOSES, formatConfidence } from '../services/analysisResult';
+import { ANNOTATION_LABELS, describeRegion } from '../services/annotations';
+import { recordUserAction, toAuditedImages } from '../services/auditLog';
+import { baseFileName, downloadBlob } from '../services/download';
+import { formatVotes, voteDistribution } from '../services/ensemble';
+import { getFindingRows } from '../services/findings';
+import { formatAiAgreement, gradingRows } from '../services/grading';
+import { HEATMAP_LEGEND, SEGMENTATION_LEGEND, UNCERTAINTY_LEGEND } from '../services/mapLegends';
+import { describePreprocessing } from '../services/preprocessing';
+import { PROMPT_TASK_LABELS, describeModels, formatProvenance } from '../services/promptRegistry';
+import { chatToFeedback } from '../services/scanChat';
+import { MAX_FEEDBACK_LENGTH } from '../services/serverApi';
 
 interface AnalysisCardProps {
   imageState: AnalyzableImage;
   onRefine: (id: string, feedback: string) => void;
+  onRevert: (id: string, versionId: string) => void;
+  onCancel: (id: string) => void;
+  onRetry: (id: string) => void;
   onDelete: (id: string) => void;
+  onExportPdf: (id: string) => void;
+  onGroundTruthChange: (id: string, groundTruth?: ClinicalDiagnosis) => void;
+  onAnnotationsChange: (id: string, annotations: ScanAnnotation[]) => void;
+  onVisitChange: (id: string, visit?: VisitInfo) => void;
+  onGradingChange: (id: string, grading?: ScanGrading) => void;
+  qualityMode: QualityGateMode;
+  onAnalyzeAnyway: (id: string) => void;
+  /** Runs the first analysis again, bypassing the analysis cache. */
+  onForceRefresh: (id: string) => void;
+  /** Generates a failed map again, keeping the report. */
+  onRetryMap: (id: string, map: AnalysisMapKind) => void;
+  /** Asks a follow-up question about the scan; rejects when it could not be answered. */
+  onAsk: (id: string, question: string) => Promise<void>;
+  onClearChat: (id: string) => void;
+  preprocessingSettings: PreprocessingSettings;
+  /** Present when the card shows one B-scan of a volume. */
+  sliceNavigation?: { index: number; count: number; onChange: (index: number) => void };
 }
 
-const getDiagnosisColor = (diagnosis: AnalysisResult['diagnosis']) => {
+export const getDiagnosisColor = (diagnosis: AnalysisResult['diagnosis']) => {
     switch(diagnosis) {
         case 'CNV': return 'text-red-400 border-red-400 bg-red-900/30';
         case 'AMD': return 'text-purple-400 border-purple-400 bg-purple-900/30';
@@ -22,26 +62,172 @@ const getDiagnosisColor = (diagnosis: AnalysisResult['diagnosis']) => {
     }
 }
 
-const ResultContent: React.FC<{ result: AnalysisResult, onSave: () => void, onRefineToggle: () => void, isRefining: boolean }> = ({ result, onSave, onRefineToggle, isRefining }) => (
+const LATERALITY_LABELS: Record<string, string> = { R: 'OD (right eye)', L: 'OS (left eye)' };
+
+const ScanMetadataSummary: React.FC<{ metadata: ScanMetadata }> = ({ metadata }) => {
+    const items = [
+        metadata.patientName && `Patient: ${metadata.patientName}`,
+        metadata.patientId && `ID: ${metadata.patientId}`,
+        metadata.laterality && `Eye: ${LATERALITY_LABELS[metadata.laterality] ?? metadata.laterality}`,
+        metadata.studyDate && `Study: ${metadata.studyDate}`,
+        metadata.acquisitionDate && `Acquired: ${metadata.acquisitionDate}`,
+        metadata.frameCount && metadata.frameCount > 1 && `Frame ${(metadata.frameIndex ?? 0) + 1}/${metadata.frameCount}`,
+    ].filter(Boolean);
+    return (
+        <p className="text-xs text-slate-500 truncate" title={metadata.studyDescription ?? metadata.sourceFileName}>
+            {items.length > 0 ? items.join(' · ') : `DICOM: ${metadata.sourceFileName}`}
+        </p>
+    );
+};
+
+const FindingsTable: React.FC<{ findings: StructuredFindings }> = ({ findings }) => (
+    <div className="border-b border-slate-700 pb-6 mb-6">
+        <h3 className="text-lg font-semibold text-slate-200 mb-2">Structured Findings</h3>
+        <table className="w-full text-sm">
+            <thead>
+                <tr className="text-left text-slate-500 border-b border-slate-700">
+                    <th className="py-1 pr-4 font-medium">Finding</th>
+                    <th className="py-1 pr-4 font-medium">Result</th>
+                    <th className="py-1 font-medium text-right">Confidence</th>
+                </tr>
+            </thead>
+            <tbody>
+                {getFindingRows(findings).map(row => (
+                    <tr key={row.label} className="border-b border-slate-700/50 last:border-0">
+                        <td className="py-1.5 pr-4 text-slate-300">{row.label}</td>
+                        <td className={`py-1.5 pr-4 font-semibold ${row.positive ? 'text-orange-400' : 'text-slate-400'}`}>{row.value}</td>
+                        <td className="py-1.5 text-right text-cyan-400">{Math.round(row.confidence)}%</td>
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    </div>
+);
+
+const QualityWarning: React.FC<{ quality: ImageQuality; onAnalyzeAnyway?: () => void }> = ({ quality, onAnalyzeAnyway }) => (
+    <div className="mt-4 text-amber-300 bg-amber-900/30 p-4 rounded-lg border border-amber-500 flex justify-between items-start gap-4">
+        <div>
+            <p className="font-bold">Scan May Be Ungradable</p>
+            <ul className="text-sm list-disc list-inside">
+                {quality.reasons.map(reason => <li key={reason}>{reason}</li>)}
+            </ul>
+            <p className="text-xs mt-2 text-amber-200/80">
+                {quality.metrics.width}×{quality.metrics.height} px · contrast {quality.metrics.contrast} · sharpness {quality.metrics.sharpness} · color {quality.metrics.colorfulness}
+            </p>
+        </div>
+        {onAnalyzeAnyway && (
+            <button onClick={onAnalyzeAnyway} className="flex-shrink-0 px-3 py-1 text-sm font-semibold bg-slate-700 hover:bg-slate-600 text-cyan-300 rounded-lg transition-colors duration-200">
+                Analyze anyway
+            </button>
+        )}
+    </div>
+);
+
+const EnsembleVotes: React.FC<{ ensemble: EnsembleSummary }> = ({ ensemble }) => (
+    <div className="mb-6 p-3 bg-slate-900/50 rounded-lg border border-slate-700">
+        <p className="text-sm font-semibold text-slate-200 mb-2">
+            Ensemble vote: <span className="text-cyan-400">{formatConfidence(ensemble.agreement)}</span> agreement
+            <span className="ml-2 text-xs font-normal text-slate-500">
+                {ensemble.votes.length} vote{ensemble.votes.length !== 1 ? 's' : ''}{ensemble.failed > 0 ? `, ${ensemble.failed} run${ensemble.failed !== 1 ? 's' : ''} failed` : ''}
+            </span>
+        </p>
+        <div className="space-y-1">
+            {voteDistribution(ensemble).map(({ diagnosis, count }) => (
+                <div key={diagnosis} className="flex items-center gap-3 text-sm">
+                    <span className="w-40 text-slate-300">{diagnosis}</span>
+                    <div className="flex-1 h-2 bg-slate-700 rounded-full overflow-hidden">
+                        <div className="h-full bg-cyan-500" style={{ width: `${count / ensemble.votes.length * 100}%` }} />
+                    </div>
+                    <span className="w-8 text-right text-slate-400">{count}</span>
+                </div>
+            ))}
+        </div>
+        <ol className="mt-2 text-xs text-slate-500 space-y-0.5">
+            {ensemble.votes.map(vote => (
+                <li key={vote.seed}>Run {vote.seed + 1} · {vote.model}: {vote.diagnosis} ({formatConfidence(vote.confidence)})</li>
+            ))}
+        </ol>
+    </div>
+);
+
+interface MapStatus {
+    map: AnalysisMapKind;
+    state: 'generating' | 'retrying' | 'failed';
+    message?: string;
+}
+
+const MapStatusList: React.FC<{ statuses: MapStatus[], onRetry?: (map: AnalysisMapKind) => void }> = ({ statuses, onRetry }) => (
+    <div className="mt-4 space-y-2">
+        {statuses.map(({ map, state, message }) => (
+            <div
+                key={map}
+                className={`flex justify-between items-center gap-4 p-3 rounded-lg border text-sm ${state === 'failed' ? 'text-red-300 bg-red-900/30 border-red-500' : 'text-slate-300 bg-slate-900/50 border-slate-600'}`}
+            >
+                <div className="flex items-center gap-2 min-w-0">
+                    {state !== 'failed' && <div className="w-4 h-4 flex-shrink-0 border-2 border-cyan-400 border-t-transparent rounded-full animate-spin"></div>}
+                    <div className="min-w-0">
+                        <p className="font-semibold">
+                            {PROMPT_TASK_LABELS[map]} {state === 'failed' ? 'failed' : state === 'retrying' ? 'retrying...' : 'generating...'}
+                        </p>
+                        {state === 'failed' && message && <p className="text-xs text-red-200/80">{message}</p>}
+                    </div>
+                </div>
+                {state === 'failed' && onRetry && (
+                    <button onClick={() => onRetry(map)} className="flex-shrink-0 px-3 py-1 text-sm font-semibold bg-slate-700 hover:bg-slate-600 text-cyan-300 rounded-lg transition-colors duration-200">
+                        Retry
+                    </button>
+                )}
+            </div>
+        ))}
+    </div>
+);
+
+interface ResultActions {
+    onSave: () => void;
+    onExportPdf: () => void;
+    onRefineToggle: () => void;
+    isRefining: boolean;
+    onChatToggle: () => void;
+    isChatting: boolean;
+}
+
+/** `actions` is absent while the report is still streaming in with its maps. */
+const ResultContent: React.FC<{ result: AnalysisResult, actions?: ResultActions }> = ({ result, actions }) => (
     <div className="mt-4">
          <div className="flex flex-col sm:flex-row justify-between sm:items-start gap-4 mb-4">
             <h2 className="text-2xl font-bold text-slate-100">Diagnostic Report</h2>
+            {actions && (
             <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto">
                 <button 
-                    onClick={onRefineToggle}
+                    onClick={actions.onRefineToggle}
                     className="flex items-center justify-center gap-2 px-4 py-2 text-sm font-semibold bg-slate-700 hover:bg-slate-600 text-cyan-300 rounded-lg transition-colors duration-200"
                 >
                     <SparklesIcon className="w-5 h-5"/>
-                    {isRefining ? 'Cancel' : 'Refine Analysis'}
+                    {actions.isRefining ? 'Cancel' : 'Refine Analysis'}
+                </button>
+                <button 
+                    onClick={actions.onChatToggle}
+                    className="flex items-center justify-center gap-2 px-4 py-2 text-sm font-semibold bg-slate-700 hover:bg-slate-600 text-cyan-300 rounded-lg transition-colors duration-200"
+                >
+                    <ChatIcon className="w-5 h-5"/>
+                    {actions.isChatting ? 'Hide Chat' : 'Ask a Question'}
                 </button>
                  <button 
-                    onClick={onSave}
+                    onClick={actions.onSave}
                     className="flex items-center justify-center gap-2 px-4 py-2 text-sm font-semibold bg-slate-700 hover:bg-slate-600 text-cyan-300 rounded-lg transition-colors duration-200"
                 >
                     <DownloadIcon className="w-5 h-5"/>
                     Save Analysis
                 </button>
+                <button 
+                    onClick={actions.onExportPdf}
+                    className="flex items-center justify-center gap-2 px-4 py-2 text-sm font-semibold bg-slate-700 hover:bg-slate-600 text-cyan-300 rounded-lg transition-colors duration-200"
+                >
+                    <DownloadIcon className="w-5 h-5"/>
+                    Export PDF
+                </button>
             </div>
+            )}
         </div>
         
         <div className="border-y border-slate-700 py-6 my-6">
@@ -50,9 +236,15 @@ const ResultContent: React.FC<{ result: AnalysisResult, onSave: () => void, onRe
                     Diagnosis: {result.diagnosis}
                 </div>
                 <div className="text-lg font-semibold text-slate-300">
-                    Confidence: <span className="text-cyan-400">{result.confidence}</span>
+                    Confidence: <span className="text-cyan-400">{formatConfidence(result.confidence)}</span>
                 </div>
             </div>
+            {result.ensemble && <EnsembleVotes ensemble={result.ensemble} />}
+            {result.reviewReason && (
+                <div className="mb-6 text-amber-300 bg-amber-900/30 p-3 rounded-lg border border-amber-500 text-sm">
+                    <span className="font-bold">Flagged for review:</span> {result.reviewReason}
+                </div>
+            )}
             <div>
               <h3 className="text-lg font-semibold text-slate-200 mb-2 flex items-center gap-2">
                   <InfoIcon className="w-5 h-5 text-cyan-400 flex-shrink-0"/>
@@ -61,6 +253,8 @@ const ResultContent: React.FC<{ result: AnalysisResult, onSave: () => void, onRe
               <p className="text-slate-400 text-sm leading-relaxed">{result.uncertaintyStatement}</p>
             </div>
         </div>
+
+        {result.findings && <FindingsTable findings={result.findings} />}
         
         {result.anomalyReport && (
             <div className="border-b border-slate-700 pb-6 mb-6">
@@ -83,33 +277,94 @@ const ResultContent: React.FC<{ result: AnalysisResult, onSave: () => void, onRe
                 <p className="text-slate-300 leading-relaxed prose prose-invert prose-p:text-slate-300">{result.segmentationUncertaintyStatement}</p>
             </div>
         </div>
+        {result.provenance && (
+            <p className="mt-6 text-xs text-slate-500">
+                <span className="font-semibold text-slate-400">Prompts {result.provenance.promptVersion}</span> ({result.provenance.provider}) · {describeModels(result.provenance)}
+            </p>
+        )}
     </div>
 );
 
-export const AnalysisResults: React.FC<AnalysisCardProps> = ({ imageState, onRefine, onDelete }) => {
+export const AnalysisResults: React.FC<AnalysisCardProps> = ({ imageState, onRefine, onRevert, onCancel, onRetry, onDelete, onExportPdf, onGroundTruthChange, onAnnotationsChange, onVisitChange, onGradingChange, qualityMode, onAnalyzeAnyway, onForceRefresh, onRetryMap, onAsk, onClearChat, preprocessingSettings, sliceNavigation }) => {
   const [isRefining, setIsRefining] = useState(false);
+  const [isChatting, setIsChatting] = useState(!!imageState.chat?.length);
   const [refinementText, setRefinementText] = useState('');
+  const [annotationTool, setAnnotationTool] = useState<AnnotationTool>('pan');
+  const [annotationLabel, setAnnotationLabel] = useState<AnnotationLabel>('fluid');
+  const [viewedVersionId, setViewedVersionId] = useState<string | null>(null);
+
+  const versions = imageState.versions ?? [];
+  const viewedVersion = versions.find(v => v.id === (viewedVersionId ?? imageState.activeVersionId));
+  const isViewingPastVersion = !!viewedVersion && viewedVersion.id !== imageState.activeVersionId;
+  const analyzed = isAnalyzed(imageState.status);
+
+  // A running analysis shows its report as soon as it lands, and each map as it finishes.
+  const progress = imageState.status === 'loading' ? imageState.progress : undefined;
+  const isStreaming = !!progress?.result;
+  const mapUrl = (map: AnalysisMapKind) => progress?.maps.includes(map) ? progress[MAP_URL_FIELDS[map]] : imageState[MAP_URL_FIELDS[map]];
+  const displayedResult = progress?.result ?? viewedVersion?.result ?? imageState.result;
+  const displayedHeatmapUrl = progress ? mapUrl('heatmap') : viewedVersion ? viewedVersion.heatmapImageUrl : imageState.heatmapImageUrl;
+  const mapStatuses: MapStatus[] = progress
+    ? progress.maps.flatMap((map): MapStatus[] => mapUrl(map) ? [] : [{ map, state: progress.mapErrors?.[map] ? 'failed' : 'generating', message: progress.mapErrors?.[map] }])
+    : analyzed && !isViewingPastVersion
+      ? ANALYSIS_MAPS.flatMap((map): MapStatus[] => imageState.mapErrors?.[map]
+        ? [{ map, state: imageState.retryingMaps?.includes(map) ? 'retrying' : 'failed', message: imageState.mapErrors[map] }]
+        : [])
+      : [];
+
+  const handleRevert = (versionId: string) => {
+    onRevert(imageState.id, versionId);
+    setViewedVersionId(null);
+  };
+
+  const annotations = imageState.annotations ?? [];
+
+  const handleDrawAnnotation = (shape: AnnotationShape) => {
+    const annotation: ScanAnnotation = { id: crypto.randomUUID(), label: annotationLabel, shape, createdAt: new Date().toISOString() };
+    onAnnotationsChange(imageState.id, [...annotations, annotation]);
+  };
+
+  // Annotated regions alone are enough to refine on; the text is optional once any exist.
+  const canSubmitRefinement = !!refinementText.trim() || annotations.length > 0;
 
   const handleRefineSubmit = () => {
-    if (refinementText.trim()) {
-      onRefine(imageState.id, refinementText);
+    if (canSubmitRefinement) {
+      onRefine(imageState.id, refinementText.trim());
       setIsRefining(false);
       setRefinementText('');
     }
   };
 
+  const chat = imageState.chat ?? [];
+
+  const handleApplyChat = () => onRefine(imageState.id, chatToFeedback(chat));
+
   const handleSaveAnalysis = () => {
     if (!imageState.result) return;
     const { result } = imageState;
+    const historyLines = versions.map((version, index) =>
+      `- **v${index + 1}** (${new Date(version.createdAt).toLocaleString()}${version.id === imageState.activeVersionId ? ', current' : ''}): ${version.result.diagnosis}, ${formatConfidence(version.result.confidence)}${version.feedback ? ` — feedback: "${version.feedback}"` : ''}`
+    ).join('\n');
+    const annotationLines = annotations.map((annotation, index) =>
+      `${index + 1}. **${ANNOTATION_LABELS[annotation.label].name}** — ${describeRegion(annotation.shape)}`
+    ).join('\n');
+    const gradingLines = imageState.grading ? gradingRows(imageState.grading).map(([label, value]) => `- **${label}:** ${value}`) : [];
+    const aiAgreement = formatAiAgreement(result, imageState.grading);
+    if (aiAgreement) gradingLines.push(`- **Agreement:** ${aiAgreement}`);
+    const chatLines = chat.map(message => `**${message.role === 'user' ? 'Clinician' : 'AI'}:** ${message.text}`).join('\n\n');
+    const findingLines = result.findings
+      ? getFindingRows(result.findings).map(row => `| ${row.label} | ${row.value} | ${Math.round(row.confidence)}% |`).join('\n')
+      : '';
     const reportContent = `
 # Retinal OCT Analysis Report
 **File:** ${imageState.file.name}
 **Date:** ${new Date().toLocaleDateString()}
----
+${result.provenance ? `**Prompts & Models:** ${formatProvenance(result.provenance)}\n` : ''}${result.preprocessing ? `**Preprocessing:** ${describePreprocessing(result.preprocessing)}\n` : ''}---
 ## Diagnosis
 - **Condition:** ${result.diagnosis}
-- **Confidence:** ${result.confidence}
-- **Uncertainty Assessment:** ${result.uncertaintyStatement}
+- **Confidence:** ${formatConfidence(result.confidence)}
+${result.ensemble ? `- **Ensemble Vote:** ${formatConfidence(result.ensemble.agreement)} agreement (${formatVotes(result.ensemble)})\n` : ''}${result.reviewReason ? `- **Flagged for Review:** ${result.reviewReason}\n` : ''}- **Uncertainty Assessment:** ${result.uncertaintyStatement}
+${result.findings ? `\n---\n\n## Structured Findings\n| Finding | Result | Confidence |\n| --- | --- | --- |\n${findingLines}\n` : ''}
 ---
 ## Clinical Explanation
 ${result.explanation}
@@ -120,77 +375,261 @@ ${result.explainability}
 ## Segmentation Uncertainty Analysis
 ${result.segmentationUncertaintyStatement}
 ${result.anomalyReport ? `\n---\n\n## Ancillary Findings\n${result.anomalyReport}` : ''}
+${gradingLines.length > 0 ? `\n---\n\n## Human Grading\n${gradingLines.join('\n')}` : ''}
+${annotationLines ? `\n---\n\n## Clinician Annotations\n${annotationLines}` : ''}
+${versions.length > 1 ? `\n---\n\n## Analysis History\n${historyLines}` : ''}
+${chatLines ? `\n---\n\n## Follow-up Discussion\n${chatLines}` : ''}
 ---
 *Disclaimer: This report is generated by an AI model and is for informational purposes only. It is not a substitute for professional medical advice.*`;
 
-    const blob = new Blob([reportContent.trim()], { type: 'text/markdown;charset=utf-t' });
-    const link = document.createElement('a');
-    link.href = URL.createObjectURL(blob);
-    link.download = `report-${imageState.file.name.split('.')[0]}.md`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(link.href);
+    const blob = new Blob([reportContent.trim()], { type: 'text/markdown;charset=utf-8' });
+    const fileName = `report-${baseFileName(imageState.file.name)}.md`;
+    downloadBlob(blob, fileName);
+    recordUserAction('export', `Exported ${fileName}`, toAuditedImages([imageState]));
   };
   
   return (
     <div className="bg-slate-800 rounded-2xl p-6 shadow-lg border border-slate-700">
         <div className="flex justify-between items-center mb-4">
-            <h3 className="text-lg font-semibold text-slate-300 truncate pr-4" title={imageState.file.name}>
-                {imageState.file.name}
-            </h3>
-            <button onClick={() => onDelete(imageState.id)} className="text-slate-500 hover:text-red-400 transition-colors">
-                <TrashIcon className="w-5 h-5" />
-            </button>
+            <div className="min-w-0 pr-4">
+                <h3 className="text-lg font-semibold text-slate-300 truncate" title={imageState.file.name}>
+                    {imageState.file.name}
+                </h3>
+                {imageState.metadata && <ScanMetadataSummary metadata={imageState.metadata} />}
+            </div>
+            <div className="flex items-center gap-3 flex-shrink-0">
+                <label className="flex items-center gap-2 text-xs text-slate-500" title="Reference diagnosis used for model evaluation">
+                    Ground truth
+                    <select
+                        value={imageState.groundTruth ?? ''}
+                        onChange={(e) => onGroundTruthChange(imageState.id, (e.target.value || undefined) as ClinicalDiagnosis | undefined)}
+                        className={`p-1 bg-slate-900 border border-slate-600 rounded-md focus:ring-2 focus:ring-cyan-500 focus:outline-none ${
+                            imageState.groundTruth && imageState.result
+                                ? imageState.groundTruth === imageState.result.diagnosis ? 'text-green-400' : 'text-red-400'
+                                : 'text-slate-200'
+                        }`}
+                    >
+                        <option value="">Unlabeled</option>
+                        {CLINICAL_DIAGNOSES.map(diagnosis => <option key={diagnosis} value={diagnosis}>{diagnosis}</option>)}
+                    </select>
+                </label>
+                <button onClick={() => onDelete(imageState.id)} className="text-slate-500 hover:text-red-400 transition-colors">
+                    <TrashIcon className="w-5 h-5" />
+                </button>
+            </div>
         </div>
 
+        <VisitFields visit={imageState.visit} onChange={(visit) => onVisitChange(imageState.id, visit)} />
+        <GradingPanel grading={imageState.grading} result={imageState.result} onChange={(grading) => onGradingChange(imageState.id, grading)} />
+
+        {sliceNavigation && sliceNavigation.count > 1 && (
+            <div className="flex items-center gap-3 mb-4 text-sm text-slate-400">
+                <button
+                    onClick={() => sliceNavigation.onChange(Math.max(0, sliceNavigation.index - 1))}
+                    disabled={sliceNavigation.index === 0}
+                    className="px-2 py-1 bg-slate-700 hover:bg-slate-600 disabled:opacity-40 rounded-md text-slate-200"
+                    aria-label="Previous slice"
+                >
+                    ‹
+                </button>
+                <input
+                    type="range"
+                    min={0}
+                    max={sliceNavigation.count - 1}
+                    value={sliceNavigation.index}
+                    onChange={(e) => sliceNavigation.onChange(parseInt(e.target.value, 10))}
+                    className="flex-1 accent-cyan-500"
+                    aria-label="B-scan slice"
+                />
+                <button
+                    onClick={() => sliceNavigation.onChange(Math.min(sliceNavigation.count - 1, sliceNavigation.index + 1))}
+                    disabled={sliceNavigation.index === sliceNavigation.count - 1}
+                    className="px-2 py-1 bg-slate-700 hover:bg-slate-600 disabled:opacity-40 rounded-md text-slate-200"
+                    aria-label="Next slice"
+                >
+                    ›
+                </button>
+                <span className="w-24 text-right">Slice {sliceNavigation.index + 1} / {sliceNavigation.count}</span>
+            </div>
+        )}
+
         <div className="relative">
-            {imageState.status === 'loading' && (
+            {(imageState.status === 'queued' || (imageState.status === 'loading' && !isStreaming)) && (
                 <div className="absolute inset-0 bg-slate-900/80 backdrop-blur-sm flex items-center justify-center z-10 rounded-2xl">
                     <div className="text-center">
-                        <div className="w-8 h-8 border-4 border-cyan-400 border-t-transparent rounded-full animate-spin mx-auto mb-2"></div>
-                        <p className="text-slate-300 font-semibold">Analyzing...</p>
+                        {imageState.status === 'loading' && (
+                            <div className="w-8 h-8 border-4 border-cyan-400 border-t-transparent rounded-full animate-spin mx-auto mb-2"></div>
+                        )}
+                        <p className="text-slate-300 font-semibold">
+                            {imageState.status === 'queued' ? 'Queued' : imageState.retryAttempt ? `Retrying (attempt ${imageState.retryAttempt})...` : 'Analyzing...'}
+                        </p>
+                        <button onClick={() => onCancel(imageState.id)} className="mt-3 px-3 py-1 text-sm font-semibold bg-slate-700 hover:bg-slate-600 text-red-300 rounded-lg transition-colors duration-200">
+                            Cancel
+                        </button>
                     </div>
                 </div>
             )}
-             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                <img src={imageState.previewUrl} alt="Original OCT Scan" className="rounded-lg w-full object-contain" />
-                {imageState.status === 'success' && imageState.segmentedImageUrl && (
-                    <img src={imageState.segmentedImageUrl} alt="Segmented OCT Scan" className="rounded-lg w-full object-contain" />
-                )}
-                {imageState.status === 'success' && imageState.heatmapImageUrl && (
-                    <img src={imageState.heatmapImageUrl} alt="Attention Heatmap" className="rounded-lg w-full object-contain" />
-                )}
-            </div>
+            {isStreaming && (
+                <div className="mb-4 flex justify-between items-center gap-4 p-3 rounded-lg border border-slate-600 bg-slate-900/50 text-sm text-slate-300">
+                    <div className="flex items-center gap-2">
+                        <div className="w-4 h-4 border-2 border-cyan-400 border-t-transparent rounded-full animate-spin"></div>
+                        <span className="font-semibold">Report ready. Generating maps...</span>
+                    </div>
+                    <button onClick={() => onCancel(imageState.id)} className="px-3 py-1 text-sm font-semibold bg-slate-700 hover:bg-slate-600 text-red-300 rounded-lg transition-colors duration-200">
+                        Cancel
+                    </button>
+                </div>
+            )}
+            {analyzed || isStreaming ? (
+                // Maps and annotations line up with the scan the model saw. Drawing waits until the analysis has finished.
+                <ScanViewer
+                    baseUrl={imageState.processedImageUrl ?? imageState.previewUrl}
+                    layers={[
+                        { id: 'segmentation', label: 'Segmentation', url: mapUrl('segmentation'), legend: SEGMENTATION_LEGEND },
+                        { id: 'heatmap', label: 'Attention heatmap', url: displayedHeatmapUrl, legend: HEATMAP_LEGEND, defaultVisible: false },
+                        { id: 'uncertainty', label: 'Segmentation uncertainty', url: mapUrl('uncertainty'), legend: UNCERTAINTY_LEGEND, defaultVisible: false },
+                    ]}
+                    annotations={annotations}
+                    tool={analyzed ? annotationTool : 'pan'}
+                    drawLabel={annotationLabel}
+                    onDraw={analyzed ? handleDrawAnnotation : undefined}
+                />
+            ) : (
+                <img src={imageState.previewUrl} alt="Original OCT Scan" className="rounded-lg w-full max-w-md object-contain" />
+            )}
         </div>
 
+        {qualityMode !== 'off' && imageState.quality && !imageState.quality.gradable && (
+            <QualityWarning
+                quality={imageState.quality}
+                onAnalyzeAnyway={imageState.status === 'pending' && !imageState.qualityOverride ? () => onAnalyzeAnyway(imageState.id) : undefined}
+            />
+        )}
+        {mapStatuses.length > 0 && <MapStatusList statuses={mapStatuses} onRetry={analyzed ? (map) => onRetryMap(imageState.id, map) : undefined} />}
+        <PreprocessingPreview image={imageState} settings={preprocessingSettings} />
         {imageState.status === 'pending' && <p className="text-center text-slate-400 mt-4">Ready for analysis.</p>}
-        {imageState.status === 'error' && (
+        {imageState.status === 'error' && imageState.errorKind === 'validation' && (
+            <div className="mt-4 text-amber-300 bg-amber-900/30 p-4 rounded-lg border border-amber-500 flex justify-between items-start gap-4">
+                <div>
+                    <p className="font-bold">Invalid Model Output</p>
+                    <p className="text-sm">The AI returned a report that failed validation, even after being asked to correct it. No result was saved.</p>
+                    <p className="text-xs mt-2 text-amber-200/80">{imageState.error}</p>
+                </div>
+                <button onClick={() => onRetry(imageState.id)} className="flex-shrink-0 px-3 py-1 text-sm font-semibold bg-slate-700 hover:bg-slate-600 text-cyan-300 rounded-lg transition-colors duration-200">
+                    Retry
+                </button>
+            </div>
+        )}
+
+        {imageState.status === 'error' && imageState.errorKind === 'bad-request' && (
             <div className="mt-4 text-red-300 bg-red-900/30 p-4 rounded-lg border border-red-500">
-                <p className="font-bold">Analysis Failed</p>
-                <p className="text-sm">{imageState.error}</p>
+                <p className="font-bold">Request Refused</p>
+                <p className="text-sm">The analysis server refused the request, so sending it again will fail the same way. Use a smaller image.</p>
+                <p className="text-xs mt-2 text-red-200/80">{imageState.error}</p>
             </div>
         )}
 
-        {imageState.status === 'success' && imageState.result && (
+        {imageState.status === 'error' && imageState.errorKind !== 'validation' && imageState.errorKind !== 'bad-request' && (
+            <div className="mt-4 text-red-300 bg-red-900/30 p-4 rounded-lg border border-red-500 flex justify-between items-start gap-4">
+                <div>
+                    <p className="font-bold">Analysis Failed</p>
+                    <p className="text-sm">{imageState.error}</p>
+                </div>
+                <button onClick={() => onRetry(imageState.id)} className="flex-shrink-0 px-3 py-1 text-sm font-semibold bg-slate-700 hover:bg-slate-600 text-cyan-300 rounded-lg transition-colors duration-200">
+                    Retry
+                </button>
+            </div>
+        )}
+
+        {analyzed && imageState.error && (imageState.errorKind === 'bad-request' ? (
+            <div className="mt-4 text-red-300 bg-red-900/30 p-4 rounded-lg border border-red-500">
+                <p className="font-bold">Request Refused</p>
+                <p className="text-sm">The analysis server refused the request, so sending it again will fail the same way. Shorten the feedback or use a smaller image. The previous report is kept.</p>
+                <p className="text-xs mt-2 text-red-200/80">{imageState.error}</p>
+            </div>
+        ) : (
+            <div className="mt-4 text-red-300 bg-red-900/30 p-4 rounded-lg border border-red-500">
+                <p className="font-bold">Update Failed</p>
+                <p className="text-sm">The last run did not finish, so the previous report is kept. {imageState.error}</p>
+            </div>
+        ))}
+
+        {isStreaming && <ResultContent result={displayedResult!} />}
+
+        {analyzed && imageState.result && (
             <>
+                <div className="mt-4">
+                    <AnnotationToolbar
+                        annotations={annotations}
+                        tool={annotationTool}
+                        label={annotationLabel}
+                        onToolChange={setAnnotationTool}
+                        onLabelChange={setAnnotationLabel}
+                        onDelete={(annotationId) => onAnnotationsChange(imageState.id, annotations.filter(annotation => annotation.id !== annotationId))}
+                        onClear={() => onAnnotationsChange(imageState.id, [])}
+                    />
+                </div>
                 {isRefining && (
                     <div className="my-6 p-4 bg-slate-900/50 rounded-lg border border-slate-700">
                         <h3 className="font-semibold text-slate-200 mb-2">Provide Feedback</h3>
+                        <p className="text-sm text-slate-400 mb-2">
+                            {annotations.length > 0
+                                ? `${annotations.length} annotated region${annotations.length !== 1 ? 's' : ''} will be sent for re-evaluation. Notes are optional.`
+                                : 'Describe what to reconsider, or draw regions on the scan with the annotation tools.'}
+                        </p>
                         <textarea
                             value={refinementText}
                             onChange={(e) => setRefinementText(e.target.value)}
+                            maxLength={MAX_FEEDBACK_LENGTH}
                             className="w-full h-24 p-2 bg-slate-800 border border-slate-600 rounded-md focus:ring-2 focus:ring-cyan-500 focus:outline-none text-slate-200"
                             placeholder="e.g., 'Focus on the subretinal fluid.'"
                         />
                         <div className="flex justify-end mt-3">
-                            <button onClick={handleRefineSubmit} disabled={!refinementText.trim()} className="px-4 py-2 font-bold text-white bg-cyan-600 hover:bg-cyan-500 rounded-lg disabled:bg-slate-600 disabled:cursor-not-allowed">
+                            <button onClick={handleRefineSubmit} disabled={!canSubmitRefinement} className="px-4 py-2 font-bold text-white bg-cyan-600 hover:bg-cyan-500 rounded-lg disabled:bg-slate-600 disabled:cursor-not-allowed">
                                 Submit Refinement
                             </button>
                         </div>
                     </div>
                 )}
-                <ResultContent result={imageState.result} onSave={handleSaveAnalysis} onRefineToggle={() => setIsRefining(!isRefining)} isRefining={isRefining} />
+                {isChatting && (
+                    <ScanChat
+                        messages={chat}
+                        pending={!!imageState.chatPending}
+                        onAsk={(question) => onAsk(imageState.id, question)}
+                        onApply={handleApplyChat}
+                        onClear={() => onClearChat(imageState.id)}
+                    />
+                )}
+                {versions.length > 1 && (
+                    <VersionHistory
+                        versions={versions}
+                        activeVersionId={imageState.activeVersionId}
+                        viewedVersionId={viewedVersion?.id}
+                        onView={(versionId) => setViewedVersionId(versionId === imageState.activeVersionId ? null : versionId)}
+                        onRevert={handleRevert}
+                    />
+                )}
+                {isViewingPastVersion && (
+                    <div className="mt-4 flex items-center justify-between gap-4 text-sm text-amber-300 bg-amber-900/30 p-3 rounded-lg border border-amber-600">
+                        <span>You are viewing v{versions.indexOf(viewedVersion!) + 1}, not the current report.</span>
+                        <button onClick={() => setViewedVersionId(null)} className="font-semibold hover:text-amber-200">Back to current</button>
+                    </div>
+                )}
+                {viewedVersion?.cachedAt && (
+                    <div className="mt-4 flex items-center justify-between gap-4 text-sm text-slate-300 bg-slate-900/50 p-3 rounded-lg border border-slate-600">
+                        <span>
+                            <span className="px-2 py-0.5 mr-2 text-xs font-bold rounded-full border border-cyan-500 text-cyan-300">Cached</span>
+                            Reused the analysis of an identical scan from {new Date(viewedVersion.cachedAt).toLocaleString()}; no model calls were made.
+                        </span>
+                        <button onClick={() => onForceRefresh(imageState.id)} className="flex-shrink-0 font-semibold text-cyan-300 hover:text-cyan-200">
+                            Run again
+                        </button>
+                    </div>
+                )}
+                <ResultContent
+                    result={displayedResult!}
+                    actions={{ onSave: handleSaveAnalysis, onExportPdf: () => onExportPdf(imageState.id), onRefineToggle: () => setIsRefining(!isRefining), isRefining, onChatToggle: () => setIsChatting(!isChatting), isChatting }}
+                />
             </>
         )}
     </div>
@@ -0,0 +1,72 @@
+import React from 'react';
+import type { AnnotationLabel, ScanAnnotation } from '../types';
+import { ANNOTATION_LABELS, ANNOTATION_LABEL_ORDER, describeRegion } from '../services/annotations';
+import { toCssColor } from '../services/mapLegends';
+import type { AnnotationTool } from './ScanViewer';
+import { TrashIcon } from './icons';
+
+interface AnnotationToolbarProps {
+  annotations: ScanAnnotation[];
+  tool: AnnotationTool;
+  label: AnnotationLabel;
+  onToolChange: (tool: AnnotationTool) => void;
+  onLabelChange: (label: AnnotationLabel) => void;
+  onDelete: (annotationId: string) => void;
+  onClear: () => void;
+}
+
+const TOOLS: { tool: AnnotationTool; name: string; hint: string }[] = [
+  { tool: 'pan', name: 'Pan', hint: 'Drag to pan, scroll to zoom.' },
+  { tool: 'box', name: 'Box', hint: 'Drag to draw a box around the region.' },
+  { tool: 'polygon', name: 'Polygon', hint: 'Click to add vertices; double-click or press Enter to close, Escape to discard.' },
+  { tool: 'point', name: 'Point', hint: 'Click to mark a point.' },
+];
+
+export const AnnotationToolbar: React.FC<AnnotationToolbarProps> = ({ annotations, tool, label, onToolChange, onLabelChange, onDelete, onClear }) => (
+  <div className="p-3 bg-slate-900/50 rounded-lg border border-slate-700 space-y-3 text-sm">
+    <div className="flex flex-wrap items-center gap-3">
+      <span className="font-semibold text-slate-300">Annotate</span>
+      <div className="flex rounded-md overflow-hidden border border-slate-600">
+        {TOOLS.map(({ tool: value, name }) => (
+          <button
+            key={value}
+            onClick={() => onToolChange(value)}
+            className={`px-3 py-1 font-semibold transition-colors duration-200 ${tool === value ? 'bg-cyan-600 text-white' : 'bg-slate-800 text-slate-300 hover:bg-slate-700'}`}
+          >
+            {name}
+          </button>
+        ))}
+      </div>
+      <label className="flex items-center gap-2 text-slate-400">
+        Finding
+        <select
+          value={label}
+          onChange={(e) => onLabelChange(e.target.value as AnnotationLabel)}
+          className="p-1 bg-slate-900 border border-slate-600 rounded-md focus:ring-2 focus:ring-cyan-500 focus:outline-none text-slate-200"
+        >
+          {ANNOTATION_LABEL_ORDER.map(value => <option key={value} value={value}>{ANNOTATION_LABELS[value].name}</option>)}
+        </select>
+      </label>
+      <span className="text-xs text-slate-500">{TOOLS.find(entry => entry.tool === tool)?.hint}</span>
+    </div>
+
+    {annotations.length > 0 && (
+      <div>
+        <ol className="space-y-1">
+          {annotations.map((annotation, index) => (
+            <li key={annotation.id} className="flex items-center gap-2 text-slate-300">
+              <span className="w-5 text-right text-slate-500">{index + 1}.</span>
+              <span className="inline-block w-3 h-3 rounded-sm" style={{ backgroundColor: toCssColor(ANNOTATION_LABELS[annotation.label].color) }} />
+              <span className="font-medium">{ANNOTATION_LABELS[annotation.label].name}</span>
+              <span className="text-xs text-slate-500">{describeRegion(annotation.shape)}</span>
+              <button onClick={() => onDelete(annotation.id)} className="ml-auto p-1 text-slate-500 hover:text-red-400" title="Delete annotation">
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ol>
+        <button onClick={onClear} className="mt-2 text-xs font-semibold text-slate-400 hover:text-red-300">Clear all</button>
+      </div>
+    )}
+  </div>
+);
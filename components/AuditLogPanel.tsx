@@ -0,0 +1,121 @@
+import React, { useEffect, useState } from 'react';
+import type { AuditEntry } from '../types';
+import { AUDIT_ACTION_LABELS, buildAuditJsonl, countAuditEntries, describeAuditEntry, listAuditEntries, recordUserAction } from '../services/auditLog';
+import { downloadBlob } from '../services/download';
+
+/** Entries shown in the viewer; the JSONL export always has the whole log. */
+const VISIBLE_ENTRIES = 100;
+
+type AuditFilter = AuditEntry['type'] | 'all';
+
+const FILTERS: { value: AuditFilter; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'model-call', label: 'Model calls' },
+  { value: 'user-action', label: 'User actions' },
+];
+
+interface AuditLogPanelProps {
+  /** Changes after each entry is written, so the entries are re-read while the viewer is open. */
+  refreshKey: number;
+}
+
+const entryLabel = (entry: AuditEntry) => entry.type === 'user-action' ? AUDIT_ACTION_LABELS[entry.action] : 'Model call';
+
+const entryColor = (entry: AuditEntry) => {
+  if (entry.type === 'user-action') return 'text-cyan-300';
+  return entry.outcome === 'success' ? 'text-green-400' : entry.outcome === 'cancelled' ? 'text-slate-400' : 'text-red-400';
+};
+
+export const AuditLogPanel: React.FC<AuditLogPanelProps> = ({ refreshKey }) => {
+  const [count, setCount] = useState<number | null>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [filter, setFilter] = useState<AuditFilter>('all');
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+
+  const refresh = () => {
+    countAuditEntries().then(setCount).catch(err => console.error('Failed to read the audit log:', err));
+    if (isOpen) {
+      listAuditEntries(VISIBLE_ENTRIES, filter === 'all' ? undefined : filter)
+        .then(setEntries)
+        .catch(err => console.error('Failed to read the audit log:', err));
+    }
+  };
+
+  useEffect(refresh, [refreshKey, isOpen, filter]);
+
+  const handleExport = async () => {
+    const fileName = `audit-log-${new Date().toISOString().slice(0, 10)}.jsonl`;
+    try {
+      downloadBlob(await buildAuditJsonl(), fileName);
+      await recordUserAction('export', `Exported the audit log as ${fileName}`);
+    } catch (err) {
+      console.error('Failed to export the audit log:', err);
+    }
+  };
+
+  return (
+    <div className="mt-6 border-t border-slate-700 pt-4">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-lg font-semibold text-cyan-400">Audit Log</h3>
+        <div className="flex gap-2">
+          <button
+            onClick={() => setIsOpen(!isOpen)}
+            className="px-3 py-1 text-sm font-semibold bg-slate-700 hover:bg-slate-600 text-cyan-300 rounded-lg transition-colors duration-200"
+          >
+            {isOpen ? 'Hide' : 'View'}
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={!count}
+            className="px-3 py-1 text-sm font-semibold bg-slate-700 hover:bg-slate-600 text-cyan-300 rounded-lg disabled:text-slate-500 disabled:cursor-not-allowed transition-colors duration-200"
+          >
+            Export JSONL
+          </button>
+        </div>
+      </div>
+      <p className="mt-1 text-xs text-slate-500">
+        {count === null ? 'Unavailable' : `${count} entr${count !== 1 ? 'ies' : 'y'}`} · Every model call and every upload, deletion, refinement and export is recorded on this device. Entries cannot be edited or removed.
+      </p>
+      {isOpen && (
+        <div className="mt-3">
+          <div className="flex gap-1 mb-2">
+            {FILTERS.map(({ value, label }) => (
+              <button
+                key={value}
+                onClick={() => setFilter(value)}
+                className={`px-2 py-1 text-xs font-semibold rounded-md border ${
+                  filter === value ? 'bg-cyan-900/40 border-cyan-500 text-cyan-200' : 'bg-slate-700 border-slate-600 text-slate-300 hover:bg-slate-600'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          {entries.length === 0 ? (
+            <p className="text-sm text-slate-500">No entries yet.</p>
+          ) : (
+            <ol className="space-y-2 max-h-96 overflow-y-auto pr-1 text-xs">
+              {entries.map(entry => (
+                <li key={entry.seq} className="p-2 bg-slate-900/50 rounded-md border border-slate-700">
+                  <div className="flex justify-between gap-2">
+                    <span className={`font-semibold ${entryColor(entry)}`}>{entryLabel(entry)}</span>
+                    <span className="text-slate-500">{new Date(entry.at).toLocaleString()}</span>
+                  </div>
+                  <p className="mt-1 text-slate-300 break-words">{describeAuditEntry(entry)}</p>
+                  {entry.images && entry.images.length > 0 && (
+                    <p className="mt-1 text-slate-500 truncate" title={entry.images.map(image => `${image.fileName} ${image.hash}`).join('\n')}>
+                      {entry.images.map(image => `${image.fileName} (${image.hash.slice(0, 12)}…)`).join(', ')}
+                    </p>
+                  )}
+                </li>
+              ))}
+            </ol>
+          )}
+          {entries.length >= VISIBLE_ENTRIES && (
+            <p className="mt-2 text-xs text-slate-500">Showing the latest {VISIBLE_ENTRIES}; export the log for all entries.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
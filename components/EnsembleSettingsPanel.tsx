@@ -0,0 +1,61 @@
+import React, { useState } from 'react';
+import type { EnsembleSettings } from '../types';
+import { MAX_ENSEMBLE_SIZE, isEnsembleEnabled } from '../services/ensemble';
+import { TASK_MODELS } from '../services/promptRegistry';
+
+interface EnsembleSettingsPanelProps {
+  settings: EnsembleSettings;
+  onChange: (settings: EnsembleSettings) => void;
+}
+
+export const EnsembleSettingsPanel: React.FC<EnsembleSettingsPanelProps> = ({ settings, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const toggleModel = (model: string) => onChange({
+    ...settings,
+    models: settings.models.includes(model) ? settings.models.filter(entry => entry !== model) : [...settings.models, model],
+  });
+
+  return (
+    <div className="mt-6 border-t border-slate-700 pt-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-cyan-400">Ensemble</h3>
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="px-3 py-1 text-sm font-semibold bg-slate-700 hover:bg-slate-600 text-cyan-300 rounded-lg transition-colors duration-200"
+        >
+          {isOpen ? 'Hide' : 'Edit'}
+        </button>
+      </div>
+      <p className="mt-1 text-xs text-slate-500">
+        {isEnsembleEnabled(settings) ? `${settings.size} classification runs per scan` : 'Off: one classification run per scan'}
+      </p>
+      {isOpen && (
+        <div className="mt-3 space-y-3 text-sm text-slate-400">
+          <p className="text-xs text-slate-500">Each scan is classified several times with different sampling seeds, and the diagnosis is decided by vote. Low agreement flags the result for review (see Review Triage). Every run is a separate model call.</p>
+          <label className="flex items-center justify-between gap-2">
+            <span>Runs per scan</span>
+            <input
+              type="number"
+              min={1}
+              max={MAX_ENSEMBLE_SIZE}
+              value={settings.size}
+              onChange={(e) => onChange({ ...settings, size: Math.min(MAX_ENSEMBLE_SIZE, Math.max(1, parseInt(e.target.value, 10) || 1)) })}
+              className="w-16 p-1 bg-slate-900 border border-slate-600 rounded-md text-slate-200 text-center focus:ring-2 focus:ring-cyan-500 focus:outline-none"
+            />
+          </label>
+          <div className="space-y-1">
+            <p>Models</p>
+            {TASK_MODELS.classification.map(model => (
+              <label key={model} className="flex items-center gap-2">
+                <input type="checkbox" checked={settings.models.includes(model)} onChange={() => toggleModel(model)} />
+                {model}
+              </label>
+            ))}
+            <p className="text-xs text-slate-500">Runs take the ticked models in turn. With none ticked, every run uses the active preset's classification model.</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,178 @@
+import React, { useMemo, useState } from 'react';
+import type { AnalysisResult, AnalyzableImage } from '../types';
+import { CLINICAL_DIAGNOSES } from '../services/analysisResult';
+import { evaluateResults } from '../services/evaluation';
+
+interface EvaluationDashboardProps {
+  images: AnalyzableImage[];
+}
+
+const PREDICTED_COLUMNS: AnalysisResult['diagnosis'][] = [...CLINICAL_DIAGNOSES, 'Requires Further Review'];
+
+const percent = (value?: number) => value === undefined ? '—' : `${(value * 100).toFixed(1)}%`;
+
+const Stat: React.FC<{ label: string; value: string; detail?: string }> = ({ label, value, detail }) => (
+  <div className="bg-slate-900/50 rounded-lg p-3 border border-slate-700">
+    <p className="text-xs text-slate-500 uppercase tracking-wide">{label}</p>
+    <p className="text-2xl font-bold text-cyan-400">{value}</p>
+    {detail && <p className="text-xs text-slate-500">{detail}</p>}
+  </div>
+);
+
+export const EvaluationDashboard: React.FC<EvaluationDashboardProps> = ({ images }) => {
+  const [isOpen, setIsOpen] = useState(true);
+  const summary = useMemo(() => evaluateResults(images), [images]);
+  const maxCell = Math.max(1, ...CLINICAL_DIAGNOSES.flatMap(truth => PREDICTED_COLUMNS.map(predicted => summary.confusion[truth][predicted])));
+
+  return (
+    <div className="bg-slate-800 rounded-2xl p-6 shadow-lg border border-slate-700">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-100">Model Evaluation</h2>
+          <p className="text-sm text-slate-400">
+            {summary.evaluated} of {summary.labeled} labeled image{summary.labeled !== 1 ? 's' : ''} analyzed
+          </p>
+        </div>
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="px-3 py-1 text-sm font-semibold bg-slate-700 hover:bg-slate-600 text-cyan-300 rounded-lg transition-colors duration-200"
+        >
+          {isOpen ? 'Hide' : 'Show'}
+        </button>
+      </div>
+
+      {isOpen && summary.evaluated === 0 && (
+        <p className="mt-4 text-slate-400">Analyze labeled images to see accuracy metrics.</p>
+      )}
+
+      {isOpen && summary.evaluated > 0 && (
+        <div className="mt-6 space-y-8">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <Stat label="Accuracy" value={percent(summary.accuracy)} detail={`${summary.correct} / ${summary.evaluated} correct`} />
+            <Stat label="Referral rate" value={percent(summary.referral.rate)} detail={`${summary.referral.count} flagged for review`} />
+            <Stat label="Accuracy (not referred)" value={percent(summary.referral.automatedAccuracy)} detail={`Referred: ${percent(summary.referral.referredAccuracy)}`} />
+            <Stat
+              label="Calibration error"
+              value={summary.expectedCalibrationError === undefined ? '—' : `${summary.expectedCalibrationError.toFixed(1)} pts`}
+              detail="Expected calibration error"
+            />
+          </div>
+
+          <div className="overflow-x-auto">
+            <h3 className="text-lg font-semibold text-slate-200 mb-2">Confusion Matrix</h3>
+            <table className="text-sm border-collapse">
+              <thead>
+                <tr>
+                  <th className="p-2 text-left text-slate-500 font-medium">Truth ↓ / Predicted →</th>
+                  {PREDICTED_COLUMNS.map(predicted => (
+                    <th key={predicted} className="p-2 text-slate-400 font-medium text-center">
+                      {predicted === 'Requires Further Review' ? 'Unclassified' : predicted}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {CLINICAL_DIAGNOSES.map(truth => (
+                  <tr key={truth}>
+                    <th className="p-2 text-left text-slate-400 font-medium">{truth}</th>
+                    {PREDICTED_COLUMNS.map(predicted => {
+                      const count = summary.confusion[truth][predicted];
+                      const shade = count / maxCell;
+                      return (
+                        <td
+                          key={predicted}
+                          className={`p-2 w-16 text-center border border-slate-700 ${truth === predicted ? 'text-green-300' : count > 0 ? 'text-red-300' : 'text-slate-600'}`}
+                          style={{ backgroundColor: count > 0 ? `rgba(8, 145, 178, ${0.1 + shade * 0.5})` : undefined }}
+                        >
+                          {count}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="text-xs text-slate-500 mt-2">"Unclassified" counts results where the model returned no supported diagnosis.</p>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+            <div className="overflow-x-auto">
+              <h3 className="text-lg font-semibold text-slate-200 mb-2">Per-Class Metrics</h3>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-slate-500 border-b border-slate-700">
+                    <th className="py-1 pr-4 font-medium">Diagnosis</th>
+                    <th className="py-1 pr-4 font-medium text-right">Support</th>
+                    <th className="py-1 pr-4 font-medium text-right">Sensitivity</th>
+                    <th className="py-1 font-medium text-right">Specificity</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {summary.classes.map(metrics => (
+                    <tr key={metrics.diagnosis} className="border-b border-slate-700/50 last:border-0 text-slate-300">
+                      <td className="py-1.5 pr-4">{metrics.diagnosis}</td>
+                      <td className="py-1.5 pr-4 text-right">{metrics.support}</td>
+                      <td className="py-1.5 pr-4 text-right">{percent(metrics.sensitivity)}</td>
+                      <td className="py-1.5 text-right">{percent(metrics.specificity)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div>
+              <h3 className="text-lg font-semibold text-slate-200 mb-2">Accuracy vs. Confidence</h3>
+              {/* Bar height is observed accuracy; the white tick marks the mean stated confidence. */}
+              <div className="flex items-end gap-2 h-40 bg-slate-900/50 rounded-md p-2">
+                {summary.calibration.map(bin => (
+                  <div key={bin.lower} className="relative flex-1 h-full" title={`${bin.count} result${bin.count !== 1 ? 's' : ''}`}>
+                    {bin.accuracy !== undefined && (
+                      <div className="absolute bottom-0 inset-x-0 bg-cyan-600/70 rounded-t-sm" style={{ height: `${bin.accuracy}%` }} />
+                    )}
+                    {bin.meanConfidence !== undefined && (
+                      <div className="absolute inset-x-0 h-0.5 bg-white" style={{ bottom: `${bin.meanConfidence}%` }} />
+                    )}
+                  </div>
+                ))}
+              </div>
+              <div className="flex gap-2 px-2 mt-1 text-xs text-slate-500">
+                {summary.calibration.map(bin => (
+                  <div key={bin.lower} className="flex-1 text-center">
+                    {bin.lower}–{bin.upper}%<br />n={bin.count}
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          {summary.promptVersions.length > 0 && (
+            <div className="overflow-x-auto">
+              <h3 className="text-lg font-semibold text-slate-200 mb-2">Prompt Versions</h3>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-slate-500 border-b border-slate-700">
+                    <th className="py-1 pr-4 font-medium">Prompts</th>
+                    <th className="py-1 pr-4 font-medium text-right">Images</th>
+                    <th className="py-1 pr-4 font-medium text-right">Accuracy</th>
+                    <th className="py-1 font-medium text-right">Mean confidence</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {summary.promptVersions.map(metrics => (
+                    <tr key={metrics.promptVersion} className="border-b border-slate-700/50 last:border-0 text-slate-300">
+                      <td className="py-1.5 pr-4">{metrics.promptVersion}</td>
+                      <td className="py-1.5 pr-4 text-right">{metrics.evaluated}</td>
+                      <td className="py-1.5 pr-4 text-right">{percent(metrics.accuracy)} <span className="text-xs text-slate-500">({metrics.correct})</span></td>
+                      <td className="py-1.5 text-right">{metrics.meanConfidence === undefined ? '—' : `${metrics.meanConfidence.toFixed(1)}%`}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="text-xs text-slate-500 mt-2">Each image counts once per prompt version, with its latest unrefined result from that version. Re-analyze the batch with another preset to compare.</p>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,56 @@
+import React, { useRef } from 'react';
+
+interface ExportPanelProps {
+  imageCount: number;
+  successCount: number;
+  isExporting: boolean;
+  onExportCsv: () => void;
+  onExportBundle: () => void;
+  onExportPdf: () => void;
+  onImportBundle: (file: File) => void;
+  onImportManifest: (file: File) => void;
+}
+
+const BUTTON_CLASS = 'px-3 py-2 text-sm font-semibold bg-slate-700 hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed text-cyan-300 rounded-lg transition-colors duration-200';
+
+export const ExportPanel: React.FC<ExportPanelProps> = ({ imageCount, successCount, isExporting, onExportCsv, onExportBundle, onExportPdf, onImportBundle, onImportManifest }) => {
+  const bundleInputRef = useRef<HTMLInputElement>(null);
+  const manifestInputRef = useRef<HTMLInputElement>(null);
+
+  const pickFile = (onPick: (file: File) => void) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onPick(file);
+    // Allow the same file to be picked again.
+    e.target.value = '';
+  };
+
+  return (
+    <div className="mt-6 border-t border-slate-700 pt-4">
+      <h3 className="text-lg font-semibold text-cyan-400 mb-3">Export & Import</h3>
+      <div className="grid grid-cols-2 gap-2">
+        <button onClick={onExportCsv} disabled={imageCount === 0} className={BUTTON_CLASS}>
+          CSV
+        </button>
+        <button onClick={onExportBundle} disabled={imageCount === 0 || isExporting} className={BUTTON_CLASS}>
+          JSON Bundle
+        </button>
+        <button onClick={onExportPdf} disabled={successCount === 0 || isExporting} className={`${BUTTON_CLASS} col-span-2`}>
+          {isExporting ? 'Exporting...' : `PDF Report (${successCount})`}
+        </button>
+        <button onClick={() => bundleInputRef.current?.click()} className={`${BUTTON_CLASS} col-span-2`}>
+          Import JSON Bundle
+        </button>
+        <button
+          onClick={() => manifestInputRef.current?.click()}
+          disabled={imageCount === 0}
+          className={`${BUTTON_CLASS} col-span-2`}
+          title="CSV with a file name column and a ground-truth label column"
+        >
+          Import Ground-Truth Manifest
+        </button>
+      </div>
+      <input ref={bundleInputRef} type="file" accept=".json,application/json" className="hidden" onChange={pickFile(onImportBundle)} />
+      <input ref={manifestInputRef} type="file" accept=".csv,text/csv" className="hidden" onChange={pickFile(onImportManifest)} />
+    </div>
+  );
+};
@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import type { AnalysisResult, Grade, GradingStage, ScanGrading } from '../types';
+import {
+  GRADE_DIAGNOSES, GRADING_STAGE_LABELS, aiAgreesWithGraders, createGrade, gradingStage, humanDiagnosis, isSameGrader,
+  loadGraderName, saveGraderName, withoutLastGrade,
+} from '../services/grading';
+
+interface GradingPanelProps {
+  grading?: ScanGrading;
+  /** The AI report, when the scan has been analyzed; shown beside the human diagnosis. */
+  result?: AnalysisResult;
+  onChange: (grading?: ScanGrading) => void;
+}
+
+type GradeSlot = 'first' | 'second' | 'adjudication';
+
+const STAGE_COLORS: Record<GradingStage, string> = {
+  'awaiting-grade': 'border-slate-500 text-slate-300',
+  'awaiting-adjudication': 'border-amber-500 text-amber-300',
+  'awaiting-sign-off': 'border-cyan-500 text-cyan-300',
+  'signed-off': 'border-green-500 text-green-300',
+};
+
+const GradeRow: React.FC<{ label: string; grade: Grade }> = ({ label, grade }) => (
+  <li className="flex flex-wrap items-baseline gap-x-2">
+    <span className="text-slate-400 w-28">{label}</span>
+    <span className="font-semibold text-slate-200">{grade.diagnosis}</span>
+    <span className="text-xs text-slate-500">{grade.grader} · {new Date(grade.gradedAt).toLocaleString()}</span>
+  </li>
+);
+
+export const GradingPanel: React.FC<GradingPanelProps> = ({ grading, result, onChange }) => {
+  const [graderName, setGraderName] = useState(loadGraderName);
+  const [diagnosis, setDiagnosis] = useState<AnalysisResult['diagnosis'] | ''>('');
+  const [error, setError] = useState<string | null>(null);
+
+  const stage = gradingStage(grading);
+  const human = humanDiagnosis(grading);
+  const aiAgrees = aiAgreesWithGraders(result, grading);
+  // The slot the next grade fills: a disagreement needs adjudicating; otherwise a second grade is optional.
+  const nextSlot: GradeSlot | undefined = stage === 'awaiting-grade' ? 'first'
+    : stage === 'awaiting-adjudication' ? 'adjudication'
+    : stage === 'awaiting-sign-off' && !grading?.second ? 'second'
+    : undefined;
+
+  const requireName = () => {
+    const name = graderName.trim();
+    if (!name) setError('Enter your name first.');
+    else saveGraderName(name);
+    return name;
+  };
+
+  const handleRecord = () => {
+    if (!nextSlot) return;
+    const name = requireName();
+    if (!name) return;
+    if (!diagnosis) return setError('Choose a diagnosis.');
+    if (nextSlot === 'second' && isSameGrader(name, grading!.first!.grader)) {
+      return setError('The second grade must come from a different grader.');
+    }
+    onChange({ ...grading, [nextSlot]: createGrade(name, diagnosis) });
+    setDiagnosis('');
+    setError(null);
+  };
+
+  const handleSignOff = () => {
+    const name = requireName();
+    if (!name) return;
+    onChange({ ...grading, signedOff: { grader: name, signedAt: new Date().toISOString() } });
+    setError(null);
+  };
+
+  return (
+    <div className="mb-4 p-4 bg-slate-900/50 rounded-lg border border-slate-700">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <h3 className="font-semibold text-slate-200">Human Grading</h3>
+        <span className={`px-2 py-0.5 text-xs font-bold rounded-full border ${STAGE_COLORS[stage]}`}>{GRADING_STAGE_LABELS[stage]}</span>
+      </div>
+
+      {grading?.first && (
+        <ul className="space-y-1 text-sm mb-3">
+          <GradeRow label="First grade" grade={grading.first} />
+          {grading.second && <GradeRow label="Second grade" grade={grading.second} />}
+          {grading.adjudication && <GradeRow label="Adjudication" grade={grading.adjudication} />}
+        </ul>
+      )}
+      {result && human && (
+        <p className={`text-sm mb-3 ${aiAgrees ? 'text-green-400' : 'text-red-400'}`}>
+          AI: {result.diagnosis} · Human: {human} — {aiAgrees ? 'agree' : 'disagree'}
+        </p>
+      )}
+
+      {grading?.signedOff ? (
+        <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+          <span className="text-green-300">Signed off by {grading.signedOff.grader} on {new Date(grading.signedOff.signedAt).toLocaleString()}</span>
+          <button onClick={() => onChange({ ...grading, signedOff: undefined })} className="font-semibold text-amber-300 hover:text-amber-200">Reopen</button>
+        </div>
+      ) : (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <input
+            value={graderName}
+            onChange={(e) => setGraderName(e.target.value)}
+            placeholder="Grader name"
+            aria-label="Grader name"
+            className="w-36 p-1.5 bg-slate-800 border border-slate-600 rounded-md text-slate-200 focus:ring-2 focus:ring-cyan-500 focus:outline-none"
+          />
+          {nextSlot && (
+            <>
+              <select
+                value={diagnosis}
+                onChange={(e) => setDiagnosis(e.target.value as AnalysisResult['diagnosis'] | '')}
+                aria-label="Diagnosis"
+                className="p-1.5 bg-slate-800 border border-slate-600 rounded-md text-slate-200 focus:ring-2 focus:ring-cyan-500 focus:outline-none"
+              >
+                <option value="">Diagnosis…</option>
+                {GRADE_DIAGNOSES.map(option => <option key={option} value={option}>{option}</option>)}
+              </select>
+              <button onClick={handleRecord} className="px-3 py-1.5 font-semibold bg-slate-700 hover:bg-slate-600 text-cyan-300 rounded-lg">
+                {nextSlot === 'first' ? 'Record Grade' : nextSlot === 'second' ? 'Record Second Grade' : 'Adjudicate'}
+              </button>
+            </>
+          )}
+          {stage === 'awaiting-sign-off' && (
+            <button onClick={handleSignOff} className="px-3 py-1.5 font-bold text-white bg-cyan-600 hover:bg-cyan-500 rounded-lg">Sign Off</button>
+          )}
+          {grading?.first && (
+            <button onClick={() => onChange(withoutLastGrade(grading))} className="ml-auto text-slate-400 hover:text-slate-200">Undo last grade</button>
+          )}
+        </div>
+      )}
+      {error && <p className="mt-2 text-sm text-red-300">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,41 @@
+import React from 'react';
+import type { GradingStage } from '../types';
+import { GRADING_STAGES, GRADING_STAGE_LABELS } from '../services/grading';
+
+export type GradingFilter = GradingStage | 'all';
+
+interface GradingQueueProps {
+  counts: Record<GradingStage, number>;
+  total: number;
+  filter: GradingFilter;
+  onChange: (filter: GradingFilter) => void;
+}
+
+/** Narrows the result cards to one stage of the human grading workflow. */
+export const GradingQueue: React.FC<GradingQueueProps> = ({ counts, total, filter, onChange }) => {
+  const options: { value: GradingFilter; label: string; count: number }[] = [
+    { value: 'all', label: 'All images', count: total },
+    ...GRADING_STAGES.map(stage => ({ value: stage, label: GRADING_STAGE_LABELS[stage], count: counts[stage] })),
+  ];
+  return (
+    <div className="bg-slate-800 rounded-2xl p-4 shadow-lg border border-slate-700">
+      <h2 className="text-sm font-semibold text-slate-400 mb-2">Grading Queue</h2>
+      <div className="flex flex-wrap gap-2">
+        {options.map(({ value, label, count }) => (
+          <button
+            key={value}
+            onClick={() => onChange(value)}
+            className={`px-3 py-1.5 text-sm font-semibold rounded-lg border transition-colors duration-200 ${
+              filter === value ? 'bg-cyan-900/40 border-cyan-500 text-cyan-200' : 'bg-slate-700 border-slate-600 text-slate-300 hover:bg-slate-600'
+            }`}
+          >
+            {label} <span className="ml-1 text-xs text-slate-400">{count}</span>
+          </button>
+        ))}
+      </div>
+      {filter !== 'all' && counts[filter] === 0 && (
+        <p className="mt-3 text-sm text-slate-500">No images are {GRADING_STAGE_LABELS[filter].toLowerCase()}.</p>
+      )}
+    </div>
+  );
+};
@@ -2,7 +2,16 @@
 import React from 'react';
 import { EyeIcon } from './icons';
 
-export const Header: React.FC = () => {
+interface HeaderProps {
+  providerName: string;
+}
+
+const PROVIDER_LABELS: Record<string, string> = {
+  gemini: 'Gemini API',
+  local: 'Local mock (offline)',
+};
+
+export const Header: React.FC<HeaderProps> = ({ providerName }) => {
   return (
     <header className="bg-slate-800/50 backdrop-blur-lg border-b border-slate-700 sticky top-0 z-10">
       <div className="container mx-auto px-4 md:px-8 py-4 flex items-center justify-between">
@@ -13,6 +22,7 @@ export const Header: React.FC = () => {
           </h1>
         </div>
         <div className="text-sm text-slate-400">
+          Backend: <span className="text-cyan-400">{PROVIDER_LABELS[providerName] ?? providerName}</span>
         </div>
       </div>
     </header>
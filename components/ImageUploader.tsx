@@ -1,5 +1,6 @@
 import React, { useState, useCallback } from 'react';
 import { UploadIcon } from './icons';
+import { looksLikeDicom } from '../services/dicomParser';
 
 interface ImageUploaderProps {
   onImageUpload: (files: FileList) => void;
@@ -10,7 +11,7 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload }) =
 
   const handleFileChange = useCallback((files: FileList | null) => {
     if (files && files.length > 0) {
-      const imageFiles = Array.from(files).filter(file => file.type.startsWith('image/'));
+      const imageFiles = Array.from(files).filter(file => file.type.startsWith('image/') || looksLikeDicom(file));
       if (imageFiles.length > 0) {
         onImageUpload(files);
       }
@@ -49,9 +50,13 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload }) =
           <p className="mb-2 text-sm text-slate-400">
             <span className="font-semibold text-cyan-400">Click to upload</span> or drag and drop
           </p>
-          <p className="text-xs text-slate-500">Upload one or more images (PNG, JPG)</p>
+          <p className="text-xs text-slate-500">Upload one or more images (PNG, JPG) or DICOM files</p>
         </div>
-        <input id="file-upload" type="file" className="hidden" accept="image/*" multiple onChange={(e) => handleFileChange(e.target.files)} />
+        <input id="file-upload" type="file" className="hidden" accept="image/*,.dcm,.dicom,application/dicom" multiple onChange={(e) => handleFileChange(e.target.files)} />
+      </label>
+      <label className="block mt-2 text-xs text-center text-slate-500 cursor-pointer hover:text-cyan-300">
+        Or upload a folder — subfolder names such as CNV/ or NORMAL/ are read as ground-truth labels
+        <input type="file" className="hidden" webkitdirectory="" multiple onChange={(e) => handleFileChange(e.target.files)} />
       </label>
     </div>
   );
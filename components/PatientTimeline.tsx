@@ -0,0 +1,204 @@
+import React, { useMemo, useState } from 'react';
+import type { AnalyzableImage, ChangeDirection, VisitComparison } from '../types';
+import { getDiagnosisColor } from './AnalysisResults';
+import { TrashIcon } from './icons';
+import { formatConfidence } from '../services/analysisResult';
+import { describeModels } from '../services/promptRegistry';
+import { EYE_LABELS, groupVisits, patientEyeKey } from '../services/visits';
+
+interface PatientTimelineProps {
+  images: AnalyzableImage[];
+  comparisons: VisitComparison[];
+  /** Image ids of the comparison currently running, if any. */
+  comparingIds?: [string, string];
+  onCompare: (baselineImageId: string, followUpImageId: string) => void;
+  onDeleteComparison: (comparisonId: string) => void;
+}
+
+const CHANGE_STYLES: Record<ChangeDirection, string> = {
+  improved: 'text-green-300 border-green-500 bg-green-900/30',
+  stable: 'text-slate-300 border-slate-500 bg-slate-700/40',
+  worsened: 'text-red-300 border-red-500 bg-red-900/30',
+};
+
+const CHANGE_LABELS: Record<ChangeDirection, string> = { improved: 'Improved', stable: 'Stable', worsened: 'Worsened' };
+
+// The findings follow-up decisions hinge on: fluid and central thickness.
+const keyFindings = (image: AnalyzableImage) => {
+  const findings = image.result?.findings;
+  if (!findings) return [];
+  const fluid = [findings.intraretinalFluid.present && 'IRF', findings.subretinalFluid.present && 'SRF'].filter(Boolean).join(' + ');
+  return [
+    fluid ? `Fluid: ${fluid}` : 'No fluid',
+    findings.centralRetinalThickness.micrometers !== null && `CRT ${Math.round(findings.centralRetinalThickness.micrometers)} µm`,
+    findings.drusen.count > 0 && `${findings.drusen.count} drusen`,
+    findings.geographicAtrophy.present && 'GA',
+  ].filter((value): value is string => !!value);
+};
+
+const visitCaption = (image: AnalyzableImage) =>
+  `${image.visit?.visitDate ?? ''}${image.sliceIndex !== undefined ? ` · slice ${image.sliceIndex + 1}` : ''}`;
+
+const ComparisonCard: React.FC<{ comparison: VisitComparison; baseline?: AnalyzableImage; followUp?: AnalyzableImage; onDelete: () => void }> = ({ comparison, baseline, followUp, onDelete }) => {
+  const { assessment } = comparison;
+  return (
+    <div className="p-4 bg-slate-900/50 rounded-lg border border-slate-700 space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <span className={`px-3 py-1 text-sm font-bold rounded-full border ${CHANGE_STYLES[assessment.overall]}`}>
+            {CHANGE_LABELS[assessment.overall]}
+          </span>
+          <span className="text-sm text-slate-400">{formatConfidence(assessment.confidence)} confidence</span>
+        </div>
+        <div className="flex items-center gap-3 text-xs text-slate-500">
+          {assessment.provenance && <span title={describeModels(assessment.provenance)}>Prompts {assessment.provenance.promptVersion}</span>}
+          <span>{new Date(comparison.createdAt).toLocaleString()}</span>
+          <button onClick={onDelete} className="hover:text-red-400" title="Delete comparison">
+            <TrashIcon className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        {[{ label: 'Baseline', image: baseline }, { label: 'Follow-up', image: followUp }].map(({ label, image }) => (
+          <div key={label}>
+            <p className="text-xs font-semibold text-slate-400 mb-1">{label}{image ? ` · ${visitCaption(image)}` : ''}</p>
+            {image ? (
+              <>
+                <img src={image.previewUrl} alt={`${label} scan`} className="rounded-md w-full object-contain" />
+                {image.result && (
+                  <p className="text-xs text-slate-400 mt-1">{image.result.diagnosis} · {keyFindings(image).join(' · ')}</p>
+                )}
+              </>
+            ) : (
+              <p className="text-sm text-slate-500">This scan has been removed from the session.</p>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <p className="text-sm text-slate-300">{assessment.rationale}</p>
+      {assessment.findingChanges.length > 0 && (
+        <table className="w-full text-sm">
+          <tbody>
+            {assessment.findingChanges.map((change, index) => (
+              <tr key={index} className="border-b border-slate-700/50 last:border-0">
+                <td className="py-1.5 pr-4 text-slate-300">{change.finding}</td>
+                <td className="py-1.5 pr-4">
+                  <span className={`px-2 py-0.5 text-xs font-semibold rounded-full border ${CHANGE_STYLES[change.change]}`}>{CHANGE_LABELS[change.change]}</span>
+                </td>
+                <td className="py-1.5 text-slate-400">{change.note}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Follow-up view: every patient and eye with a timeline of visits. Two visits
+ * of the same eye can be sent to the model for a structured change assessment.
+ */
+export const PatientTimeline: React.FC<PatientTimelineProps> = ({ images, comparisons, comparingIds, onCompare, onDeleteComparison }) => {
+  const [isOpen, setIsOpen] = useState(true);
+  const [selection, setSelection] = useState<Record<string, string[]>>({});
+  const timelines = useMemo(() => groupVisits(images), [images]);
+  const imageById = useMemo(() => new Map(images.map(image => [image.id, image])), [images]);
+
+  // Keeps at most the two most recently ticked visits per eye.
+  const toggleVisit = (key: string, imageId: string) => setSelection(prev => {
+    const current = prev[key] ?? [];
+    const next = current.includes(imageId) ? current.filter(id => id !== imageId) : [...current, imageId].slice(-2);
+    return { ...prev, [key]: next };
+  });
+
+  return (
+    <div className="bg-slate-800 rounded-2xl p-6 shadow-lg border border-slate-700">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-100">Patient Follow-up</h2>
+          <p className="text-sm text-slate-400">{timelines.length} eye{timelines.length !== 1 ? 's' : ''} with visit information</p>
+        </div>
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="px-3 py-1 text-sm font-semibold bg-slate-700 hover:bg-slate-600 text-cyan-300 rounded-lg transition-colors duration-200"
+        >
+          {isOpen ? 'Hide' : 'Show'}
+        </button>
+      </div>
+
+      {isOpen && (
+        <div className="mt-6 space-y-8">
+          {timelines.map(timeline => {
+            const selected = (selection[timeline.key] ?? []).filter(id => imageById.has(id));
+            // Order the pair by visit, whichever was ticked first.
+            const [baseline, followUp] = timeline.visits.filter(visit => selected.includes(visit.id));
+            const isComparing = !!comparingIds && timeline.visits.some(visit => visit.id === comparingIds[0]);
+            const eyeComparisons = comparisons.filter(comparison => patientEyeKey(comparison) === timeline.key);
+            return (
+              <div key={timeline.key}>
+                <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+                  <h3 className="text-lg font-semibold text-slate-200">
+                    Patient {timeline.patientId} · {EYE_LABELS[timeline.eye]}
+                  </h3>
+                  <button
+                    onClick={() => onCompare(baseline.id, followUp.id)}
+                    disabled={!followUp || !!comparingIds}
+                    className="px-4 py-2 text-sm font-semibold bg-cyan-600 hover:bg-cyan-500 text-white rounded-lg disabled:bg-slate-600 disabled:cursor-not-allowed transition-colors duration-200"
+                  >
+                    {isComparing ? 'Comparing...' : 'Compare selected visits'}
+                  </button>
+                </div>
+
+                <ol className="flex gap-3 overflow-x-auto pb-2">
+                  {timeline.visits.map(visit => (
+                    <li
+                      key={visit.id}
+                      className={`flex-shrink-0 w-48 p-3 rounded-lg border ${selected.includes(visit.id) ? 'border-cyan-500 bg-cyan-900/20' : 'border-slate-700 bg-slate-900/50'}`}
+                    >
+                      <label className="flex items-center justify-between text-sm font-semibold text-slate-200 mb-2">
+                        {visitCaption(visit)}
+                        <input type="checkbox" checked={selected.includes(visit.id)} onChange={() => toggleVisit(timeline.key, visit.id)} className="accent-cyan-500" />
+                      </label>
+                      <img src={visit.previewUrl} alt={`Visit ${visit.visit.visitDate}`} className="rounded-md w-full h-24 object-cover mb-2" />
+                      {visit.result ? (
+                        <>
+                          <span className={`inline-block px-2 py-0.5 text-xs font-bold rounded-full border ${getDiagnosisColor(visit.result.diagnosis)}`}>
+                            {visit.result.diagnosis}
+                          </span>
+                          <span className="ml-2 text-xs text-slate-400">{formatConfidence(visit.result.confidence)}</span>
+                          <ul className="mt-2 text-xs text-slate-400 space-y-0.5">
+                            {keyFindings(visit).map(finding => <li key={finding}>{finding}</li>)}
+                          </ul>
+                        </>
+                      ) : (
+                        <p className="text-xs text-slate-500">Not analyzed</p>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+                {timeline.visits.length < 2 && <p className="text-xs text-slate-500">Add another visit of this eye to compare.</p>}
+
+                {eyeComparisons.length > 0 && (
+                  <div className="mt-4 space-y-4">
+                    {eyeComparisons.map(comparison => (
+                      <ComparisonCard
+                        key={comparison.id}
+                        comparison={comparison}
+                        baseline={imageById.get(comparison.baselineImageId)}
+                        followUp={imageById.get(comparison.followUpImageId)}
+                        onDelete={() => onDeleteComparison(comparison.id)}
+                      />
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
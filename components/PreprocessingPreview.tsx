@@ -0,0 +1,83 @@
+import React, { useEffect, useState } from 'react';
+import type { AnalyzableImage, PreprocessingRecord, PreprocessingSettings } from '../types';
+import { describePreprocessing, preprocessImage } from '../services/preprocessing';
+
+interface PreprocessingPreviewProps {
+  image: AnalyzableImage;
+  settings: PreprocessingSettings;
+}
+
+/**
+ * Before/after view of preprocessing. An analyzed scan shows what the model
+ * saw; a pending one can be previewed with the current settings.
+ */
+export const PreprocessingPreview: React.FC<PreprocessingPreviewProps> = ({ image, settings }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [preview, setPreview] = useState<{ url: string; record: PreprocessingRecord } | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // A preview made with other settings, or of a scan analyzed since, is stale.
+  useEffect(() => {
+    setPreview(null);
+    setError(null);
+  }, [settings, image.processedImageUrl]);
+
+  useEffect(() => () => {
+    if (preview) URL.revokeObjectURL(preview.url);
+  }, [preview]);
+
+  const analyzed = image.processedImageUrl && image.preprocessing ? { url: image.processedImageUrl, record: image.preprocessing } : null;
+  const shown = analyzed ?? preview;
+  if (!shown && !(settings.enabled && image.status === 'pending')) return null;
+
+  const handlePreview = async () => {
+    setIsRunning(true);
+    setError(null);
+    try {
+      const { file, record } = await preprocessImage(image.file, settings);
+      setPreview({ url: URL.createObjectURL(file), record });
+      setIsOpen(true);
+    } catch (err) {
+      console.error('Preprocessing preview failed:', err);
+      setError((err as Error).message);
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <div className="mt-4 p-3 bg-slate-900/50 rounded-lg border border-slate-700 text-sm">
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-slate-400">
+          <span className="font-semibold text-slate-300">Preprocessing</span>
+          {shown ? ` · ${describePreprocessing(shown.record)}` : ' · not previewed yet'}
+        </p>
+        {shown ? (
+          <button onClick={() => setIsOpen(!isOpen)} className="flex-shrink-0 text-xs text-cyan-300 hover:text-cyan-200">
+            {isOpen ? 'Hide before/after' : 'Show before/after'}
+          </button>
+        ) : (
+          <button
+            onClick={handlePreview}
+            disabled={isRunning}
+            className="flex-shrink-0 px-3 py-1 text-xs font-semibold bg-slate-700 hover:bg-slate-600 text-cyan-300 rounded-lg disabled:text-slate-500 transition-colors duration-200"
+          >
+            {isRunning ? 'Processing...' : 'Preview preprocessing'}
+          </button>
+        )}
+      </div>
+      {error && <p className="mt-2 text-xs text-red-300">{error}</p>}
+      {shown && isOpen && (
+        <div className="mt-3 grid grid-cols-2 gap-3">
+          {[{ label: 'Before', url: image.previewUrl }, { label: analyzed ? 'After (analyzed)' : 'After', url: shown.url }].map(({ label, url }) => (
+            <figure key={label}>
+              <img src={url} alt={`${label} preprocessing`} className="rounded-md w-full object-contain bg-black" />
+              <figcaption className="mt-1 text-xs text-slate-500">{label}</figcaption>
+            </figure>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import type { DenoiseLevel, PreprocessingSettings } from '../types';
+import { DENOISE_LEVELS, MAX_DIMENSIONS } from '../services/preprocessing';
+
+interface PreprocessingSettingsPanelProps {
+  settings: PreprocessingSettings;
+  onChange: (settings: PreprocessingSettings) => void;
+}
+
+const inputClass = 'p-1 bg-slate-900 border border-slate-600 rounded-md text-slate-200 focus:ring-2 focus:ring-cyan-500 focus:outline-none disabled:text-slate-500';
+
+/** Preprocessing steps for this session; they apply to first analyses started after a change. */
+export const PreprocessingSettingsPanel: React.FC<PreprocessingSettingsPanelProps> = ({ settings, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const steps = [
+    settings.autoCrop && 'crop',
+    `max ${settings.maxDimension} px`,
+    settings.grayscale && 'grayscale',
+    settings.denoise !== 'off' && `${settings.denoise} denoising`,
+    settings.normalizeContrast && 'contrast',
+  ].filter(Boolean);
+
+  const toggles: { key: 'autoCrop' | 'grayscale' | 'normalizeContrast'; label: string }[] = [
+    { key: 'autoCrop', label: 'Auto-crop to the B-scan (drops borders, text and fundus insets)' },
+    { key: 'grayscale', label: 'Convert to grayscale' },
+    { key: 'normalizeContrast', label: 'Normalize contrast' },
+  ];
+
+  return (
+    <div className="mt-6 border-t border-slate-700 pt-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-cyan-400">Preprocessing</h3>
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="px-3 py-1 text-sm font-semibold bg-slate-700 hover:bg-slate-600 text-cyan-300 rounded-lg transition-colors duration-200"
+        >
+          {isOpen ? 'Hide' : 'Edit'}
+        </button>
+      </div>
+      <p className="mt-1 text-xs text-slate-500">
+        {settings.enabled ? `On: ${steps.length > 0 ? steps.join(', ') : 'no steps selected'}` : 'Off: scans are analyzed as uploaded'}
+      </p>
+      {isOpen && (
+        <div className="mt-3 space-y-3 text-sm text-slate-400">
+          <p className="text-xs text-slate-500">Scans are processed in the browser before analysis, and every result records the steps applied. Each card can preview the result before analysis. Refinements reuse the scan the first analysis saw.</p>
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={settings.enabled} onChange={(e) => onChange({ ...settings, enabled: e.target.checked })} />
+            <span className="text-slate-300">Preprocess scans before analysis</span>
+          </label>
+          {toggles.map(({ key, label }) => (
+            <label key={key} className="flex items-start gap-2">
+              <input
+                type="checkbox"
+                checked={settings[key]}
+                disabled={!settings.enabled}
+                onChange={(e) => onChange({ ...settings, [key]: e.target.checked })}
+                className="mt-1"
+              />
+              <span>{label}</span>
+            </label>
+          ))}
+          <label className="flex items-center justify-between gap-2">
+            <span>Resize to at most</span>
+            <select
+              value={settings.maxDimension}
+              disabled={!settings.enabled}
+              onChange={(e) => onChange({ ...settings, maxDimension: parseInt(e.target.value, 10) })}
+              className={inputClass}
+            >
+              {MAX_DIMENSIONS.map(size => <option key={size} value={size}>{size} px</option>)}
+            </select>
+          </label>
+          <label className="flex items-center justify-between gap-2">
+            <span>Speckle denoising</span>
+            <select
+              value={settings.denoise}
+              disabled={!settings.enabled}
+              onChange={(e) => onChange({ ...settings, denoise: e.target.value as DenoiseLevel })}
+              className={inputClass}
+            >
+              {DENOISE_LEVELS.map(({ level, name }) => <option key={level} value={level}>{name}</option>)}
+            </select>
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
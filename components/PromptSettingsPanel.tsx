@@ -0,0 +1,160 @@
+import React, { useEffect, useState } from 'react';
+import type { PromptTask } from '../types';
+import {
+  PROMPT_TASKS, PROMPT_TASK_LABELS, TASK_MODELS, addPresetVersion, createPreset, deletePreset, getActivePreset, latestVersion,
+  type PromptRegistry, type PromptTasks,
+} from '../services/promptRegistry';
+
+interface PromptSettingsPanelProps {
+  registry: PromptRegistry;
+  onChange: (registry: PromptRegistry) => void;
+  /** Whether the configured provider sends the prompts to a model at all. */
+  usesPrompts: boolean;
+  /** Images that already have a result or failed, i.e. what re-analysis would cover. */
+  reanalyzeCount: number;
+  onReanalyze: () => void;
+}
+
+const DEFAULT_TASK: PromptTask = 'classification';
+
+const inputClass = 'w-full p-1 bg-slate-900 border border-slate-600 rounded-md text-slate-200 focus:ring-2 focus:ring-cyan-500 focus:outline-none';
+
+/**
+ * Edits the prompt presets. Edits are a draft until saved, either as the next
+ * version of the active preset or as a new preset; the built-in default can
+ * only be copied. New analyses always use the latest version of the active preset.
+ */
+export const PromptSettingsPanel: React.FC<PromptSettingsPanelProps> = ({ registry, onChange, usesPrompts, reanalyzeCount, onReanalyze }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [task, setTask] = useState<PromptTask>(DEFAULT_TASK);
+  const [newPresetName, setNewPresetName] = useState('');
+  const preset = getActivePreset(registry);
+  const current = latestVersion(preset);
+  const [draft, setDraft] = useState<PromptTasks>(current.tasks);
+
+  // A different preset or a newly saved version replaces the draft.
+  useEffect(() => {
+    setDraft(current.tasks);
+  }, [current]);
+
+  const isDirty = PROMPT_TASKS.some(name => draft[name].model !== current.tasks[name].model || draft[name].prompt !== current.tasks[name].prompt);
+  const models = TASK_MODELS[task].includes(draft[task].model) ? TASK_MODELS[task] : [draft[task].model, ...TASK_MODELS[task]];
+
+  const updateTask = (changes: Partial<PromptTasks[PromptTask]>) => setDraft({ ...draft, [task]: { ...draft[task], ...changes } });
+
+  const handleCreatePreset = () => {
+    const name = newPresetName.trim();
+    if (!name) return;
+    onChange(createPreset(registry, name, draft));
+    setNewPresetName('');
+  };
+
+  return (
+    <div className="mt-6 border-t border-slate-700 pt-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-cyan-400">Prompts &amp; Models</h3>
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="px-3 py-1 text-sm font-semibold bg-slate-700 hover:bg-slate-600 text-cyan-300 rounded-lg transition-colors duration-200"
+        >
+          {isOpen ? 'Hide' : 'Edit'}
+        </button>
+      </div>
+      <p className="mt-1 text-xs text-slate-500">Active: {preset.name} v{current.version}</p>
+      {isOpen && (
+        <div className="mt-3 space-y-3 text-sm text-slate-400">
+          <p className="text-xs text-slate-500">
+            Every result records the preset version and models that produced it. Presets are saved in this browser and shared by all sessions.
+            {!usesPrompts && ' The local provider returns simulated results and ignores these settings.'}
+          </p>
+          <label className="block space-y-1">
+            <span>Preset</span>
+            <select
+              value={preset.id}
+              onChange={(e) => onChange({ ...registry, activePresetId: e.target.value })}
+              disabled={isDirty}
+              className={inputClass}
+            >
+              {registry.presets.map(entry => (
+                <option key={entry.id} value={entry.id}>{entry.name} (v{latestVersion(entry).version}){entry.builtIn ? ' · built-in' : ''}</option>
+              ))}
+            </select>
+          </label>
+          <label className="block space-y-1">
+            <span>Task</span>
+            <select value={task} onChange={(e) => setTask(e.target.value as PromptTask)} className={inputClass}>
+              {PROMPT_TASKS.map(name => <option key={name} value={name}>{PROMPT_TASK_LABELS[name]}</option>)}
+            </select>
+          </label>
+          <label className="block space-y-1">
+            <span>Model</span>
+            <select value={draft[task].model} onChange={(e) => updateTask({ model: e.target.value })} className={inputClass}>
+              {models.map(model => <option key={model} value={model}>{model}</option>)}
+            </select>
+          </label>
+          <label className="block space-y-1">
+            <span>Prompt</span>
+            <textarea
+              value={draft[task].prompt}
+              onChange={(e) => updateTask({ prompt: e.target.value })}
+              rows={10}
+              className={`${inputClass} font-mono text-xs`}
+            />
+          </label>
+
+          {isDirty && (
+            <div className="space-y-2">
+              {preset.builtIn ? (
+                <p className="text-xs text-amber-400">The built-in preset cannot be changed; save your edits as a new preset.</p>
+              ) : (
+                <button
+                  onClick={() => onChange(addPresetVersion(registry, preset.id, draft))}
+                  className="w-full px-3 py-1.5 text-sm font-semibold bg-cyan-600 hover:bg-cyan-500 text-white rounded-lg transition-colors duration-200"
+                >
+                  Save as {preset.name} v{current.version + 1}
+                </button>
+              )}
+              <button onClick={() => setDraft(current.tasks)} className="text-xs text-slate-500 hover:text-cyan-300">
+                Discard changes
+              </button>
+            </div>
+          )}
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={newPresetName}
+              onChange={(e) => setNewPresetName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleCreatePreset()}
+              placeholder="New preset name"
+              className={inputClass}
+            />
+            <button
+              onClick={handleCreatePreset}
+              disabled={!newPresetName.trim()}
+              className="flex-shrink-0 px-3 py-1 text-sm font-semibold bg-slate-700 hover:bg-slate-600 text-cyan-300 rounded-lg disabled:text-slate-500 disabled:cursor-not-allowed transition-colors duration-200"
+            >
+              Save as new
+            </button>
+          </div>
+          {!preset.builtIn && (
+            <button
+              onClick={() => window.confirm(`Delete the preset "${preset.name}"? Results keep the version name they were produced with.`) && onChange(deletePreset(registry, preset.id))}
+              className="text-xs text-slate-500 hover:text-red-300"
+            >
+              Delete preset
+            </button>
+          )}
+
+          <button
+            onClick={onReanalyze}
+            disabled={isDirty || reanalyzeCount === 0}
+            className="w-full px-3 py-1.5 text-sm font-semibold bg-slate-700 hover:bg-slate-600 text-cyan-300 rounded-lg disabled:text-slate-500 disabled:cursor-not-allowed transition-colors duration-200"
+          >
+            Re-analyze {reanalyzeCount} image{reanalyzeCount !== 1 ? 's' : ''} with {preset.name} v{current.version}
+          </button>
+          <p className="text-xs text-slate-500">Re-analysis adds a version to each image, so the evaluation can compare prompt versions on the same batch.</p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,52 @@
+import React, { useState } from 'react';
+import type { QualitySettings } from '../types';
+import { QUALITY_GATE_MODES } from '../services/imageQuality';
+
+interface QualitySettingsPanelProps {
+  settings: QualitySettings;
+  onChange: (settings: QualitySettings) => void;
+  /** Whether the provider can judge scans itself; otherwise only local metrics are used. */
+  supportsModelCheck: boolean;
+}
+
+export const QualitySettingsPanel: React.FC<QualitySettingsPanelProps> = ({ settings, onChange, supportsModelCheck }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="mt-6 border-t border-slate-700 pt-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-cyan-400">Quality Gate</h3>
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="px-3 py-1 text-sm font-semibold bg-slate-700 hover:bg-slate-600 text-cyan-300 rounded-lg transition-colors duration-200"
+        >
+          {isOpen ? 'Hide' : 'Edit'}
+        </button>
+      </div>
+      {isOpen && (
+        <div className="mt-3 space-y-3 text-sm text-slate-400">
+          <p className="text-xs text-slate-500">Each scan's size, contrast, sharpness and color are measured when it is added. Scans that are too small, washed out, blurred or colored like a fundus photo are marked ungradable before any model call.</p>
+          <div className="space-y-1">
+            {QUALITY_GATE_MODES.map(({ mode, name, description }) => (
+              <label key={mode} className="flex items-start gap-2">
+                <input type="radio" name="quality-gate-mode" checked={settings.mode === mode} onChange={() => onChange({ ...settings, mode })} className="mt-1" />
+                <span><span className="text-slate-300">{name}</span> – {description}</span>
+              </label>
+            ))}
+          </div>
+          <label className="flex items-start gap-2">
+            <input
+              type="checkbox"
+              checked={settings.modelCheck}
+              disabled={!supportsModelCheck || settings.mode === 'off'}
+              onChange={(e) => onChange({ ...settings, modelCheck: e.target.checked })}
+              className="mt-1"
+            />
+            <span>Also ask the model whether each scan is a gradable OCT B-scan. This adds one quick call per scan and catches cropped foveas and motion artifacts.</span>
+          </label>
+          {!supportsModelCheck && <p className="text-xs text-slate-500">The current provider has no model check; only the local metrics are used.</p>}
+        </div>
+      )}
+    </div>
+  );
+};
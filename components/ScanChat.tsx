@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import type { ChatMessage } from '../types';
+import { formatProvenance } from '../services/promptRegistry';
+import { MAX_CHAT_MESSAGE_LENGTH } from '../services/serverApi';
+
+interface ScanChatProps {
+  messages: ChatMessage[];
+  /** A question is awaiting its answer. */
+  pending: boolean;
+  /** Rejects when the question could not be answered; it is then removed from the conversation. */
+  onAsk: (question: string) => Promise<void>;
+  /** Refines the report with the conversation as feedback. */
+  onApply: () => void;
+  onClear: () => void;
+}
+
+export const ScanChat: React.FC<ScanChatProps> = ({ messages, pending, onAsk, onApply, onClear }) => {
+  const [draft, setDraft] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const canAsk = !!draft.trim() && !pending;
+  const hasReply = messages.some(message => message.role === 'assistant');
+
+  // The draft is cleared right away and put back if the question fails, so it is never lost.
+  const handleAsk = async () => {
+    if (!canAsk) return;
+    const question = draft.trim();
+    setDraft('');
+    setError(null);
+    try {
+      await onAsk(question);
+    } catch (err) {
+      setDraft(question);
+      setError((err as Error).message);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      handleAsk();
+    }
+  };
+
+  return (
+    <div className="my-6 p-4 bg-slate-900/50 rounded-lg border border-slate-700">
+      <div className="flex items-center justify-between gap-4 mb-2">
+        <h3 className="font-semibold text-slate-200">Ask About This Scan</h3>
+        {messages.length > 0 && (
+          <button onClick={onClear} disabled={pending} className="text-sm text-slate-400 hover:text-slate-200 disabled:opacity-50">Clear</button>
+        )}
+      </div>
+      <p className="text-sm text-slate-400 mb-3">
+        Answers are based on the scan and the current report. The report only changes when you apply the conversation to it.
+      </p>
+      {messages.length > 0 && (
+        <ol className="space-y-3 mb-3 max-h-96 overflow-y-auto pr-1">
+          {messages.map(message => (
+            <li key={message.id} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+              <div className={`max-w-[85%] px-3 py-2 rounded-lg text-sm ${message.role === 'user' ? 'bg-cyan-900/40 border border-cyan-700 text-slate-100' : 'bg-slate-800 border border-slate-600 text-slate-300'}`}>
+                <p className="whitespace-pre-wrap leading-relaxed">{message.text}</p>
+                <p className="mt-1 text-xs text-slate-500" title={message.provenance ? formatProvenance(message.provenance) : undefined}>
+                  {new Date(message.createdAt).toLocaleTimeString()}
+                </p>
+              </div>
+            </li>
+          ))}
+          {pending && <li className="text-sm text-slate-400 animate-pulse">Answering...</li>}
+        </ol>
+      )}
+      {error && <p className="mb-3 text-sm text-red-300">{error}</p>}
+      <textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={handleKeyDown}
+        maxLength={MAX_CHAT_MESSAGE_LENGTH}
+        className="w-full h-20 p-2 bg-slate-800 border border-slate-600 rounded-md focus:ring-2 focus:ring-cyan-500 focus:outline-none text-slate-200"
+        placeholder="e.g., 'Is the fluid subretinal or intraretinal?'"
+      />
+      <div className="flex justify-end gap-2 mt-3">
+        <button
+          onClick={onApply}
+          disabled={!hasReply || pending}
+          title="Refines the report with this conversation as feedback"
+          className="px-4 py-2 text-sm font-semibold bg-slate-700 hover:bg-slate-600 text-cyan-300 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Apply to Report
+        </button>
+        <button onClick={handleAsk} disabled={!canAsk} className="px-4 py-2 font-bold text-white bg-cyan-600 hover:bg-cyan-500 rounded-lg disabled:bg-slate-600 disabled:cursor-not-allowed">
+          Ask
+        </button>
+      </div>
+    </div>
+  );
+};
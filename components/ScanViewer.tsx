@@ -0,0 +1,379 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { AnnotationLabel, AnnotationShape, ScanAnnotation } from '../types';
+import { ANNOTATION_LABELS } from '../services/annotations';
+import { toCssColor, type LegendEntry } from '../services/mapLegends';
+
+export interface ViewerLayer {
+  id: string;
+  label: string;
+  url?: string;
+  legend: LegendEntry[];
+  /** Whether the layer starts switched on; the generated maps are full images, so stacking them all hides the scan. */
+  defaultVisible?: boolean;
+}
+
+export type AnnotationTool = 'pan' | AnnotationShape['kind'];
+
+interface ScanViewerProps {
+  baseUrl: string;
+  layers: ViewerLayer[];
+  /** Clinician annotations to draw; with a drawing tool selected, new shapes are reported through `onDraw`. */
+  annotations?: ScanAnnotation[];
+  tool?: AnnotationTool;
+  drawLabel?: AnnotationLabel;
+  onDraw?: (shape: AnnotationShape) => void;
+}
+
+interface LayerSettings {
+  visible: boolean;
+  opacity: number;
+}
+
+interface ViewTransform {
+  zoom: number;
+  x: number;
+  y: number;
+}
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 8;
+const IDENTITY_VIEW: ViewTransform = { zoom: 1, x: 0, y: 0 };
+
+// Keeps the zoomed scan covering the canvas so it can't be dragged out of view.
+const clampView = ({ zoom, x, y }: ViewTransform, width: number, height: number): ViewTransform => {
+  const clampedZoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+  return {
+    zoom: clampedZoom,
+    x: Math.min(0, Math.max(width - width * clampedZoom, x)),
+    y: Math.min(0, Math.max(height - height * clampedZoom, y)),
+  };
+};
+
+/** Zooms about a point in canvas coordinates, keeping that point fixed on screen. */
+const zoomAt = (view: ViewTransform, factor: number, pointX: number, pointY: number, width: number, height: number) => {
+  const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, view.zoom * factor));
+  const scale = zoom / view.zoom;
+  return clampView({ zoom, x: pointX - (pointX - view.x) * scale, y: pointY - (pointY - view.y) * scale }, width, height);
+};
+
+const DEFAULT_DRAW_LABEL: AnnotationLabel = 'fluid';
+
+// Shapes smaller than this fraction of the scan are treated as stray clicks.
+const MIN_BOX_SIZE = 0.005;
+
+const clampFraction = (value: number) => Math.min(1, Math.max(0, value));
+
+const traceShape = (context: CanvasRenderingContext2D, shape: AnnotationShape, width: number, height: number, zoom: number) => {
+  context.beginPath();
+  if (shape.kind === 'box') {
+    context.rect(shape.x * width, shape.y * height, shape.width * width, shape.height * height);
+  } else if (shape.kind === 'point') {
+    context.arc(shape.x * width, shape.y * height, 5 / zoom, 0, Math.PI * 2);
+  } else {
+    shape.points.forEach(([x, y], index) => index === 0 ? context.moveTo(x * width, y * height) : context.lineTo(x * width, y * height));
+  }
+};
+
+const useLoadedImages = (urls: string[]) => {
+  const [images, setImages] = useState<Record<string, HTMLImageElement>>({});
+  // Keyed on the URL list itself; callers pass a fresh array each render.
+  const key = urls.join('\n');
+
+  useEffect(() => {
+    let isCancelled = false;
+    urls.forEach(url => {
+      const image = new Image();
+      image.onload = () => {
+        if (!isCancelled) setImages(prev => ({ ...prev, [url]: image }));
+      };
+      image.src = url;
+    });
+    return () => { isCancelled = true; };
+  }, [key]);
+
+  return images;
+};
+
+/**
+ * Canvas viewer that overlays the generated maps on the original scan, with
+ * per-layer visibility and opacity, a swipe divider to compare against the
+ * unannotated scan, and wheel/drag zoom and pan.
+ */
+export const ScanViewer: React.FC<ScanViewerProps> = ({ baseUrl, layers, annotations = [], tool = 'pan', drawLabel = DEFAULT_DRAW_LABEL, onDraw }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<{ pointerId: number; x: number; y: number } | null>(null);
+  const [width, setWidth] = useState(0);
+  const [view, setView] = useState<ViewTransform>(IDENTITY_VIEW);
+  const [swipe, setSwipe] = useState(100);
+  const [settings, setSettings] = useState<Record<string, LayerSettings>>({});
+  const [draft, setDraft] = useState<AnnotationShape | null>(null);
+  const boxStartRef = useRef<[number, number] | null>(null);
+
+  const availableLayers = layers.filter((layer): layer is ViewerLayer & { url: string } => !!layer.url);
+  const images = useLoadedImages([baseUrl, ...availableLayers.map(layer => layer.url)]);
+  const base = images[baseUrl];
+  const height = base ? Math.round(width * base.naturalHeight / base.naturalWidth) : 0;
+
+  const layerSettings = (layer: ViewerLayer): LayerSettings =>
+    settings[layer.id] ?? { visible: layer.defaultVisible ?? true, opacity: 0.6 };
+  const updateLayer = (layer: ViewerLayer, update: Partial<LayerSettings>) =>
+    setSettings(prev => ({ ...prev, [layer.id]: { ...layerSettings(layer), ...update } }));
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) => setWidth(Math.floor(entry.contentRect.width)));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // A resize changes the pan limits; reset rather than carry an offset that no longer fits.
+  useEffect(() => {
+    setView(IDENTITY_VIEW);
+  }, [width]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    // React registers wheel listeners as passive, so page scrolling can only be suppressed natively.
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const bounds = canvas.getBoundingClientRect();
+      const factor = event.deltaY < 0 ? 1.15 : 1 / 1.15;
+      setView(prev => zoomAt(prev, factor, event.clientX - bounds.left, event.clientY - bounds.top, bounds.width, bounds.height));
+    };
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', handleWheel);
+  }, [base]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context || !base || width === 0) return;
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = Math.round(width * ratio);
+    canvas.height = Math.round(height * ratio);
+
+    const applyView = () => context.setTransform(ratio * view.zoom, 0, 0, ratio * view.zoom, ratio * view.x, ratio * view.y);
+    context.setTransform(1, 0, 0, 1, 0, 0);
+    context.clearRect(0, 0, canvas.width, canvas.height);
+    applyView();
+    context.drawImage(base, 0, 0, width, height);
+
+    // Overlays are clipped to the left of the swipe divider, in screen space so it stays put while panning.
+    const swipeX = width * swipe / 100;
+    context.save();
+    context.setTransform(ratio, 0, 0, ratio, 0, 0);
+    context.beginPath();
+    context.rect(0, 0, swipeX, height);
+    context.clip();
+    applyView();
+    availableLayers.forEach(layer => {
+      const { visible, opacity } = layerSettings(layer);
+      const overlay = images[layer.url];
+      if (!visible || !overlay) return;
+      context.globalAlpha = opacity;
+      // Generated maps don't always match the scan's resolution; stretch them onto it.
+      context.drawImage(overlay, 0, 0, width, height);
+    });
+    context.restore();
+
+    if (swipe < 100) {
+      context.setTransform(ratio, 0, 0, ratio, 0, 0);
+      context.fillStyle = 'rgba(255, 255, 255, 0.9)';
+      context.fillRect(swipeX - 1, 0, 2, height);
+    }
+
+    // Annotations sit above the swipe so they stay visible on both sides of it.
+    applyView();
+    context.lineWidth = 2 / view.zoom;
+    context.font = `bold ${12 / view.zoom}px sans-serif`;
+    const drawn: { shape: AnnotationShape; label: AnnotationLabel; number?: number }[] = annotations.map((annotation, index) => ({ ...annotation, number: index + 1 }));
+    if (draft) drawn.push({ shape: draft, label: drawLabel });
+    drawn.forEach(({ shape, label, number }) => {
+      const color = toCssColor(ANNOTATION_LABELS[label].color);
+      context.strokeStyle = color;
+      context.fillStyle = color;
+      context.setLineDash(number === undefined ? [6 / view.zoom, 4 / view.zoom] : []);
+      traceShape(context, shape, width, height, view.zoom);
+      if (shape.kind === 'point') {
+        context.fill();
+      } else {
+        if (shape.kind === 'polygon' && number !== undefined) context.closePath();
+        context.stroke();
+      }
+      if (number !== undefined) {
+        const [x, y] = shape.kind === 'polygon' ? shape.points[0] : [shape.x, shape.y];
+        context.fillText(String(number), x * width + 4 / view.zoom, y * height - 4 / view.zoom);
+      }
+    });
+    context.setLineDash([]);
+  });
+
+  // Switching tools abandons a half-drawn shape.
+  useEffect(() => {
+    setDraft(null);
+    boxStartRef.current = null;
+  }, [tool]);
+
+  const toImagePoint = (event: React.PointerEvent<HTMLCanvasElement> | React.MouseEvent<HTMLCanvasElement>): [number, number] => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    return [
+      clampFraction((event.clientX - bounds.left - view.x) / view.zoom / width),
+      clampFraction((event.clientY - bounds.top - view.y) / view.zoom / height),
+    ];
+  };
+
+  const finishPolygon = () => {
+    if (draft?.kind === 'polygon' && draft.points.length >= 3) onDraw?.(draft);
+    setDraft(null);
+  };
+
+  const zoomBy = (factor: number) => setView(prev => zoomAt(prev, factor, width / 2, height / 2, width, height));
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const [x, y] = toImagePoint(event);
+    if (tool === 'point') {
+      onDraw?.({ kind: 'point', x, y });
+    } else if (tool === 'box') {
+      boxStartRef.current = [x, y];
+      setDraft({ kind: 'box', x, y, width: 0, height: 0 });
+    } else if (tool === 'polygon') {
+      const points = draft?.kind === 'polygon' ? draft.points : [];
+      const last = points[points.length - 1];
+      // The two clicks of the double-click that closes a polygon land on the same spot; add that vertex once.
+      const isRepeat = last && Math.hypot((x - last[0]) * width, (y - last[1]) * height) * view.zoom < 4;
+      if (!isRepeat) setDraft({ kind: 'polygon', points: [...points, [x, y]] });
+    } else {
+      dragRef.current = { pointerId: event.pointerId, x: event.clientX, y: event.clientY };
+    }
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const start = boxStartRef.current;
+    if (tool === 'box' && start) {
+      const [x, y] = toImagePoint(event);
+      setDraft({ kind: 'box', x: Math.min(start[0], x), y: Math.min(start[1], y), width: Math.abs(x - start[0]), height: Math.abs(y - start[1]) });
+      return;
+    }
+    const drag = dragRef.current;
+    if (!drag || drag.pointerId !== event.pointerId) return;
+    const dx = event.clientX - drag.x;
+    const dy = event.clientY - drag.y;
+    dragRef.current = { ...drag, x: event.clientX, y: event.clientY };
+    setView(prev => clampView({ ...prev, x: prev.x + dx, y: prev.y + dy }, width, height));
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (dragRef.current?.pointerId === event.pointerId) dragRef.current = null;
+    if (tool === 'box' && boxStartRef.current) {
+      boxStartRef.current = null;
+      if (draft?.kind === 'box' && draft.width > MIN_BOX_SIZE && draft.height > MIN_BOX_SIZE) onDraw?.(draft);
+      setDraft(null);
+    }
+  };
+
+  const handleDoubleClick = () => {
+    if (tool === 'polygon') finishPolygon();
+    else if (tool === 'pan') setView(IDENTITY_VIEW);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLCanvasElement>) => {
+    if (event.key === 'Escape') setDraft(null);
+    if (event.key === 'Enter') finishPolygon();
+  };
+
+  const visibleLegends = availableLayers.filter(layer => layerSettings(layer).visible && images[layer.url]);
+  const buttonClass = 'px-2 py-1 text-sm font-semibold bg-slate-700 hover:bg-slate-600 text-cyan-300 rounded-md transition-colors duration-200';
+
+  return (
+    <div className="space-y-3">
+      <div ref={containerRef} className="relative w-full">
+        {base ? (
+          <canvas
+            ref={canvasRef}
+            style={{ width, height, touchAction: 'none' }}
+            tabIndex={0}
+            className={`rounded-lg bg-black focus:outline-none ${tool !== 'pan' ? 'cursor-crosshair' : view.zoom > 1 ? 'cursor-grab active:cursor-grabbing' : ''}`}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            onDoubleClick={handleDoubleClick}
+            onKeyDown={handleKeyDown}
+          />
+        ) : (
+          <img src={baseUrl} alt="Original OCT Scan" className="rounded-lg w-full object-contain" />
+        )}
+        <div className="absolute top-2 right-2 flex gap-1">
+          <button onClick={() => zoomBy(1.5)} className={buttonClass} title="Zoom in">+</button>
+          <button onClick={() => zoomBy(1 / 1.5)} className={buttonClass} title="Zoom out">−</button>
+          <button onClick={() => setView(IDENTITY_VIEW)} className={buttonClass} title="Reset view">{Math.round(view.zoom * 100)}%</button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-2 text-sm">
+        {availableLayers.map(layer => {
+          const { visible, opacity } = layerSettings(layer);
+          return (
+            <div key={layer.id} className="flex items-center gap-3">
+              <label className="flex items-center gap-2 w-44 text-slate-300">
+                <input
+                  type="checkbox"
+                  checked={visible}
+                  onChange={event => updateLayer(layer, { visible: event.target.checked })}
+                  className="accent-cyan-500"
+                />
+                {layer.label}
+              </label>
+              <input
+                type="range"
+                min={0}
+                max={100}
+                value={Math.round(opacity * 100)}
+                disabled={!visible}
+                onChange={event => updateLayer(layer, { opacity: Number(event.target.value) / 100 })}
+                className="flex-1 accent-cyan-500"
+                aria-label={`${layer.label} opacity`}
+              />
+              <span className="w-10 text-right text-slate-500">{Math.round(opacity * 100)}%</span>
+            </div>
+          );
+        })}
+        {availableLayers.length > 0 && (
+          <div className="flex items-center gap-3">
+            <span className="w-44 text-slate-300">Compare (swipe)</span>
+            <input
+              type="range"
+              min={0}
+              max={100}
+              value={swipe}
+              onChange={event => setSwipe(Number(event.target.value))}
+              className="flex-1 accent-cyan-500"
+              aria-label="Overlay swipe position"
+            />
+            <span className="w-10 text-right text-slate-500">{swipe}%</span>
+          </div>
+        )}
+      </div>
+
+      {visibleLegends.length > 0 && (
+        <div className="flex flex-wrap gap-x-6 gap-y-1 text-xs text-slate-400">
+          {visibleLegends.map(layer => (
+            <div key={layer.id} className="flex flex-wrap items-center gap-x-3 gap-y-1">
+              <span className="font-semibold text-slate-300">{layer.label}:</span>
+              {layer.legend.map(entry => (
+                <span key={entry.label} className="flex items-center gap-1">
+                  <span className="inline-block w-3 h-3 rounded-sm" style={{ backgroundColor: toCssColor(entry.color) }} />
+                  {entry.label}
+                </span>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import type { AnalysisSession } from '../types';
+import { TrashIcon } from './icons';
+
+interface SessionListProps {
+  sessions: AnalysisSession[];
+  activeSessionId: string | null;
+  onOpen: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+export const SessionList: React.FC<SessionListProps> = ({ sessions, activeSessionId, onOpen, onCreate, onRename, onDelete }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const startRename = (session: AnalysisSession) => {
+    setEditingId(session.id);
+    setDraftName(session.name);
+  };
+
+  const commitRename = () => {
+    if (editingId && draftName.trim()) {
+      onRename(editingId, draftName.trim());
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <div className="mt-6 border-t border-slate-700 pt-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-semibold text-cyan-400">Sessions</h3>
+        <button
+          onClick={onCreate}
+          className="px-3 py-1 text-sm font-semibold bg-slate-700 hover:bg-slate-600 text-cyan-300 rounded-lg transition-colors duration-200"
+        >
+          New
+        </button>
+      </div>
+      <ul className="space-y-2 max-h-64 overflow-y-auto">
+        {sessions.map(session => (
+          <li
+            key={session.id}
+            className={`p-2 rounded-lg border text-sm ${session.id === activeSessionId ? 'border-cyan-500 bg-slate-700/50' : 'border-slate-700 hover:bg-slate-700/30'}`}
+          >
+            {editingId === session.id ? (
+              <input
+                autoFocus
+                value={draftName}
+                onChange={(e) => setDraftName(e.target.value)}
+                onBlur={commitRename}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') commitRename();
+                  if (e.key === 'Escape') setEditingId(null);
+                }}
+                className="w-full p-1 bg-slate-900 border border-slate-600 rounded-md text-slate-200 focus:ring-2 focus:ring-cyan-500 focus:outline-none"
+              />
+            ) : (
+              <div className="flex items-center justify-between gap-2">
+                <button onClick={() => onOpen(session.id)} onDoubleClick={() => startRename(session)} className="text-left min-w-0 flex-1" title="Double-click to rename">
+                  <p className="font-semibold text-slate-200 truncate">{session.name}</p>
+                  <p className="text-xs text-slate-500">
+                    {session.imageCount} image{session.imageCount !== 1 ? 's' : ''} · {new Date(session.updatedAt).toLocaleString()}
+                  </p>
+                </button>
+                <button onClick={() => startRename(session)} className="text-xs text-slate-400 hover:text-cyan-300 transition-colors">
+                  Rename
+                </button>
+                <button onClick={() => onDelete(session.id)} className="text-slate-500 hover:text-red-400 transition-colors">
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
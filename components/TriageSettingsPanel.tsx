@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import type { ClinicalDiagnosis, TriageSettings } from '../types';
+import { CLINICAL_DIAGNOSES } from '../services/analysisResult';
+import { DEFAULT_TRIAGE_SETTINGS } from '../services/triage';
+
+interface TriageSettingsPanelProps {
+  settings: TriageSettings;
+  onChange: (settings: TriageSettings) => void;
+}
+
+export const TriageSettingsPanel: React.FC<TriageSettingsPanelProps> = ({ settings, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const setThreshold = (diagnosis: ClinicalDiagnosis, value: number) => {
+    const threshold = Math.min(100, Math.max(0, isNaN(value) ? 0 : value));
+    onChange({ ...settings, thresholds: { ...settings.thresholds, [diagnosis]: threshold } });
+  };
+
+  return (
+    <div className="mt-6 border-t border-slate-700 pt-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-cyan-400">Review Triage</h3>
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="px-3 py-1 text-sm font-semibold bg-slate-700 hover:bg-slate-600 text-cyan-300 rounded-lg transition-colors duration-200"
+        >
+          {isOpen ? 'Hide' : 'Edit'}
+        </button>
+      </div>
+      {isOpen && (
+        <div className="mt-3 space-y-3 text-sm text-slate-400">
+          <p className="text-xs text-slate-500">Results are flagged for review when their confidence is below the threshold for their diagnosis or when a rule below applies. Settings are saved with the session.</p>
+          <div className="space-y-1">
+            {CLINICAL_DIAGNOSES.map(diagnosis => (
+              <label key={diagnosis} className="flex items-center justify-between gap-2">
+                <span>{diagnosis}</span>
+                <span className="flex items-center gap-1">
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={settings.thresholds[diagnosis]}
+                    onChange={(e) => setThreshold(diagnosis, parseFloat(e.target.value))}
+                    className="w-16 p-1 bg-slate-900 border border-slate-600 rounded-md text-slate-200 text-center focus:ring-2 focus:ring-cyan-500 focus:outline-none"
+                  />
+                  %
+                </span>
+              </label>
+            ))}
+          </div>
+          <label className="flex items-center justify-between gap-2">
+            <span>Minimum ensemble agreement</span>
+            <span className="flex items-center gap-1">
+              <input
+                type="number"
+                min={0}
+                max={100}
+                value={settings.minAgreement}
+                onChange={(e) => onChange({ ...settings, minAgreement: Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)) })}
+                className="w-16 p-1 bg-slate-900 border border-slate-600 rounded-md text-slate-200 text-center focus:ring-2 focus:ring-cyan-500 focus:outline-none"
+              />
+              %
+            </span>
+          </label>
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={settings.flagFluid} onChange={(e) => onChange({ ...settings, flagFluid: e.target.checked })} />
+            Always flag any fluid finding
+          </label>
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={settings.flagAnomalyReport} onChange={(e) => onChange({ ...settings, flagAnomalyReport: e.target.checked })} />
+            Always flag when an anomaly report is present
+          </label>
+          <button
+            onClick={() => onChange(DEFAULT_TRIAGE_SETTINGS)}
+            className="text-xs text-slate-500 hover:text-cyan-300"
+          >
+            Reset to defaults
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,191 @@
+import React, { useState } from 'react';
+import type { AnalysisResult, AnalysisVersion } from '../types';
+import { formatConfidence } from '../services/analysisResult';
+import { ANNOTATION_LABELS } from '../services/annotations';
+import { formatVotes } from '../services/ensemble';
+import { getFindingRows } from '../services/findings';
+import { describePreprocessing } from '../services/preprocessing';
+import { formatProvenance } from '../services/promptRegistry';
+
+interface VersionHistoryProps {
+  versions: AnalysisVersion[];
+  activeVersionId?: string;
+  viewedVersionId?: string;
+  onView: (versionId: string) => void;
+  onRevert: (versionId: string) => void;
+}
+
+const VERSION_FIELDS: { key: keyof AnalysisResult; label: string }[] = [
+  { key: 'diagnosis', label: 'Diagnosis' },
+  { key: 'confidence', label: 'Confidence' },
+  { key: 'ensemble', label: 'Ensemble Vote' },
+  { key: 'reviewReason', label: 'Review Flag' },
+  { key: 'explanation', label: 'Clinical Explanation' },
+  { key: 'uncertaintyStatement', label: 'Uncertainty Assessment' },
+  { key: 'segmentationUncertaintyStatement', label: 'Segmentation Uncertainty' },
+  { key: 'findings', label: 'Structured Findings' },
+  { key: 'anomalyReport', label: 'Ancillary Findings' },
+  { key: 'explainability', label: 'Model Interpretability' },
+  { key: 'provenance', label: 'Prompts & Models' },
+  { key: 'preprocessing', label: 'Preprocessing' },
+];
+
+// Structured findings are diffed as one "label: value" line per finding so word diffs stay readable.
+const fieldText = (result: AnalysisResult, key: keyof AnalysisResult): string => {
+  if (key === 'findings') {
+    return result.findings ? getFindingRows(result.findings).map(row => `${row.label}: ${row.value}.`).join(' ') : '';
+  }
+  if (key === 'confidence') return formatConfidence(result.confidence);
+  if (key === 'ensemble') return result.ensemble ? `${formatConfidence(result.ensemble.agreement)} agreement: ${formatVotes(result.ensemble)}.` : '';
+  if (key === 'provenance') return result.provenance ? formatProvenance(result.provenance) : '';
+  if (key === 'preprocessing') return result.preprocessing ? describePreprocessing(result.preprocessing) : '';
+  return result[key] ?? '';
+};
+
+type DiffSegment = { type: 'same' | 'added' | 'removed'; text: string };
+
+// Word-level LCS diff; report fields are a few hundred words at most.
+const diffWords = (before: string, after: string): DiffSegment[] => {
+  const a = before.split(/(\s+)/);
+  const b = after.split(/(\s+)/);
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+  const segments: DiffSegment[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      segments.push({ type: 'same', text: a[i++] });
+      j++;
+    } else if (j < b.length && (i >= a.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      segments.push({ type: 'added', text: b[j++] });
+    } else {
+      segments.push({ type: 'removed', text: a[i++] });
+    }
+  }
+  return segments;
+};
+
+const versionLabel = (versions: AnalysisVersion[], version: AnalysisVersion) => `v${versions.indexOf(version) + 1}`;
+
+const DiffText: React.FC<{ segments: DiffSegment[]; side: 'before' | 'after' }> = ({ segments, side }) => (
+  <p className="text-sm text-slate-300 leading-relaxed">
+    {segments.map((segment, index) => {
+      if (segment.type === 'same') return <span key={index}>{segment.text}</span>;
+      if (side === 'before' && segment.type === 'removed') {
+        return <span key={index} className="bg-red-900/50 text-red-300 line-through">{segment.text}</span>;
+      }
+      if (side === 'after' && segment.type === 'added') {
+        return <span key={index} className="bg-green-900/50 text-green-300">{segment.text}</span>;
+      }
+      return null;
+    })}
+  </p>
+);
+
+const VersionDiff: React.FC<{ versions: AnalysisVersion[]; before: AnalysisVersion; after: AnalysisVersion }> = ({ versions, before, after }) => (
+  <div className="mt-4 overflow-x-auto">
+    <table className="w-full text-left border-collapse">
+      <thead>
+        <tr className="text-sm text-slate-400 border-b border-slate-700">
+          <th className="py-2 pr-4 w-40">Field</th>
+          <th className="py-2 pr-4">{versionLabel(versions, before)} · {new Date(before.createdAt).toLocaleString()}</th>
+          <th className="py-2">{versionLabel(versions, after)} · {new Date(after.createdAt).toLocaleString()}</th>
+        </tr>
+      </thead>
+      <tbody>
+        {VERSION_FIELDS.map(({ key, label }) => {
+          const beforeValue = fieldText(before.result, key);
+          const afterValue = fieldText(after.result, key);
+          const changed = beforeValue !== afterValue;
+          const segments = changed ? diffWords(beforeValue, afterValue) : [{ type: 'same' as const, text: beforeValue }];
+          return (
+            <tr key={key} className="border-b border-slate-700/50 align-top">
+              <td className="py-3 pr-4 text-sm font-semibold text-slate-200">
+                {label}
+                {changed && <span className="ml-2 text-xs font-normal text-amber-400">changed</span>}
+              </td>
+              <td className="py-3 pr-4"><DiffText segments={segments} side="before" /></td>
+              <td className="py-3"><DiffText segments={segments} side="after" /></td>
+            </tr>
+          );
+        })}
+        <tr className="align-top">
+          <td className="py-3 pr-4 text-sm font-semibold text-slate-200">Attention Heatmap</td>
+          <td className="py-3 pr-4">
+            {before.heatmapImageUrl && <img src={before.heatmapImageUrl} alt={`Heatmap ${versionLabel(versions, before)}`} className="rounded-lg w-full object-contain" />}
+          </td>
+          <td className="py-3">
+            {after.heatmapImageUrl && <img src={after.heatmapImageUrl} alt={`Heatmap ${versionLabel(versions, after)}`} className="rounded-lg w-full object-contain" />}
+          </td>
+        </tr>
+      </tbody>
+    </table>
+  </div>
+);
+
+export const VersionHistory: React.FC<VersionHistoryProps> = ({ versions, activeVersionId, viewedVersionId, onView, onRevert }) => {
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+
+  const toggleCompare = (versionId: string) => {
+    setCompareIds(prev => prev.includes(versionId)
+      ? prev.filter(id => id !== versionId)
+      : [...prev, versionId].slice(-2));
+  };
+
+  // Always diff older -> newer, whatever order the versions were ticked in.
+  const compared = versions.filter(version => compareIds.includes(version.id));
+
+  return (
+    <div className="my-6 p-4 bg-slate-900/50 rounded-lg border border-slate-700">
+      <h3 className="font-semibold text-slate-200 mb-3">Analysis History</h3>
+      <ol className="relative border-l border-slate-600 ml-2 space-y-4">
+        {versions.map((version, index) => {
+          const isActive = version.id === activeVersionId;
+          const isViewed = version.id === viewedVersionId;
+          return (
+            <li key={version.id} className="ml-4">
+              <span className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full border ${isActive ? 'bg-cyan-400 border-cyan-400' : 'bg-slate-700 border-slate-500'}`} />
+              <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <p className={`text-sm font-semibold ${isViewed ? 'text-cyan-300' : 'text-slate-200'}`}>
+                    v{index + 1} · {version.result.diagnosis} ({formatConfidence(version.result.confidence)})
+                    {isActive && <span className="ml-2 text-xs font-normal text-cyan-400">current</span>}
+                    {version.cachedAt && <span className="ml-2 text-xs font-normal text-slate-400">cached</span>}
+                  </p>
+                  <p className="text-xs text-slate-500">{new Date(version.createdAt).toLocaleString()}</p>
+                  <p className="text-sm text-slate-400 mt-1">
+                    {version.feedback ? `Feedback: "${version.feedback}"` : version.annotations ? 'Region feedback' : index === 0 ? 'Initial analysis' : 'Re-analysis'}
+                  </p>
+                  {version.annotations && (
+                    <p className="text-xs text-slate-500">
+                      Regions: {version.annotations.map(annotation => ANNOTATION_LABELS[annotation.label].name).join(', ')}
+                    </p>
+                  )}
+                </div>
+                <div className="flex items-center gap-3 flex-shrink-0 text-sm">
+                  <label className="flex items-center gap-1 text-slate-400">
+                    <input type="checkbox" checked={compareIds.includes(version.id)} onChange={() => toggleCompare(version.id)} />
+                    Compare
+                  </label>
+                  {!isViewed && (
+                    <button onClick={() => onView(version.id)} className="text-cyan-300 hover:text-cyan-200">View</button>
+                  )}
+                  {!isActive && (
+                    <button onClick={() => onRevert(version.id)} className="text-amber-300 hover:text-amber-200">Revert</button>
+                  )}
+                </div>
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+      {compared.length === 2 && <VersionDiff versions={versions} before={compared[0]} after={compared[1]} />}
+      {compared.length === 1 && <p className="mt-4 text-sm text-slate-500">Select one more version to compare.</p>}
+    </div>
+  );
+};
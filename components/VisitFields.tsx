@@ -0,0 +1,65 @@
+import React, { useEffect, useState } from 'react';
+import type { Eye, VisitInfo } from '../types';
+import { EYES, EYE_LABELS } from '../services/visits';
+
+interface VisitFieldsProps {
+  visit?: VisitInfo;
+  onChange: (visit?: VisitInfo) => void;
+}
+
+type VisitDraft = { patientId: string; eye: Eye | ''; visitDate: string };
+
+const toDraft = (visit?: VisitInfo): VisitDraft => ({ patientId: visit?.patientId ?? '', eye: visit?.eye ?? '', visitDate: visit?.visitDate ?? '' });
+
+/**
+ * Patient, eye and visit date of a scan. The visit is only saved once all three
+ * are filled in; clearing the patient ID removes the scan from the timeline.
+ */
+export const VisitFields: React.FC<VisitFieldsProps> = ({ visit, onChange }) => {
+  const [draft, setDraft] = useState<VisitDraft>(() => toDraft(visit));
+
+  useEffect(() => {
+    setDraft(toDraft(visit));
+  }, [visit]);
+
+  const update = (changes: Partial<VisitDraft>) => {
+    const next = { ...draft, ...changes };
+    setDraft(next);
+    const patientId = next.patientId.trim();
+    if (patientId && next.eye && next.visitDate) {
+      onChange({ patientId, eye: next.eye, visitDate: next.visitDate });
+    } else if (!patientId && visit) {
+      onChange(undefined);
+    }
+  };
+
+  const inputClass = 'p-1 bg-slate-900 border border-slate-600 rounded-md focus:ring-2 focus:ring-cyan-500 focus:outline-none text-slate-200';
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 text-xs text-slate-500 mb-4">
+      <label className="flex items-center gap-2">
+        Patient
+        <input
+          type="text"
+          value={draft.patientId}
+          onChange={(e) => setDraft({ ...draft, patientId: e.target.value })}
+          onBlur={(e) => update({ patientId: e.target.value })}
+          placeholder="Patient ID"
+          className={`${inputClass} w-32`}
+        />
+      </label>
+      <label className="flex items-center gap-2">
+        Eye
+        <select value={draft.eye} onChange={(e) => update({ eye: e.target.value as Eye | '' })} className={inputClass}>
+          <option value="">—</option>
+          {EYES.map(eye => <option key={eye} value={eye}>{EYE_LABELS[eye]}</option>)}
+        </select>
+      </label>
+      <label className="flex items-center gap-2">
+        Visit date
+        <input type="date" value={draft.visitDate} onChange={(e) => update({ visitDate: e.target.value })} className={inputClass} />
+      </label>
+      {!visit && (draft.patientId || draft.eye || draft.visitDate) && <span className="text-amber-400">Fill in all three to add this scan to the timeline.</span>}
+    </div>
+  );
+};
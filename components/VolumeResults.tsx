@@ -0,0 +1,131 @@
+import React, { useMemo, useState } from 'react';
+import type { AnalysisMapKind, AnalysisResult, AnalyzableImage, ClinicalDiagnosis, PreprocessingSettings, QualityGateMode, ScanAnnotation, ScanGrading, ScanVolume, VisitInfo, VolumeAggregation } from '../types';
+import { AnalysisResults, getDiagnosisColor } from './AnalysisResults';
+import { TrashIcon } from './icons';
+import { AGGREGATION_LABELS, aggregateVolume } from '../services/volumeAnalysis';
+
+interface VolumeResultsProps {
+  volume: ScanVolume;
+  slices: AnalyzableImage[];
+  onAggregationChange: (volumeId: string, aggregation: VolumeAggregation) => void;
+  onDeleteVolume: (volumeId: string) => void;
+  onRefine: (id: string, feedback: string) => void;
+  onRevert: (id: string, versionId: string) => void;
+  onCancel: (id: string) => void;
+  onRetry: (id: string) => void;
+  onDelete: (id: string) => void;
+  onExportPdf: (id: string) => void;
+  onGroundTruthChange: (id: string, groundTruth?: ClinicalDiagnosis) => void;
+  onAnnotationsChange: (id: string, annotations: ScanAnnotation[]) => void;
+  onVisitChange: (id: string, visit?: VisitInfo) => void;
+  onGradingChange: (id: string, grading?: ScanGrading) => void;
+  qualityMode: QualityGateMode;
+  onAnalyzeAnyway: (id: string) => void;
+  onForceRefresh: (id: string) => void;
+  onRetryMap: (id: string, map: AnalysisMapKind) => void;
+  onAsk: (id: string, question: string) => Promise<void>;
+  onClearChat: (id: string) => void;
+  preprocessingSettings: PreprocessingSettings;
+}
+
+const DIAGNOSIS_BAR_COLORS: Record<AnalysisResult['diagnosis'], string> = {
+  'CNV': 'bg-red-400',
+  'AMD': 'bg-purple-400',
+  'DME': 'bg-orange-400',
+  'Drusen': 'bg-yellow-400',
+  'Geographic Atrophy': 'bg-slate-400',
+  'Requires Further Review': 'bg-gray-400',
+  'Normal': 'bg-green-400',
+};
+
+export const VolumeResults: React.FC<VolumeResultsProps> = ({ volume, slices, onAggregationChange, onDeleteVolume, ...cardHandlers }) => {
+  const [sliceIndex, setSliceIndex] = useState(0);
+  const summary = useMemo(() => aggregateVolume(slices, volume.aggregation), [slices, volume.aggregation]);
+  const currentIndex = Math.min(sliceIndex, slices.length - 1);
+  const currentSlice = slices[currentIndex];
+  const flaggedCount = slices.filter(slice => slice.result?.reviewReason).length;
+
+  return (
+    <div className="bg-slate-800/60 rounded-2xl p-4 border border-cyan-900 space-y-4">
+      <div className="flex justify-between items-start gap-4 px-2">
+        <div className="min-w-0">
+          <h2 className="text-xl font-bold text-slate-100 truncate" title={volume.name}>{volume.name}</h2>
+          <p className="text-sm text-slate-400">
+            Volume · {summary.totalSlices} B-scan{summary.totalSlices !== 1 ? 's' : ''} · {summary.analyzedSlices} analyzed
+            {flaggedCount > 0 && <span className="text-amber-400"> · {flaggedCount} flagged for review</span>}
+          </p>
+        </div>
+        <button onClick={() => onDeleteVolume(volume.id)} className="text-slate-500 hover:text-red-400 transition-colors" title="Delete volume">
+          <TrashIcon className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="px-2">
+        <div className="flex flex-col md:flex-row md:items-center gap-4 mb-4">
+          {summary.diagnosis ? (
+            <div className={`text-lg font-bold px-4 py-2 rounded-lg border ${getDiagnosisColor(summary.diagnosis)}`}>
+              Volume Diagnosis: {summary.diagnosis}
+            </div>
+          ) : (
+            <div className="text-slate-400">No slices analyzed yet.</div>
+          )}
+          {summary.confidence !== undefined && (
+            <div className="text-lg font-semibold text-slate-300">
+              Mean confidence: <span className="text-cyan-400">{summary.confidence.toFixed(1)}%</span>
+            </div>
+          )}
+          <label className="md:ml-auto flex items-center gap-2 text-sm text-slate-400">
+            Aggregation
+            <select
+              value={volume.aggregation}
+              onChange={(e) => onAggregationChange(volume.id, e.target.value as VolumeAggregation)}
+              className="p-1 bg-slate-900 border border-slate-600 rounded-md text-slate-200 focus:ring-2 focus:ring-cyan-500 focus:outline-none"
+            >
+              {(Object.keys(AGGREGATION_LABELS) as VolumeAggregation[]).map(key => (
+                <option key={key} value={key}>{AGGREGATION_LABELS[key]}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        {summary.analyzedSlices > 0 && (
+          <>
+            <div className="flex flex-wrap gap-2 mb-3 text-xs">
+              {(Object.entries(summary.distribution) as [AnalysisResult['diagnosis'], number][]).map(([diagnosis, count]) => (
+                <span key={diagnosis} className={`px-2 py-1 rounded-md border ${getDiagnosisColor(diagnosis)}`}>
+                  {diagnosis}: {count}
+                </span>
+              ))}
+              {summary.keySliceIndex !== undefined && (
+                <button onClick={() => setSliceIndex(summary.keySliceIndex!)} className="px-2 py-1 text-cyan-300 hover:text-cyan-200">
+                  Jump to key slice ({summary.keySliceIndex + 1})
+                </button>
+              )}
+            </div>
+            {/* Per-slice confidence strip: bar height is confidence, color is the slice diagnosis. */}
+            <div className="flex items-end gap-px h-12 bg-slate-900/50 rounded-md p-1" aria-label="Per-slice confidence">
+              {summary.slices.map(finding => (
+                <button
+                  key={finding.imageId}
+                  onClick={() => setSliceIndex(finding.sliceIndex)}
+                  title={`Slice ${finding.sliceIndex + 1}: ${finding.diagnosis ?? 'not analyzed'}${finding.confidence !== undefined ? ` (${finding.confidence}%)` : ''}`}
+                  className={`flex-1 min-w-[2px] rounded-sm ${finding.diagnosis ? DIAGNOSIS_BAR_COLORS[finding.diagnosis] : 'bg-slate-700'} ${finding.sliceIndex === currentIndex ? 'ring-1 ring-white' : 'opacity-80 hover:opacity-100'}`}
+                  style={{ height: `${Math.max(8, finding.confidence ?? 8)}%` }}
+                />
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+
+      {currentSlice && (
+        <AnalysisResults
+          key={currentSlice.id}
+          imageState={currentSlice}
+          sliceNavigation={{ index: currentIndex, count: slices.length, onChange: setSliceIndex }}
+          {...cardHandlers}
+        />
+      )}
+    </div>
+  );
+};
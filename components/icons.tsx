@@ -64,3 +64,9 @@ export const TrashIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
         <line x1="14" y1="11" x2="14" y2="17" />
     </svg>
 );
+
+export const ChatIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+    <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" {...props}>
+        <path d="M21 15a2 2 0 0 1-2 2H7l-4 4V5a2 2 0 0 1 2-2h14a2 2 0 0 1 2 2z" />
+    </svg>
+);
@@ -0,0 +1,25 @@
+// Settings of the analysis server. They are read from the environment, with
+// .env.local as a fallback so one file configures both the app and the server.
+
+try {
+  process.loadEnvFile('.env.local');
+} catch {
+  // No .env.local; the environment alone configures the server.
+}
+
+const parsePositiveInt = (value: string | undefined, fallback: number): number => {
+  const parsed = parseInt(value ?? '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+export const serverConfig = {
+  port: parsePositiveInt(process.env.PORT, 8787),
+  /** Requests per client per minute, over all endpoints. */
+  rateLimitPerMinute: parsePositiveInt(process.env.RATE_LIMIT_PER_MINUTE, 30),
+  /** Largest accepted request body. Images travel as base64, a third larger than the file. */
+  maxRequestBytes: parsePositiveInt(process.env.MAX_REQUEST_MB, 25) * 1024 * 1024,
+  /** Behind a reverse proxy, clients are told apart by X-Forwarded-For instead of the socket address. */
+  trustProxy: process.env.TRUST_PROXY === 'true',
+  /** Built app served next to the API; `npm run build` writes it. */
+  staticDir: 'dist',
+};
@@ -0,0 +1,235 @@
+import { createReadStream } from 'node:fs';
+import { stat } from 'node:fs/promises';
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import path from 'node:path';
+import { generateStageMap, runAnalysisStages } from '../services/analysisPipeline';
+import type { PipelineOptions, ProviderCallOptions } from '../services/analysisProvider';
+import { AnalysisError, classifyApiError, parseApiError, type ApiErrorKind } from '../services/apiErrors';
+import { geminiProvider } from '../services/geminiService';
+import {
+  API_ROUTES, type AnalysisStreamEvent, type ApiErrorBody, type ApiErrorResponse, type ChatResponse, type CompareResponse, type MapResponse,
+  type ModelCallsBody, type QualityResponse,
+} from '../services/serverApi';
+import type { ModelCall } from '../types';
+import { serverConfig } from './config';
+import { createRateLimiter } from './rateLimit';
+import { parseAnalyzeRequest, parseChatRequest, parseCompareRequest, parseMapRequest, parseQualityRequest, parseRefineRequest } from './requests';
+
+// Analysis server. It holds the Gemini API key and makes every model call for
+// the app: analyses and refinements stream back stage by stage; single maps,
+// comparisons, quality checks and chat replies return JSON. Each response lists
+// the model calls made for it, so the app can audit them. It also serves the
+// built app, so one process is enough in production.
+
+const STATUS_BY_KIND: Record<ApiErrorKind, number> = {
+  'missing-key': 500,
+  'invalid-key': 500,
+  quota: 429,
+  safety: 422,
+  server: 502,
+  timeout: 504,
+  cancelled: 499,
+  validation: 502,
+  'bad-request': 400,
+  unknown: 500,
+};
+
+const MIME_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.ico': 'image/x-icon',
+};
+
+const checkRateLimit = createRateLimiter({ limit: serverConfig.rateLimitPerMinute, windowMs: 60_000 });
+
+const toErrorBody = (error: unknown): ApiErrorBody => ({ kind: classifyApiError(error), message: parseApiError(error) });
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const sendError = (res: ServerResponse, status: number, error: unknown, headers?: Record<string, string>, calls?: ModelCall[]) => {
+  const body: ApiErrorResponse = { error: toErrorBody(error), calls };
+  sendJson(res, status, body, headers);
+};
+
+const clientKey = (req: IncomingMessage) => {
+  const forwarded = req.headers['x-forwarded-for'];
+  const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0].trim();
+  return (serverConfig.trustProxy && first) || req.socket.remoteAddress || 'unknown';
+};
+
+/** Resolves to null as soon as the body exceeds the size limit; the rest is discarded. */
+const readBody = (req: IncomingMessage): Promise<Buffer | null> => new Promise((resolve, reject) => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  req.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > serverConfig.maxRequestBytes) {
+      chunks.length = 0;
+      resolve(null);
+    } else {
+      chunks.push(chunk);
+    }
+  });
+  req.on('end', () => resolve(Buffer.concat(chunks)));
+  req.on('error', reject);
+});
+
+const parseJson = (body: Buffer): unknown => {
+  try {
+    return JSON.parse(body.toString('utf8'));
+  } catch {
+    throw new AnalysisError('Invalid Request. The body is not valid JSON.', 'bad-request');
+  }
+};
+
+// A client that disconnects, for example by cancelling the analysis, stops the model calls made for it.
+const abortOnDisconnect = (res: ServerResponse) => {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort(new AnalysisError('Analysis was cancelled.', 'cancelled'));
+  });
+  return controller.signal;
+};
+
+// Model calls are streamed as they finish, like the stages.
+const streamAnalysis = async (res: ServerResponse, image: File, options: PipelineOptions) => {
+  res.writeHead(200, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache' });
+  const write = (event: AnalysisStreamEvent) => res.write(`${JSON.stringify(event)}\n`);
+  try {
+    await runAnalysisStages(geminiProvider, image, { ...options, onModelCall: call => write({ type: 'modelCall', call }) }, write);
+    write({ type: 'done' });
+  } catch (err) {
+    if (!options.signal?.aborted) {
+      console.error('Analysis failed:', err);
+      write({ type: 'error', error: toErrorBody(err) });
+    }
+  }
+  res.end();
+};
+
+type CallContext = Required<Pick<ProviderCallOptions, 'signal' | 'onModelCall'>>;
+
+/**
+ * Validates a request body, then returns what answers it; a body that fails
+ * validation is a 400. JSON routes resolve to their response, which is sent
+ * with the model calls made for it; streaming routes write their own.
+ */
+type Route = (body: unknown) => (res: ServerResponse, context: CallContext) => Promise<object | void>;
+
+const routes: Record<string, Route> = {
+  [API_ROUTES.analyze]: body => {
+    const { image, options } = parseAnalyzeRequest(body);
+    return (res, context) => streamAnalysis(res, image, { ...options, ...context });
+  },
+  [API_ROUTES.refine]: body => {
+    const { image, options } = parseRefineRequest(body);
+    return (res, context) => streamAnalysis(res, image, { ...options, ...context });
+  },
+  [API_ROUTES.map]: body => {
+    const { image, map, options } = parseMapRequest(body);
+    return async (_res, context): Promise<MapResponse> => ({ imageBase64: await generateStageMap(geminiProvider, image, map, { ...options, ...context }) });
+  },
+  [API_ROUTES.compare]: body => {
+    const { baseline, followUp, prompts } = parseCompareRequest(body);
+    return async (_res, context): Promise<CompareResponse> => ({ assessment: await geminiProvider.compareVisits(baseline, followUp, { prompts, ...context }) });
+  },
+  [API_ROUTES.quality]: body => {
+    const { image, prompts } = parseQualityRequest(body);
+    return async (_res, context): Promise<QualityResponse> => ({ check: await geminiProvider.checkQuality(image, { prompts, ...context }) });
+  },
+  [API_ROUTES.chat]: body => {
+    const { image, result, history, prompts } = parseChatRequest(body);
+    return async (_res, context): Promise<ChatResponse> => ({ reply: await geminiProvider.chat(image, result, history, { prompts, ...context }) });
+  },
+};
+
+const handleApi = async (req: IncomingMessage, res: ServerResponse, route: Route) => {
+  if (req.method !== 'POST') {
+    return sendError(res, 405, new AnalysisError('Method Not Allowed. Use POST.', 'bad-request'), { Allow: 'POST' });
+  }
+  const { allowed, retryAfterSeconds } = checkRateLimit(clientKey(req));
+  if (!allowed) {
+    const error = new AnalysisError(`Too Many Requests. The analysis server accepts ${serverConfig.rateLimitPerMinute} requests per minute; try again in ${retryAfterSeconds} s.`, 'quota');
+    return sendError(res, 429, error, { 'Retry-After': String(retryAfterSeconds) });
+  }
+  const tooLarge = new AnalysisError(`Request Too Large. The analysis server accepts requests of up to ${serverConfig.maxRequestBytes / 1024 / 1024} MB.`, 'bad-request');
+  if (Number(req.headers['content-length']) > serverConfig.maxRequestBytes) {
+    return sendError(res, 413, tooLarge, { Connection: 'close' });
+  }
+  const body = await readBody(req);
+  if (!body) return sendError(res, 413, tooLarge, { Connection: 'close' });
+
+  let respond: ReturnType<Route>;
+  try {
+    respond = route(parseJson(body));
+  } catch (err) {
+    return sendError(res, 400, err);
+  }
+  const signal = abortOnDisconnect(res);
+  const calls: ModelCall[] = [];
+  try {
+    const response = await respond(res, { signal, onModelCall: call => calls.push(call) });
+    if (response) {
+      const body: ModelCallsBody = { ...response, calls };
+      sendJson(res, 200, body);
+    }
+  } catch (err) {
+    if (signal.aborted) return;
+    console.error(`Request to ${req.url} failed:`, err);
+    sendError(res, STATUS_BY_KIND[classifyApiError(err)], err, undefined, calls);
+  }
+};
+
+const isFile = (file: string) => stat(file).then(stats => stats.isFile(), () => false);
+
+const decodePath = (pathname: string) => {
+  try {
+    return decodeURIComponent(pathname);
+  } catch (err) {
+    if (err instanceof URIError) return undefined;
+    throw err;
+  }
+};
+
+// Paths that name no file in the build, including any outside it, get index.html so the app can load.
+const serveStatic = async (pathname: string, res: ServerResponse) => {
+  const decoded = decodePath(pathname);
+  if (decoded === undefined) return sendError(res, 400, new AnalysisError('Invalid Request. The path is not valid URL encoding.', 'bad-request'));
+  const root = path.resolve(serverConfig.staticDir);
+  const requested = path.resolve(root, `.${decoded}`);
+  const file = requested.startsWith(root + path.sep) && await isFile(requested) ? requested : path.join(root, 'index.html');
+  if (!await isFile(file)) {
+    return sendError(res, 404, new AnalysisError('Not Found. Run `npm run build` to serve the app from the analysis server.', 'unknown'));
+  }
+  res.writeHead(200, { 'Content-Type': MIME_TYPES[path.extname(file)] ?? 'application/octet-stream' });
+  createReadStream(file).pipe(res);
+};
+
+const server = createServer(async (req, res) => {
+  try {
+    // API routes are plain ASCII, so only static paths are decoded.
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+    const route = routes[pathname];
+    if (route) return await handleApi(req, res, route);
+    if (pathname.startsWith('/api/')) return sendError(res, 404, new AnalysisError('Not Found.', 'unknown'));
+    await serveStatic(pathname, res);
+  } catch (err) {
+    console.error('Request failed:', err);
+    if (!res.headersSent) sendError(res, 500, err);
+    else res.end();
+  }
+});
+
+server.listen(serverConfig.port, () => {
+  console.log(`Analysis server listening on http://localhost:${serverConfig.port}`);
+  if (!process.env.GEMINI_API_KEY) {
+    console.warn('GEMINI_API_KEY is not set; analyses will fail until it is configured.');
+  }
+});
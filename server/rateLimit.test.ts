@@ -0,0 +1,39 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createRateLimiter } from './rateLimit';
+
+describe('createRateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('refuses requests over the limit until the oldest leaves the window', () => {
+    const check = createRateLimiter({ limit: 2, windowMs: 60_000 });
+    expect(check('a').allowed).toBe(true);
+    vi.advanceTimersByTime(10_000);
+    expect(check('a').allowed).toBe(true);
+    expect(check('a')).toEqual({ allowed: false, retryAfterSeconds: 50 });
+    vi.advanceTimersByTime(50_000);
+    expect(check('a').allowed).toBe(true);
+    expect(check('a').allowed).toBe(false);
+  });
+
+  it('counts each client separately', () => {
+    const check = createRateLimiter({ limit: 1, windowMs: 60_000 });
+    expect(check('a').allowed).toBe(true);
+    expect(check('b').allowed).toBe(true);
+    expect(check('a').allowed).toBe(false);
+  });
+
+  it('does not count refused requests', () => {
+    const check = createRateLimiter({ limit: 1, windowMs: 60_000 });
+    check('a');
+    vi.advanceTimersByTime(30_000);
+    check('a');
+    vi.advanceTimersByTime(30_000);
+    expect(check('a').allowed).toBe(true);
+  });
+});
@@ -0,0 +1,30 @@
+// Sliding-window rate limiter, kept in memory per client key.
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  /** When refused, how long until the oldest request leaves the window. */
+  retryAfterSeconds: number;
+}
+
+export const createRateLimiter = ({ limit, windowMs }: { limit: number; windowMs: number }) => {
+  const requests = new Map<string, number[]>();
+
+  // Forget clients whose requests have all left the window, so the map does not grow without bound.
+  const prune = (now: number) => {
+    requests.forEach((times, key) => {
+      if (times[times.length - 1] <= now - windowMs) requests.delete(key);
+    });
+  };
+  setInterval(() => prune(Date.now()), windowMs).unref();
+
+  return (key: string): RateLimitDecision => {
+    const now = Date.now();
+    const recent = (requests.get(key) ?? []).filter(time => time > now - windowMs);
+    if (recent.length >= limit) {
+      requests.set(key, recent);
+      return { allowed: false, retryAfterSeconds: Math.max(1, Math.ceil((recent[0] + windowMs - now) / 1000)) };
+    }
+    requests.set(key, [...recent, now]);
+    return { allowed: true, retryAfterSeconds: 0 };
+  };
+};
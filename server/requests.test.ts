@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PROMPTS } from '../services/promptRegistry';
+import { MAX_FEEDBACK_LENGTH } from '../services/serverApi';
+import { parseAnalyzeRequest, parseChatRequest, parseCompareRequest, parseMapRequest, parseRefineRequest } from './requests';
+
+const image = { name: 'scan.png', mimeType: 'image/png', data: Buffer.from('pixels').toString('base64') };
+
+const report = {
+  diagnosis: 'Normal',
+  confidence: 97,
+  explanation: 'Normal foveal contour.',
+  explainability: 'Intact retinal layers.',
+  uncertaintyStatement: 'Features are unambiguous.',
+  segmentationUncertaintyStatement: 'Layer boundaries are clear.',
+};
+
+const box = { id: 'r1', label: 'fluid', shape: { kind: 'box', x: 0.1, y: 0.1, width: 0.2, height: 0.2 } };
+
+const expectRefusal = (parse: () => unknown, message: string) => {
+  expect(parse).toThrow(expect.objectContaining({ kind: 'bad-request', message: `Invalid Request. ${message}` }));
+};
+
+describe('parseAnalyzeRequest', () => {
+  it('decodes the image and keeps the prompts and ensemble', async () => {
+    const { image: file, options } = parseAnalyzeRequest({ image, prompts: DEFAULT_PROMPTS, ensemble: { size: 3, models: [] } });
+    expect(file).toMatchObject({ name: 'scan.png', type: 'image/png' });
+    expect(await file.text()).toBe('pixels');
+    expect(options).toEqual({ prompts: DEFAULT_PROMPTS, ensemble: { size: 3, models: [] } });
+  });
+
+  it('refuses a body that is not an object', () => {
+    expectRefusal(() => parseAnalyzeRequest([]), 'The request body must be an object.');
+  });
+
+  it('refuses an image that is not one', () => {
+    expectRefusal(() => parseAnalyzeRequest({ image: { ...image, mimeType: 'text/html' } }), 'image must be an image.');
+    expectRefusal(() => parseAnalyzeRequest({ image: { ...image, data: '' } }), 'image must have a name and base64 data.');
+  });
+
+  it('refuses models the app does not offer and oversized prompts', () => {
+    const tasks = DEFAULT_PROMPTS.tasks;
+    expect(() => parseAnalyzeRequest({ image, prompts: { ...DEFAULT_PROMPTS, tasks: { ...tasks, classification: { ...tasks.classification, model: 'other-model' } } } }))
+      .toThrow(/classification must use one of/);
+    expect(() => parseAnalyzeRequest({ image, prompts: { ...DEFAULT_PROMPTS, tasks: { ...tasks, comparison: { ...tasks.comparison, prompt: 'x'.repeat(20_001) } } } }))
+      .toThrow(/the comparison prompt must be text of at most/);
+  });
+
+  it('refuses an ensemble outside the allowed size', () => {
+    expect(() => parseAnalyzeRequest({ image, ensemble: { size: 8, models: [] } })).toThrow(/ensemble.size must be a whole number/);
+  });
+});
+
+describe('parseRefineRequest', () => {
+  it('keeps trimmed feedback and well-formed regions', () => {
+    const { options } = parseRefineRequest({ image, refinementFeedback: '  Look again at the fovea. ', annotations: [box, { id: 'r2', label: 'constructor', shape: box.shape }] });
+    expect(options).toMatchObject({ refinementFeedback: 'Look again at the fovea.', annotations: [box] });
+  });
+
+  it('refuses a refinement with nothing to refine by', () => {
+    expectRefusal(() => parseRefineRequest({ image, refinementFeedback: '  ' }), 'A refinement needs feedback or annotated regions.');
+  });
+
+  it('refuses feedback longer than the app allows', () => {
+    expectRefusal(() => parseRefineRequest({ image, refinementFeedback: 'x'.repeat(MAX_FEEDBACK_LENGTH + 1) }), `refinementFeedback must be at most ${MAX_FEEDBACK_LENGTH} characters.`);
+  });
+});
+
+describe('parseMapRequest', () => {
+  it('accepts the known maps only', () => {
+    expect(parseMapRequest({ image, map: 'heatmap' }).map).toBe('heatmap');
+    expect(() => parseMapRequest({ image, map: 'fundus' })).toThrow(/map must be one of/);
+  });
+});
+
+describe('parseCompareRequest', () => {
+  it('drops a report that does not validate', () => {
+    const { baseline, followUp } = parseCompareRequest({
+      baseline: { image, visitDate: '2024-01-01', result: report },
+      followUp: { image, visitDate: '2024-06-01', result: { diagnosis: 'Normal' } },
+    });
+    expect(baseline.result?.diagnosis).toBe('Normal');
+    expect(followUp.result).toBeUndefined();
+  });
+
+  it('refuses a visit without a date', () => {
+    expectRefusal(() => parseCompareRequest({ baseline: { image }, followUp: { image, visitDate: '2024-06-01' } }), 'baseline.visitDate must be a date.');
+  });
+});
+
+describe('parseChatRequest', () => {
+  it('keeps a conversation that ends with a question', () => {
+    const history = [{ role: 'user', text: 'Is there fluid?' }, { role: 'assistant', text: 'No.' }, { role: 'user', text: 'Drusen?' }];
+    expect(parseChatRequest({ image, result: report, history }).history).toEqual(history);
+  });
+
+  it('refuses a conversation that does not end with a question', () => {
+    expectRefusal(() => parseChatRequest({ image, result: report, history: [{ role: 'user', text: 'Hi' }, { role: 'assistant', text: 'Hello' }] }),
+      'history must start and end with a question.');
+  });
+
+  it('refuses a chat without a valid report', () => {
+    expectRefusal(() => parseChatRequest({ image, result: {}, history: [{ role: 'user', text: 'Hi' }] }), 'result must be the report the conversation is about.');
+  });
+});
@@ -0,0 +1,128 @@
+import type { AnalysisMapKind, EnsembleSettings, PromptTask } from '../types';
+import type { ChatTurn, PipelineOptions, ProviderCallOptions, VisitScan } from '../services/analysisProvider';
+import { ANALYSIS_MAPS } from '../services/analysisMaps';
+import { validateAnalysisResult } from '../services/analysisResult';
+import { sanitizeAnnotations } from '../services/annotations';
+import { AnalysisError } from '../services/apiErrors';
+import { MAX_ENSEMBLE_SIZE } from '../services/ensemble';
+import { PROMPT_TASKS, TASK_MODELS, type ResolvedPrompts } from '../services/promptRegistry';
+import { MAX_CHAT_MESSAGE_LENGTH, MAX_CHAT_TURNS, MAX_FEEDBACK_LENGTH } from '../services/serverApi';
+
+// Validation of request bodies. The server holds the API key, so it only runs
+// the models the app offers and bounds every prompt, instead of passing along
+// whatever a client sends. A rejected body throws with kind 'bad-request'.
+
+const MAX_PROMPT_LENGTH = 20_000;
+
+type Body = Record<string, unknown>;
+
+const reject = (message: string): never => {
+  throw new AnalysisError(`Invalid Request. ${message}`, 'bad-request');
+};
+
+const asObject = (value: unknown, field: string): Body =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) ? value as Body : reject(`${field} must be an object.`);
+
+const decodeImage = (value: unknown, field = 'image'): File => {
+  const { name, mimeType, data } = asObject(value, field);
+  if (typeof name !== 'string' || typeof data !== 'string' || !data) return reject(`${field} must have a name and base64 data.`);
+  if (typeof mimeType !== 'string' || !mimeType.startsWith('image/')) return reject(`${field} must be an image.`);
+  return new File([Buffer.from(data, 'base64')], name, { type: mimeType });
+};
+
+const parsePrompts = (value: unknown): ResolvedPrompts | undefined => {
+  if (value === undefined) return undefined;
+  const { presetId, presetName, version, tasks } = asObject(value, 'prompts');
+  if (typeof presetId !== 'string' || typeof presetName !== 'string' || typeof version !== 'number') {
+    return reject('prompts must name their preset and version.');
+  }
+  const taskConfigs = asObject(tasks, 'prompts.tasks');
+  const parsed = Object.fromEntries(PROMPT_TASKS.map((task: PromptTask) => {
+    const { model, prompt } = asObject(taskConfigs[task], `prompts.tasks.${task}`);
+    if (typeof model !== 'string' || !TASK_MODELS[task].includes(model)) return reject(`${task} must use one of: ${TASK_MODELS[task].join(', ')}.`);
+    if (typeof prompt !== 'string' || prompt.length > MAX_PROMPT_LENGTH) return reject(`the ${task} prompt must be text of at most ${MAX_PROMPT_LENGTH} characters.`);
+    return [task, { model, prompt }];
+  })) as ResolvedPrompts['tasks'];
+  return { presetId, presetName, version, tasks: parsed };
+};
+
+const parseEnsemble = (value: unknown): EnsembleSettings | undefined => {
+  if (value === undefined) return undefined;
+  const { size, models } = asObject(value, 'ensemble');
+  if (typeof size !== 'number' || !Number.isInteger(size) || size < 1 || size > MAX_ENSEMBLE_SIZE) {
+    return reject(`ensemble.size must be a whole number from 1 to ${MAX_ENSEMBLE_SIZE}.`);
+  }
+  if (!Array.isArray(models) || models.some(model => !TASK_MODELS.classification.includes(model))) {
+    return reject(`ensemble.models must be chosen from: ${TASK_MODELS.classification.join(', ')}.`);
+  }
+  return { size, models };
+};
+
+export const parseAnalyzeRequest = (raw: unknown): { image: File; options: PipelineOptions } => {
+  const body = asObject(raw, 'The request body');
+  return { image: decodeImage(body.image), options: { prompts: parsePrompts(body.prompts), ensemble: parseEnsemble(body.ensemble) } };
+};
+
+const parseFeedback = (body: Body): Pick<ProviderCallOptions, 'refinementFeedback' | 'annotations'> => {
+  const { refinementFeedback } = body;
+  const feedback = typeof refinementFeedback === 'string' ? refinementFeedback.trim()
+    : refinementFeedback === undefined ? '' : reject('refinementFeedback must be text.');
+  if (feedback.length > MAX_FEEDBACK_LENGTH) return reject(`refinementFeedback must be at most ${MAX_FEEDBACK_LENGTH} characters.`);
+  return { refinementFeedback: feedback || undefined, annotations: sanitizeAnnotations(body.annotations) };
+};
+
+export const parseRefineRequest = (raw: unknown): { image: File; options: PipelineOptions } => {
+  const { image, options } = parseAnalyzeRequest(raw);
+  const feedback = parseFeedback(raw as Body);
+  if (!feedback.refinementFeedback && !feedback.annotations) return reject('A refinement needs feedback or annotated regions.');
+  return { image, options: { ...options, ...feedback } };
+};
+
+export const parseMapRequest = (raw: unknown): { image: File; map: AnalysisMapKind; options: ProviderCallOptions } => {
+  const body = asObject(raw, 'The request body');
+  const map = ANALYSIS_MAPS.find(kind => kind === body.map) ?? reject(`map must be one of: ${ANALYSIS_MAPS.join(', ')}.`);
+  return { image: decodeImage(body.image), map, options: { prompts: parsePrompts(body.prompts), ...parseFeedback(body) } };
+};
+
+const parseVisit = (value: unknown, field: string): VisitScan => {
+  const { image, visitDate, result } = asObject(value, field);
+  if (typeof visitDate !== 'string' || !visitDate) return reject(`${field}.visitDate must be a date.`);
+  return {
+    image: decodeImage(image, `${field}.image`),
+    visitDate,
+    // A report that does not validate is left out; the comparison then works from the images alone.
+    result: validateAnalysisResult(result, { requireFindings: false }).result,
+  };
+};
+
+export const parseCompareRequest = (raw: unknown) => {
+  const body = asObject(raw, 'The request body');
+  return { baseline: parseVisit(body.baseline, 'baseline'), followUp: parseVisit(body.followUp, 'followUp'), prompts: parsePrompts(body.prompts) };
+};
+
+export const parseQualityRequest = (raw: unknown) => {
+  const body = asObject(raw, 'The request body');
+  return { image: decodeImage(body.image), prompts: parsePrompts(body.prompts) };
+};
+
+const parseChatTurn = (value: unknown, index: number): ChatTurn => {
+  const { role, text } = asObject(value, `history[${index}]`);
+  if (role !== 'user' && role !== 'assistant') return reject(`history[${index}].role must be user or assistant.`);
+  if (typeof text !== 'string' || !text.trim() || text.length > MAX_CHAT_MESSAGE_LENGTH) {
+    return reject(`history[${index}].text must be text of at most ${MAX_CHAT_MESSAGE_LENGTH} characters.`);
+  }
+  return { role, text };
+};
+
+export const parseChatRequest = (raw: unknown) => {
+  const body = asObject(raw, 'The request body');
+  const { result } = validateAnalysisResult(body.result, { requireFindings: false });
+  if (!result) return reject('result must be the report the conversation is about.');
+  const { history } = body;
+  if (!Array.isArray(history) || history.length === 0 || history.length > MAX_CHAT_TURNS) {
+    return reject(`history must hold from 1 to ${MAX_CHAT_TURNS} messages.`);
+  }
+  const turns = history.map(parseChatTurn);
+  if (turns[0].role !== 'user' || turns[turns.length - 1].role !== 'user') return reject('history must start and end with a question.');
+  return { image: decodeImage(body.image), result, history: turns, prompts: parsePrompts(body.prompts) };
+};
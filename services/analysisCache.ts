@@ -0,0 +1,86 @@
+import type { EnsembleSettings, PreprocessingSettings } from '../types';
+import type { AnalysisOutput, AnalysisProvider } from './analysisProvider';
+import { isEnsembleEnabled } from './ensemble';
+import { hashBlob } from './imageData';
+import { createDatabaseOpener, requestToPromise, transactionDone } from './indexedDb';
+import type { ResolvedPrompts } from './promptRegistry';
+
+// Local cache of first analyses, shared by all sessions. An entry is keyed by
+// the scan's content hash plus everything that shapes the output: provider,
+// prompt version and text, models, ensemble and preprocessing. Refinements
+// depend on clinician feedback and are never cached.
+
+const DB_NAME = 'oct-analyzer-cache';
+const DB_VERSION = 1;
+const ENTRIES = 'entries';
+
+/** Beyond this many entries the oldest are evicted; each holds a report and up to four images. */
+export const MAX_CACHE_ENTRIES = 500;
+
+interface CacheEntry {
+  key: string;
+  contentHash: string;
+  createdAt: string;
+  output: AnalysisOutput;
+}
+
+const openDatabase = createDatabaseOpener(DB_NAME, DB_VERSION, db => {
+  db.createObjectStore(ENTRIES, { keyPath: 'key' }).createIndex('createdAt', 'createdAt');
+});
+
+export const analysisCacheKey = async (
+  contentHash: string,
+  provider: AnalysisProvider,
+  prompts: ResolvedPrompts,
+  { ensemble, preprocessing }: { ensemble?: EnsembleSettings; preprocessing?: PreprocessingSettings },
+): Promise<string> => {
+  // The prompt text is part of the key, so an edited built-in prompt never reuses an old result.
+  const identity = {
+    provider: provider.name,
+    presetId: prompts.presetId,
+    version: prompts.version,
+    tasks: prompts.tasks,
+    ensemble: ensemble && isEnsembleEnabled(ensemble) ? ensemble : null,
+    preprocessing: preprocessing?.enabled ? preprocessing : null,
+  };
+  return `${contentHash}:${await hashBlob(new Blob([JSON.stringify(identity)]))}`;
+};
+
+export const getCachedAnalysis = async (key: string): Promise<AnalysisOutput | undefined> => {
+  const db = await openDatabase();
+  const entry = await requestToPromise(db.transaction(ENTRIES).objectStore(ENTRIES).get(key) as IDBRequest<CacheEntry | undefined>);
+  return entry && { ...entry.output, cachedAt: entry.createdAt };
+};
+
+export const putCachedAnalysis = async (key: string, contentHash: string, { cachedAt: _cachedAt, ...output }: AnalysisOutput): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(ENTRIES, 'readwrite');
+  const store = tx.objectStore(ENTRIES);
+  const entry: CacheEntry = { key, contentHash, createdAt: new Date().toISOString(), output };
+  store.put(entry);
+  const excess = await requestToPromise(store.count()) - MAX_CACHE_ENTRIES;
+  if (excess > 0) {
+    let deleted = 0;
+    const cursorRequest = store.index('createdAt').openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor || deleted >= excess) return;
+      cursor.delete();
+      deleted++;
+      cursor.continue();
+    };
+  }
+  await transactionDone(tx);
+};
+
+export const countCachedAnalyses = async (): Promise<number> => {
+  const db = await openDatabase();
+  return requestToPromise(db.transaction(ENTRIES).objectStore(ENTRIES).count());
+};
+
+export const clearAnalysisCache = async (): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(ENTRIES, 'readwrite');
+  tx.objectStore(ENTRIES).clear();
+  await transactionDone(tx);
+};
@@ -0,0 +1,36 @@
+import type { AnalysisMapKind, ImageStatus, MapErrors } from '../types';
+
+// The overlay maps of an analysis are generated independently of its report.
+// A failed map leaves the analysis 'partial' rather than failed: the report is
+// kept and the map can be generated again on its own.
+
+export const ANALYSIS_MAPS: AnalysisMapKind[] = ['segmentation', 'uncertainty', 'heatmap'];
+
+/** Where the URL of each map lives, on an image and on the progress of its running analysis. */
+export const MAP_URL_FIELDS: Record<AnalysisMapKind, 'segmentedImageUrl' | 'segmentationUncertaintyMapUrl' | 'heatmapImageUrl'> = {
+  segmentation: 'segmentedImageUrl',
+  uncertainty: 'segmentationUncertaintyMapUrl',
+  heatmap: 'heatmapImageUrl',
+};
+
+export const hasMapErrors = (mapErrors?: MapErrors) => !!mapErrors && Object.keys(mapErrors).length > 0;
+
+/** Status of an image whose analysis has finished. */
+export const finishedStatus = (mapErrors?: MapErrors): ImageStatus => hasMapErrors(mapErrors) ? 'partial' : 'success';
+
+/** Whether the image has a report, with or without all of its maps. */
+export const isAnalyzed = (status: ImageStatus) => status === 'success' || status === 'partial';
+
+export const withoutMapError = (mapErrors: MapErrors | undefined, map: AnalysisMapKind): MapErrors | undefined => {
+  const { [map]: _removed, ...rest } = mapErrors ?? {};
+  return hasMapErrors(rest) ? rest : undefined;
+};
+
+export const sanitizeMapErrors = (value: unknown): MapErrors | undefined => {
+  if (typeof value !== 'object' || value === null) return undefined;
+  const entries = ANALYSIS_MAPS.flatMap(map => {
+    const message = (value as Record<string, unknown>)[map];
+    return typeof message === 'string' ? [[map, message] as const] : [];
+  });
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+};
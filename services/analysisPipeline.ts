@@ -0,0 +1,103 @@
+import type { AnalysisMapKind, AnalysisProvenance, AnalysisResult, EnsembleSettings, MapErrors, PromptTask } from '../types';
+import type { AnalysisOutput, AnalysisProvider, AnalysisStageEvent, PipelineOptions, ProviderCallOptions, StageProvider } from './analysisProvider';
+import { hasMapErrors } from './analysisMaps';
+import { parseApiError } from './apiErrors';
+import { aggregateEnsemble, isEnsembleEnabled, memberModels, type EnsembleMember } from './ensemble';
+import { DEFAULT_PROMPTS, formatPromptVersion, type ResolvedPrompts } from './promptRegistry';
+
+// The model stages of an analysis. The browser runs them for providers it can
+// call directly; the analysis server runs them for Gemini and streams each
+// stage back as it finishes.
+
+export const describeProvenance = (provider: AnalysisProvider, prompts: ResolvedPrompts, tasks: PromptTask[], analysis?: AnalysisResult): AnalysisProvenance => {
+  const models: AnalysisProvenance['models'] = Object.fromEntries(tasks.map(task => [task, provider.modelFor(task, prompts)]));
+  if (analysis?.ensemble) {
+    models.classification = [...new Set(analysis.ensemble.votes.map(vote => vote.model))].join(', ');
+  }
+  return { provider: provider.name, presetId: prompts.presetId, promptVersion: formatPromptVersion(prompts), models };
+};
+
+const withClassificationModel = (prompts: ResolvedPrompts, model: string): ResolvedPrompts =>
+  ({ ...prompts, tasks: { ...prompts.tasks, classification: { ...prompts.tasks.classification, model } } });
+
+// Members run concurrently. A failed member only costs its vote; the run fails
+// only when no member succeeds.
+const classifyWithEnsemble = async (
+  provider: StageProvider,
+  imageFile: File,
+  options: ProviderCallOptions,
+  ensemble: EnsembleSettings,
+): Promise<AnalysisResult> => {
+  const prompts = options.prompts ?? DEFAULT_PROMPTS;
+  const runs = memberModels(ensemble, prompts.tasks.classification.model).map(async (model, seed): Promise<EnsembleMember> => {
+    const memberPrompts = withClassificationModel(prompts, model);
+    const result = await provider.classify(imageFile, { ...options, prompts: memberPrompts, seed });
+    return { model: provider.modelFor('classification', memberPrompts), seed, result };
+  });
+  const settled = await Promise.allSettled(runs);
+  const members = settled.flatMap(run => run.status === 'fulfilled' ? [run.value] : []);
+  const failures = settled.flatMap(run => run.status === 'rejected' ? [run.reason] : []);
+  if (members.length === 0) throw failures[0];
+  failures.forEach(reason => console.warn(`Ensemble member failed (${provider.name}):`, reason));
+  return aggregateEnsemble(members, failures.length);
+};
+
+/** Generates one map of a scan; raw base64 image data. */
+export const generateStageMap = (provider: StageProvider, imageFile: File, map: AnalysisMapKind, options: ProviderCallOptions = {}): Promise<string> => {
+  switch (map) {
+    case 'segmentation': return provider.segment(imageFile, options);
+    case 'uncertainty': return provider.uncertaintyMap(imageFile, options);
+    case 'heatmap': return provider.heatmap(imageFile, options);
+  }
+};
+
+/**
+ * Runs every model stage of one analysis, reporting each to `onStage` as soon
+ * as it finishes. Only the report is required: a failed map is recorded in
+ * `mapErrors` and the other stages carry on.
+ */
+export const runAnalysisStages = async (
+  provider: StageProvider,
+  imageFile: File,
+  { ensemble, ...options }: PipelineOptions = {},
+  onStage?: (event: AnalysisStageEvent) => void,
+): Promise<AnalysisOutput> => {
+  const { refinementFeedback, annotations, prompts = DEFAULT_PROMPTS, signal } = options;
+  const isRefinement = !!refinementFeedback || !!annotations?.length;
+  const tasks: PromptTask[] = isRefinement ? ['classification', 'heatmap'] : ['classification', 'segmentation', 'uncertainty', 'heatmap'];
+  const mapErrors: MapErrors = {};
+  const runMap = (map: AnalysisMapKind) => generateStageMap(provider, imageFile, map, options).then(
+    imageBase64 => {
+      onStage?.({ type: map, imageBase64 });
+      return imageBase64;
+    },
+    (err): undefined => {
+      if (signal?.aborted) throw err;
+      console.warn(`Map generation failed (${provider.name}, ${map}):`, err);
+      const message = parseApiError(err);
+      mapErrors[map] = message;
+      onStage?.({ type: 'mapError', map, message });
+    },
+  );
+
+  // All stages run concurrently. Segmentation and its uncertainty map are only
+  // produced on the first run; a refinement regenerates the report and heatmap.
+  const [analysis, segmentedImageBase64, segmentationUncertaintyMapBase64, heatmapImageBase64] = await Promise.all([
+    (ensemble && isEnsembleEnabled(ensemble) ? classifyWithEnsemble(provider, imageFile, options, ensemble) : provider.classify(imageFile, options))
+      .then(result => {
+        const stamped = { ...result, provenance: describeProvenance(provider, prompts, tasks, result) };
+        onStage?.({ type: 'classification', analysis: stamped });
+        return stamped;
+      }),
+    isRefinement ? Promise.resolve(undefined) : runMap('segmentation'),
+    isRefinement ? Promise.resolve(undefined) : runMap('uncertainty'),
+    runMap('heatmap'),
+  ]);
+  return {
+    analysis,
+    segmentedImageBase64,
+    heatmapImageBase64,
+    segmentationUncertaintyMapBase64,
+    mapErrors: hasMapErrors(mapErrors) ? mapErrors : undefined,
+  };
+};
@@ -0,0 +1,84 @@
+import type { AnalysisMapKind, AnalysisResult, ChangeAssessment, ChatMessage, EnsembleSettings, MapErrors, ModelCall, ModelQualityCheck, PromptTask, ScanAnnotation } from '../types';
+import type { ResolvedPrompts } from './promptRegistry';
+
+export interface ProviderCallOptions {
+  refinementFeedback?: string;
+  /** Clinician-drawn regions to re-evaluate; like feedback, their presence makes the call a refinement. */
+  annotations?: ScanAnnotation[];
+  /** Prompts and models to use; the default preset when omitted. */
+  prompts?: ResolvedPrompts;
+  /** Sampling seed; ensemble members use different seeds so their runs are independent samples. */
+  seed?: number;
+  signal?: AbortSignal;
+  /** Told of each model call made for this request, whatever its outcome; the audit log records them. */
+  onModelCall?: (call: ModelCall) => void;
+}
+
+/** One visit of a follow-up comparison: the scan, its date and, when analyzed, its report. */
+export interface VisitScan {
+  image: File;
+  visitDate: string;
+  result?: AnalysisResult;
+}
+
+/** What a provider sees of a chat message. */
+export type ChatTurn = Pick<ChatMessage, 'role' | 'text'>;
+
+interface ProviderBase {
+  name: string;
+  /** The model a task runs on with the given prompts, recorded in each result's provenance. */
+  modelFor: (task: PromptTask, prompts: ResolvedPrompts) => string;
+  /** Assesses how the eye changed from the baseline visit to the follow-up. */
+  compareVisits: (baseline: VisitScan, followUp: VisitScan, options?: ProviderCallOptions) => Promise<ChangeAssessment>;
+  /** Answers the last question of a conversation about the scan, with its current report as context. */
+  chat: (image: File, result: AnalysisResult, history: ChatTurn[], options?: ProviderCallOptions) => Promise<string>;
+  /** Judges whether the image is a gradable OCT B-scan; providers without it only get the local quality metrics. */
+  checkQuality?: (image: File, options?: ProviderCallOptions) => Promise<ModelQualityCheck>;
+}
+
+/**
+ * A backend capable of running each stage of the OCT analysis pipeline.
+ * Image-producing stages resolve to raw base64 image data (no `data:` prefix).
+ */
+export interface StageProvider extends ProviderBase {
+  classify: (image: File, options?: ProviderCallOptions) => Promise<AnalysisResult>;
+  segment: (image: File, options?: ProviderCallOptions) => Promise<string>;
+  heatmap: (image: File, options?: ProviderCallOptions) => Promise<string>;
+  uncertaintyMap: (image: File, options?: ProviderCallOptions) => Promise<string>;
+}
+
+export interface PipelineOptions extends ProviderCallOptions {
+  /** Classify several times and vote; a single run when omitted. */
+  ensemble?: EnsembleSettings;
+}
+
+/** One finished stage of an analysis: the report, one of the generated maps, or a map that failed. */
+export type AnalysisStageEvent =
+  | { type: 'classification'; analysis: AnalysisResult }
+  | { type: AnalysisMapKind; imageBase64: string }
+  | { type: 'mapError'; map: AnalysisMapKind; message: string };
+
+/** A backend that runs the whole pipeline remotely, such as the analysis server, and reports stages as they finish. */
+export interface PipelineProvider extends ProviderBase {
+  analyze: (image: File, options?: PipelineOptions, onStage?: (event: AnalysisStageEvent) => void) => Promise<AnalysisOutput>;
+  /** Generates one map again, for an analysis where it failed. */
+  generateMap: (image: File, map: AnalysisMapKind, options?: ProviderCallOptions) => Promise<string>;
+}
+
+export type AnalysisProvider = StageProvider | PipelineProvider;
+
+export const isPipelineProvider = (provider: AnalysisProvider): provider is PipelineProvider => 'analyze' in provider;
+
+export interface AnalysisOutput {
+  analysis: AnalysisResult;
+  segmentedImageBase64?: string;
+  /** Absent only when the heatmap failed; see `mapErrors`. */
+  heatmapImageBase64?: string;
+  segmentationUncertaintyMapBase64?: string;
+  /** Maps that failed while the report succeeded. */
+  mapErrors?: MapErrors;
+  /** The preprocessed scan the stages ran on, when preprocessing was enabled. */
+  processedImage?: File;
+  /** Set when the output was reused from the analysis cache: when the cached analysis ran. */
+  cachedAt?: string;
+}
@@ -0,0 +1,147 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createAnalysisQueue, type QueueCallbacks } from './analysisQueue';
+import { AnalysisError } from './apiErrors';
+
+const quotaError = () => new AnalysisError('API Quota Exceeded.', 'quota');
+
+// A task that settles only when the test says so, recording the signal of each attempt.
+const controllableTask = () => {
+  const attempts: { signal: AbortSignal; resolve: (value: string) => void; reject: (error: unknown) => void }[] = [];
+  const task = vi.fn((signal: AbortSignal) => new Promise<string>((resolve, reject) => {
+    attempts.push({ signal, resolve, reject });
+    signal.addEventListener('abort', () => reject(signal.reason), { once: true });
+  }));
+  return { task, attempts };
+};
+
+const createQueue = (callbacks: QueueCallbacks<string> = {}, options = {}) =>
+  createAnalysisQueue<string>(callbacks, { concurrency: 1, maxRetries: 2, baseRetryDelayMs: 1000, attemptTimeoutMs: 60_000, ...options });
+
+describe('createAnalysisQueue', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('runs no more jobs at once than the concurrency allows', async () => {
+    const first = controllableTask();
+    const second = controllableTask();
+    const onStart = vi.fn();
+    const onSuccess = vi.fn();
+    const queue = createQueue({ onStart, onSuccess });
+    queue.enqueue('a', first.task);
+    queue.enqueue('b', second.task);
+    expect(onStart).toHaveBeenCalledTimes(1);
+    expect(queue.getState()).toEqual({ paused: false, queued: 1, running: 1 });
+
+    first.attempts[0].resolve('done');
+    await vi.runAllTimersAsync();
+    expect(onSuccess).toHaveBeenCalledWith('a', 'done');
+    expect(onStart).toHaveBeenLastCalledWith('b');
+  });
+
+  it('refuses a job whose id is already queued or running', () => {
+    const { task } = controllableTask();
+    const queue = createQueue();
+    expect(queue.enqueue('a', task)).toBe(true);
+    expect(queue.enqueue('b', task)).toBe(true);
+    expect(queue.enqueue('a', task)).toBe(false);
+    expect(queue.enqueue('b', task)).toBe(false);
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries a transient failure with exponential backoff', async () => {
+    const { task, attempts } = controllableTask();
+    const onRetry = vi.fn();
+    const onSuccess = vi.fn();
+    createQueue({ onRetry, onSuccess }).enqueue('a', task);
+
+    attempts[0].reject(quotaError());
+    await vi.advanceTimersByTimeAsync(0);
+    expect(onRetry).toHaveBeenLastCalledWith('a', 1, 1000, expect.any(AnalysisError));
+    await vi.advanceTimersByTimeAsync(999);
+    expect(task).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(task).toHaveBeenCalledTimes(2);
+
+    attempts[1].reject(quotaError());
+    await vi.advanceTimersByTimeAsync(0);
+    expect(onRetry).toHaveBeenLastCalledWith('a', 2, 2000, expect.any(AnalysisError));
+    await vi.advanceTimersByTimeAsync(2000);
+    attempts[2].resolve('done');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(onSuccess).toHaveBeenCalledWith('a', 'done');
+  });
+
+  it('gives up after the last retry', async () => {
+    const task = vi.fn(() => Promise.reject(quotaError()));
+    const onError = vi.fn();
+    createQueue({ onError }).enqueue('a', task);
+    await vi.runAllTimersAsync();
+    expect(task).toHaveBeenCalledTimes(3);
+    expect(onError).toHaveBeenCalledWith('a', expect.any(AnalysisError));
+  });
+
+  it('does not retry a failure that would repeat', async () => {
+    const task = vi.fn(() => Promise.reject(new AnalysisError('Invalid output.', 'validation')));
+    const onError = vi.fn();
+    const onRetry = vi.fn();
+    createQueue({ onError, onRetry }).enqueue('a', task);
+    await vi.runAllTimersAsync();
+    expect(task).toHaveBeenCalledTimes(1);
+    expect(onRetry).not.toHaveBeenCalled();
+    expect(onError).toHaveBeenCalledTimes(1);
+  });
+
+  it('aborts a failed attempt before its retry starts', async () => {
+    const { task, attempts } = controllableTask();
+    createQueue().enqueue('a', task);
+    attempts[0].reject(quotaError());
+    await vi.advanceTimersByTimeAsync(0);
+    expect(attempts[0].signal.aborted).toBe(true);
+  });
+
+  it('times an attempt out and retries it', async () => {
+    const { task, attempts } = controllableTask();
+    const onRetry = vi.fn();
+    createQueue({ onRetry }).enqueue('a', task);
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(attempts[0].signal.reason).toMatchObject({ kind: 'timeout' });
+    expect(onRetry).toHaveBeenCalledWith('a', 1, 1000, expect.objectContaining({ kind: 'timeout' }));
+  });
+
+  it('cancels a running job, a queued job and a job waiting to retry', async () => {
+    const running = controllableTask();
+    const retrying = controllableTask();
+    const queued = controllableTask();
+    const onCancel = vi.fn();
+    const queue = createQueue({ onCancel }, { concurrency: 2 });
+    queue.enqueue('running', running.task);
+    queue.enqueue('retrying', retrying.task);
+    queue.enqueue('queued', queued.task);
+
+    retrying.attempts[0].reject(quotaError());
+    await vi.advanceTimersByTimeAsync(0);
+    queue.cancelAll();
+    await vi.runAllTimersAsync();
+    expect(onCancel.mock.calls.map(([id]) => id).sort()).toEqual(['queued', 'retrying', 'running']);
+    expect(running.attempts[0].signal.aborted).toBe(true);
+    expect(retrying.task).toHaveBeenCalledTimes(1);
+    expect(queued.task).not.toHaveBeenCalled();
+  });
+
+  it('starts nothing new while paused', async () => {
+    const { task } = controllableTask();
+    const queue = createQueue();
+    queue.pause();
+    queue.enqueue('a', task);
+    expect(task).not.toHaveBeenCalled();
+    queue.resume();
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+});
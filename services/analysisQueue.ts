@@ -0,0 +1,179 @@
+import { AnalysisError, isRetryableError } from './apiErrors';
+
+export interface QueueOptions {
+  concurrency: number;
+  maxRetries: number;
+  baseRetryDelayMs: number;
+  attemptTimeoutMs: number;
+}
+
+export interface QueueState {
+  paused: boolean;
+  queued: number;
+  running: number;
+}
+
+export interface QueueCallbacks<T> {
+  onStart?: (id: string) => void;
+  onRetry?: (id: string, attempt: number, delayMs: number, error: unknown) => void;
+  onSuccess?: (id: string, value: T) => void;
+  onError?: (id: string, error: unknown) => void;
+  onCancel?: (id: string) => void;
+  onStateChange?: (state: QueueState) => void;
+}
+
+type QueueTask<T> = (signal: AbortSignal) => Promise<T>;
+
+interface QueuedJob<T> {
+  id: string;
+  task: QueueTask<T>;
+  controller: AbortController;
+}
+
+export interface AnalysisQueue<T> {
+  /** Returns false, and ignores the task, when a job with the same id is already queued or running. */
+  enqueue: (id: string, task: QueueTask<T>) => boolean;
+  cancel: (id: string) => void;
+  cancelAll: () => void;
+  pause: () => void;
+  resume: () => void;
+  setConcurrency: (concurrency: number) => void;
+  getState: () => QueueState;
+}
+
+export const DEFAULT_QUEUE_OPTIONS: QueueOptions = {
+  concurrency: 3,
+  maxRetries: 3,
+  baseRetryDelayMs: 2000,
+  attemptTimeoutMs: 180_000,
+};
+
+const sleep = (ms: number, signal: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal.aborted) {
+    reject(signal.reason);
+    return;
+  }
+  const timer = setTimeout(resolve, ms);
+  signal.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(signal.reason);
+  }, { once: true });
+});
+
+// Exponential backoff with up to 25% jitter so parallel retries don't hit the API in lockstep.
+const backoffDelay = (baseMs: number, attempt: number) => {
+  const exponential = baseMs * 2 ** (attempt - 1);
+  return Math.round(exponential + Math.random() * exponential * 0.25);
+};
+
+/**
+ * Runs analysis jobs with bounded parallelism. Each attempt gets its own AbortSignal,
+ * which is aborted when the job is cancelled, when the attempt exceeds
+ * `attemptTimeoutMs`, and once the attempt settles, so calls a failed attempt
+ * left running do not overlap its retry.
+ * Pausing stops new jobs from starting; jobs already in flight run to completion.
+ */
+export const createAnalysisQueue = <T>(
+  callbacks: QueueCallbacks<T>,
+  initialOptions: Partial<QueueOptions> = {},
+): AnalysisQueue<T> => {
+  const options: QueueOptions = { ...DEFAULT_QUEUE_OPTIONS, ...initialOptions };
+  const pending: QueuedJob<T>[] = [];
+  const running = new Map<string, QueuedJob<T>>();
+  let paused = false;
+
+  const getState = (): QueueState => ({ paused, queued: pending.length, running: running.size });
+  const notify = () => callbacks.onStateChange?.(getState());
+
+  const runAttempt = (job: QueuedJob<T>) => {
+    const attempt = new AbortController();
+    const timer = setTimeout(
+      () => attempt.abort(new AnalysisError('Analysis Timed Out. The AI service did not respond in time.', 'timeout')),
+      options.attemptTimeoutMs,
+    );
+    const signal = AbortSignal.any([job.controller.signal, attempt.signal]);
+    return job.task(signal).finally(() => {
+      clearTimeout(timer);
+      attempt.abort(new AnalysisError('Analysis attempt ended.', 'cancelled'));
+    });
+  };
+
+  const runJob = async (job: QueuedJob<T>) => {
+    callbacks.onStart?.(job.id);
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const value = await runAttempt(job);
+        callbacks.onSuccess?.(job.id, value);
+        return;
+      } catch (error) {
+        if (job.controller.signal.aborted) {
+          callbacks.onCancel?.(job.id);
+          return;
+        }
+        if (attempt > options.maxRetries || !isRetryableError(error)) {
+          callbacks.onError?.(job.id, error);
+          return;
+        }
+        const delayMs = backoffDelay(options.baseRetryDelayMs, attempt);
+        callbacks.onRetry?.(job.id, attempt, delayMs, error);
+        try {
+          await sleep(delayMs, job.controller.signal);
+        } catch {
+          callbacks.onCancel?.(job.id);
+          return;
+        }
+      }
+    }
+  };
+
+  const pump = () => {
+    while (!paused && running.size < options.concurrency && pending.length > 0) {
+      const job = pending.shift()!;
+      running.set(job.id, job);
+      runJob(job).finally(() => {
+        running.delete(job.id);
+        notify();
+        pump();
+      });
+    }
+    notify();
+  };
+
+  return {
+    enqueue: (id, task) => {
+      if (running.has(id) || pending.some(job => job.id === id)) return false;
+      pending.push({ id, task, controller: new AbortController() });
+      pump();
+      return true;
+    },
+    cancel: (id) => {
+      const index = pending.findIndex(job => job.id === id);
+      if (index !== -1) {
+        pending.splice(index, 1);
+        callbacks.onCancel?.(id);
+        notify();
+        return;
+      }
+      running.get(id)?.controller.abort();
+    },
+    cancelAll: () => {
+      const dropped = pending.splice(0, pending.length);
+      dropped.forEach(job => callbacks.onCancel?.(job.id));
+      running.forEach(job => job.controller.abort());
+      notify();
+    },
+    pause: () => {
+      paused = true;
+      notify();
+    },
+    resume: () => {
+      paused = false;
+      pump();
+    },
+    setConcurrency: (concurrency) => {
+      options.concurrency = Math.max(1, Math.floor(concurrency));
+      pump();
+    },
+    getState,
+  };
+};
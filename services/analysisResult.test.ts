@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { parseAnalysisResult, parseConfidence, parseDiagnosisLabel, validateAnalysisResult } from './analysisResult';
+
+const flag = { present: false, confidence: 90 };
+
+const validResponse = () => ({
+  diagnosis: 'DME',
+  confidence: 88.4,
+  explanation: 'Intraretinal cysts thicken the central macula.',
+  explainability: 'Hyporeflective spaces in the inner nuclear layer.',
+  uncertaintyStatement: 'Features are unambiguous.',
+  segmentationUncertaintyStatement: 'Cyst edges are slightly blurred.',
+  findings: {
+    intraretinalFluid: { present: true, confidence: 92 },
+    subretinalFluid: flag,
+    drusen: { count: 0, sizeClass: 'none', confidence: 85 },
+    geographicAtrophy: flag,
+    epiretinalMembrane: flag,
+    vitreomacularTraction: flag,
+    centralRetinalThickness: { micrometers: 410, confidence: 70 },
+  },
+});
+
+describe('parseConfidence', () => {
+  it('reads numbers and percentage strings', () => {
+    expect(parseConfidence(95.74)).toBe(95.7);
+    expect(parseConfidence('95.7%')).toBe(95.7);
+    expect(parseConfidence(' 80 ')).toBe(80);
+  });
+
+  it('reads every value as a percentage', () => {
+    expect(parseConfidence(0.99)).toBe(1);
+    expect(parseConfidence(1)).toBe(1);
+    expect(parseConfidence('1.0')).toBe(1);
+  });
+
+  it('rejects words and values outside 0–100', () => {
+    expect(parseConfidence('high')).toBeUndefined();
+    expect(parseConfidence(101)).toBeUndefined();
+    expect(parseConfidence(-5)).toBeUndefined();
+    expect(parseConfidence(NaN)).toBeUndefined();
+    expect(parseConfidence(null)).toBeUndefined();
+  });
+});
+
+describe('parseDiagnosisLabel', () => {
+  it('matches names in any case and common aliases', () => {
+    expect(parseDiagnosisLabel(' normal ')).toBe('Normal');
+    expect(parseDiagnosisLabel('Wet AMD')).toBe('CNV');
+    expect(parseDiagnosisLabel('GA')).toBe('Geographic Atrophy');
+  });
+
+  it('does not match inherited object keys', () => {
+    expect(parseDiagnosisLabel('constructor')).toBeUndefined();
+    expect(parseDiagnosisLabel('toString')).toBeUndefined();
+  });
+});
+
+describe('validateAnalysisResult', () => {
+  it('accepts a well-formed response', () => {
+    const { result, errors } = validateAnalysisResult(validResponse());
+    expect(errors).toEqual([]);
+    expect(result).toMatchObject({ diagnosis: 'DME', confidence: 88.4 });
+    expect(result?.findings?.intraretinalFluid.present).toBe(true);
+  });
+
+  it('normalizes a percentage string and drops an empty anomaly report', () => {
+    const { result } = validateAnalysisResult({ ...validResponse(), confidence: '72%', anomalyReport: '' });
+    expect(result?.confidence).toBe(72);
+    expect(result?.anomalyReport).toBeUndefined();
+  });
+
+  it('downgrades an unrecognized diagnosis and says why', () => {
+    const { result } = validateAnalysisResult({ ...validResponse(), diagnosis: 'Retinitis pigmentosa' });
+    expect(result?.diagnosis).toBe('Requires Further Review');
+    expect(result?.uncertaintyStatement).toContain("'Retinitis pigmentosa'");
+  });
+
+  it('lists every problem', () => {
+    const { result, errors } = validateAnalysisResult({ ...validResponse(), confidence: 'high', explanation: ' ', findings: undefined });
+    expect(result).toBeUndefined();
+    expect(errors).toEqual([
+      'confidence must be a number from 0 to 100; words such as "high" are not accepted (received "high")',
+      'explanation must be a non-empty string',
+      'findings must be an object',
+    ]);
+  });
+
+  it('allows missing findings only when asked to', () => {
+    const { findings: _findings, ...legacy } = validResponse();
+    expect(validateAnalysisResult(legacy).errors).toEqual(['findings must be an object']);
+    expect(validateAnalysisResult(legacy, { requireFindings: false }).result?.findings).toBeUndefined();
+  });
+
+  it('rejects anything but an object', () => {
+    expect(validateAnalysisResult([]).errors).toEqual(['the response must be a JSON object']);
+  });
+});
+
+describe('parseAnalysisResult', () => {
+  it('reports text that is not JSON', () => {
+    expect(parseAnalysisResult('```json\n{}').errors).toEqual(['the response is not valid JSON']);
+  });
+
+  it('validates parsed JSON', () => {
+    expect(parseAnalysisResult(JSON.stringify(validResponse())).result?.diagnosis).toBe('DME');
+  });
+});
@@ -0,0 +1,121 @@
+import type { AnalysisResult, ClinicalDiagnosis } from '../types';
+import { validateFindings } from './findings';
+
+type Diagnosis = AnalysisResult['diagnosis'];
+
+export const DIAGNOSES: Diagnosis[] = ['CNV', 'DME', 'Drusen', 'Normal', 'AMD', 'Geographic Atrophy', 'Requires Further Review'];
+
+/** Ordered from most to least severe, for settings and reports. */
+export const CLINICAL_DIAGNOSES: ClinicalDiagnosis[] = ['CNV', 'DME', 'Geographic Atrophy', 'AMD', 'Drusen', 'Normal'];
+
+// Labels the model sometimes uses instead of the canonical names, keyed in lower case.
+const DIAGNOSIS_ALIASES: Record<string, Diagnosis> = {
+  'ga': 'Geographic Atrophy',
+  'wet amd': 'CNV',
+  'dry amd': 'AMD',
+  'diabetic macular edema': 'DME',
+  'choroidal neovascularization': 'CNV',
+  'age-related macular degeneration': 'AMD',
+  'geographic_atrophy': 'Geographic Atrophy',
+};
+
+const REQUIRED_TEXT_FIELDS = ['explanation', 'explainability', 'uncertaintyStatement', 'segmentationUncertaintyStatement'] as const;
+
+export type ValidationResult = { result: AnalysisResult; errors: [] } | { result?: undefined; errors: string[] };
+
+/**
+ * Reads a confidence given as a number or a percentage string ("95.7%").
+ * Every value is a percentage from 0 to 100, so 0.9 is 0.9%, never 90%.
+ * Words such as "high" are rejected rather than guessed at.
+ */
+export const parseConfidence = (value: unknown): number | undefined => {
+  let numeric: number;
+  if (typeof value === 'number') {
+    numeric = value;
+  } else if (typeof value === 'string' && /^\s*\d+(\.\d+)?\s*%?\s*$/.test(value)) {
+    numeric = parseFloat(value);
+  } else {
+    return undefined;
+  }
+  if (!Number.isFinite(numeric) || numeric < 0 || numeric > 100) return undefined;
+  return Math.round(numeric * 10) / 10;
+};
+
+/** The validation error for a confidence that `parseConfidence` rejected. */
+export const confidenceError = (value: unknown) =>
+  `confidence must be a number from 0 to 100; words such as "high" are not accepted (received ${JSON.stringify(value)})`;
+
+export const formatConfidence = (confidence: number) => `${confidence.toFixed(1)}%`;
+
+/** Matches a free-text label (any case, common aliases) to a diagnosis. */
+export const parseDiagnosisLabel = (value: string): Diagnosis | undefined => {
+  const key = value.trim().toLowerCase();
+  return DIAGNOSES.find(diagnosis => diagnosis.toLowerCase() === key) ?? (Object.hasOwn(DIAGNOSIS_ALIASES, key) ? DIAGNOSIS_ALIASES[key] : undefined);
+};
+
+/**
+ * Checks a parsed model response field by field against `AnalysisResult`.
+ * Confidence is read as a percentage and an unrecognized diagnosis is
+ * downgraded to 'Requires Further Review'; anything else that does not match
+ * the type is reported as an error. Findings are optional only for results
+ * recorded before they were introduced (`requireFindings: false`).
+ */
+export const validateAnalysisResult = (raw: unknown, { requireFindings = true } = {}): ValidationResult => {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { errors: ['the response must be a JSON object'] };
+  }
+  const value = raw as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (typeof value.diagnosis !== 'string' || !value.diagnosis.trim()) {
+    errors.push('diagnosis must be a non-empty string');
+  }
+  const confidence = parseConfidence(value.confidence);
+  if (confidence === undefined) {
+    errors.push(confidenceError(value.confidence));
+  }
+  REQUIRED_TEXT_FIELDS.forEach(field => {
+    if (typeof value[field] !== 'string' || !(value[field] as string).trim()) {
+      errors.push(`${field} must be a non-empty string`);
+    }
+  });
+  if (value.anomalyReport !== undefined && value.anomalyReport !== null && typeof value.anomalyReport !== 'string') {
+    errors.push('anomalyReport must be a string when present');
+  }
+  const { findings, errors: findingErrors } = !requireFindings && value.findings === undefined
+    ? { findings: undefined, errors: [] }
+    : validateFindings(value.findings);
+  errors.push(...findingErrors);
+
+  if (errors.length > 0) return { errors };
+
+  const reportedDiagnosis = value.diagnosis as string;
+  const diagnosis = parseDiagnosisLabel(reportedDiagnosis);
+  const uncertaintyStatement = value.uncertaintyStatement as string;
+  return {
+    errors: [],
+    result: {
+      diagnosis: diagnosis ?? 'Requires Further Review',
+      confidence: confidence!,
+      explanation: value.explanation as string,
+      explainability: value.explainability as string,
+      uncertaintyStatement: diagnosis
+        ? uncertaintyStatement
+        : `**Unrecognized Diagnosis:** The AI reported '${reportedDiagnosis}', which is not a supported category. ${uncertaintyStatement}`,
+      segmentationUncertaintyStatement: value.segmentationUncertaintyStatement as string,
+      anomalyReport: (value.anomalyReport as string | null | undefined) || undefined,
+      findings,
+    },
+  };
+};
+
+/** Parses and validates the raw text of a classification response. */
+export const parseAnalysisResult = (text: string): ValidationResult => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { errors: ['the response is not valid JSON'] };
+  }
+  return validateAnalysisResult(parsed);
+};
@@ -0,0 +1,183 @@
+import type { AnalysisMapKind, AnalysisResult, AuditedImage, ChangeAssessment, ChatMessage, ImageQuality, PreprocessingRecord, PreprocessingSettings } from '../types';
+import { isPipelineProvider, type AnalysisOutput, type AnalysisProvider, type AnalysisStageEvent, type PipelineOptions, type ProviderCallOptions, type VisitScan } from './analysisProvider';
+import { analysisCacheKey, getCachedAnalysis, putCachedAnalysis } from './analysisCache';
+import { describeProvenance, generateStageMap, runAnalysisStages } from './analysisPipeline';
+import { AnalysisError, classifyApiError, parseApiError } from './apiErrors';
+import { recordModelCall } from './auditLog';
+import { appConfig, type AnalysisProviderName } from './config';
+import { hashBlob } from './imageData';
+import { assessQuality, measureImage } from './imageQuality';
+import { localProvider } from './localProvider';
+import { preprocessImage } from './preprocessing';
+import { DEFAULT_PROMPTS, formatPromptVersion } from './promptRegistry';
+import { createChatMessage, recentTurns } from './scanChat';
+import { serverProvider } from './serverProvider';
+
+// Gemini runs on the analysis server, which holds the API key; the browser never calls it directly.
+const providers: Record<AnalysisProviderName, AnalysisProvider> = {
+  gemini: serverProvider,
+  local: localProvider,
+};
+
+export const getAnalysisProvider = (name: AnalysisProviderName = appConfig.analysisProvider): AnalysisProvider => providers[name];
+
+export interface AnalysisOptions extends PipelineOptions {
+  /** Preprocess the scan before any stage sees it; skipped when disabled. */
+  preprocessing?: PreprocessingSettings;
+  /** Records how an already preprocessed scan was produced, e.g. for a refinement of one. */
+  preprocessed?: PreprocessingRecord;
+  /** SHA-256 of the scan, when already known; computed otherwise. */
+  contentHash?: string;
+  /** Run the analysis even when a cached one exists; the fresh output replaces it. */
+  forceRefresh?: boolean;
+  /** Called with each stage as it finishes, before the whole analysis resolves. Not called for a cached analysis. */
+  onStage?: (event: AnalysisStageEvent) => void;
+}
+
+// A broken cache must never fail an analysis, so cache errors are only logged.
+const readCache = async (key: string) => {
+  try {
+    return await getCachedAnalysis(key);
+  } catch (err) {
+    console.warn('Analysis cache lookup failed:', err);
+    return undefined;
+  }
+};
+
+/**
+ * Wraps a provider failure for the UI. The provider surfaces an abort as
+ * whatever the SDK throws, so a cancelled request reports the reason it was
+ * aborted for instead; only real failures are logged, under `label`.
+ */
+const toServiceError = (err: unknown, signal: AbortSignal | undefined, label: string): AnalysisError => {
+  const cause = signal?.aborted ? signal.reason ?? err : err;
+  if (!signal?.aborted) console.error(`${label}:`, err);
+  return new AnalysisError(parseApiError(cause), classifyApiError(cause));
+};
+
+/**
+ * Adds the audit log to a request's options: each model call is recorded with
+ * the provider, prompt version and the images sent, which are hashed once, on
+ * the first call. Requests answered without a model call, e.g. from the cache,
+ * leave no model call entry.
+ */
+const withAudit = <T extends ProviderCallOptions>(options: T, provider: AnalysisProvider, images: File[]): T => {
+  const promptVersion = formatPromptVersion(options.prompts ?? DEFAULT_PROMPTS);
+  let audited: Promise<AuditedImage[]> | undefined;
+  return {
+    ...options,
+    onModelCall: call => {
+      options.onModelCall?.(call);
+      audited ??= Promise.all(images.map(async file => ({ fileName: file.name, hash: await hashBlob(file) })));
+      audited.then(
+        sent => recordModelCall(call, { provider: provider.name, promptVersion, images: sent }),
+        err => console.error('Failed to audit a model call:', err),
+      );
+    },
+  };
+};
+
+/**
+ * Analyzes a scan. First analyses are cached by content hash and settings, so
+ * a duplicate upload or a re-run after a crash makes no model calls. Only
+ * complete analyses are cached; one with a failed map is not.
+ */
+export const analyzeImage = async (
+  imageFile: File,
+  { ensemble, preprocessing, preprocessed, contentHash, forceRefresh = false, onStage, ...options }: AnalysisOptions = {},
+  provider: AnalysisProvider = getAnalysisProvider(),
+): Promise<AnalysisOutput> => {
+  const { refinementFeedback, annotations, prompts = DEFAULT_PROMPTS, signal } = options;
+  const isRefinement = !!refinementFeedback || !!annotations?.length;
+  try {
+    const hash = isRefinement ? undefined : contentHash ?? await hashBlob(imageFile);
+    const cacheKey = hash && await analysisCacheKey(hash, provider, prompts, { ensemble, preprocessing });
+    const cached = cacheKey && !forceRefresh ? await readCache(cacheKey) : undefined;
+    if (cached) return cached;
+
+    const prepared = preprocessing?.enabled ? await preprocessImage(imageFile, preprocessing) : undefined;
+    const scan = prepared?.file ?? imageFile;
+    const preprocessingRecord = prepared?.record ?? preprocessed;
+
+    const stageOptions = withAudit({ ...options, ensemble }, provider, [scan]);
+    const stages = isPipelineProvider(provider)
+      ? await provider.analyze(scan, stageOptions, onStage)
+      : await runAnalysisStages(provider, scan, stageOptions, onStage);
+    const output: AnalysisOutput = {
+      ...stages,
+      analysis: { ...stages.analysis, ...(preprocessingRecord && { preprocessing: preprocessingRecord }) },
+      processedImage: prepared?.file,
+    };
+    if (cacheKey && hash && !output.mapErrors) {
+      await putCachedAnalysis(cacheKey, hash, output).catch(err => console.warn('Failed to cache analysis:', err));
+    }
+    return output;
+  } catch (err) {
+    throw toServiceError(err, signal, `Analysis provider error (${provider.name})`);
+  }
+};
+
+/** Generates one map of an analysis again, on the scan the analysis ran on. */
+export const generateMap = async (
+  imageFile: File,
+  map: AnalysisMapKind,
+  options: ProviderCallOptions = {},
+  provider: AnalysisProvider = getAnalysisProvider(),
+): Promise<string> => {
+  try {
+    const audited = withAudit(options, provider, [imageFile]);
+    return isPipelineProvider(provider)
+      ? await provider.generateMap(imageFile, map, audited)
+      : await generateStageMap(provider, imageFile, map, audited);
+  } catch (err) {
+    throw toServiceError(err, options.signal, `Map generation error (${provider.name}, ${map})`);
+  }
+};
+
+export const compareVisits = async (
+  baseline: VisitScan,
+  followUp: VisitScan,
+  options: ProviderCallOptions = {},
+  provider: AnalysisProvider = getAnalysisProvider(),
+): Promise<ChangeAssessment> => {
+  try {
+    const assessment = await provider.compareVisits(baseline, followUp, withAudit(options, provider, [baseline.image, followUp.image]));
+    return { ...assessment, provenance: describeProvenance(provider, options.prompts ?? DEFAULT_PROMPTS, ['comparison']) };
+  } catch (err) {
+    throw toServiceError(err, options.signal, `Visit comparison error (${provider.name})`);
+  }
+};
+
+/** Answers the last question of a scan's conversation; the reply records the model that gave it. */
+export const askAboutScan = async (
+  imageFile: File,
+  result: AnalysisResult,
+  chat: ChatMessage[],
+  options: ProviderCallOptions = {},
+  provider: AnalysisProvider = getAnalysisProvider(),
+): Promise<ChatMessage> => {
+  try {
+    const reply = await provider.chat(imageFile, result, recentTurns(chat), withAudit(options, provider, [imageFile]));
+    return createChatMessage('assistant', reply, describeProvenance(provider, options.prompts ?? DEFAULT_PROMPTS, ['chat']));
+  } catch (err) {
+    throw toServiceError(err, options.signal, `Chat error (${provider.name})`);
+  }
+};
+
+/**
+ * Runs the quality gate: local metrics, reused from `previous` when present,
+ * plus the model check when requested and the provider offers one.
+ */
+export const checkImageQuality = async (
+  imageFile: File,
+  { modelCheck = false, previous, ...options }: ProviderCallOptions & { modelCheck?: boolean; previous?: ImageQuality } = {},
+  provider: AnalysisProvider = getAnalysisProvider(),
+): Promise<ImageQuality> => {
+  const metrics = previous?.metrics ?? await measureImage(imageFile);
+  if (!modelCheck || !provider.checkQuality) return assessQuality(metrics, previous?.model);
+  try {
+    return assessQuality(metrics, previous?.model ?? await provider.checkQuality(imageFile, withAudit(options, provider, [imageFile])));
+  } catch (err) {
+    throw toServiceError(err, options.signal, `Quality check error (${provider.name})`);
+  }
+};
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import type { ScanAnnotation } from '../types';
+import { describeRegion, formatRegionFeedback, sanitizeAnnotations } from './annotations';
+
+const box: ScanAnnotation = { id: 'a', label: 'fluid', createdAt: '2024-01-01T00:00:00.000Z', shape: { kind: 'box', x: 0.1, y: 0.5, width: 0.3, height: 0.2 } };
+const polygon: ScanAnnotation = { id: 'b', label: 'drusen', createdAt: '2024-01-01T00:00:00.000Z', shape: { kind: 'polygon', points: [[0.2, 0.6], [0.4, 0.6], [0.3, 0.7]] } };
+
+describe('describeRegion', () => {
+  it('gives the bounds in percent', () => {
+    expect(describeRegion(box.shape)).toBe('box, x 10%–40%, y 50%–70%');
+    expect(describeRegion({ kind: 'point', x: 0.25, y: 0.5 })).toBe('point at x 25%, y 50%');
+  });
+});
+
+describe('formatRegionFeedback', () => {
+  it('lists each region in the 0–1000 [y, x] convention', () => {
+    const lines = formatRegionFeedback([box, polygon]).split('\n');
+    expect(lines[1]).toBe('1. Fluid: box [ymin, xmin, ymax, xmax] = [500, 100, 700, 400]');
+    expect(lines[2]).toBe('2. Drusen: polygon with vertices [y, x] = [600, 200], [600, 400], [700, 300] (bounding box [600, 200, 700, 400])');
+  });
+});
+
+describe('sanitizeAnnotations', () => {
+  it('keeps well-formed annotations', () => {
+    expect(sanitizeAnnotations([box, polygon])).toEqual([box, polygon]);
+  });
+
+  it('drops unknown labels, including inherited object keys', () => {
+    const labels = ['constructor', 'toString', '__proto__', 'hemorrhage'];
+    expect(sanitizeAnnotations(labels.map(label => ({ ...box, label })))).toBeUndefined();
+  });
+
+  it('drops shapes outside the image or with too few points', () => {
+    expect(sanitizeAnnotations([
+      { ...box, shape: { ...box.shape, x: 1.5 } },
+      { ...polygon, shape: { kind: 'polygon', points: [[0, 0], [1, 1]] } },
+      { ...box, shape: { kind: 'circle' } },
+    ])).toBeUndefined();
+  });
+
+  it('ignores anything but an array', () => {
+    expect(sanitizeAnnotations({ 0: box })).toBeUndefined();
+  });
+});
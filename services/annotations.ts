@@ -0,0 +1,79 @@
+import type { AnnotationLabel, AnnotationShape, ScanAnnotation } from '../types';
+import type { RgbColor } from './mapLegends';
+
+// Clinician annotations: regions drawn on a scan with a finding label. Shapes
+// are stored in normalized image coordinates; the prompt form uses the 0–1000
+// [y, x] convention Gemini is trained on for spatial grounding.
+
+export const ANNOTATION_LABELS: Record<AnnotationLabel, { name: string; color: RgbColor }> = {
+  'fluid': { name: 'Fluid', color: [59, 130, 246] },
+  'drusen': { name: 'Drusen', color: [250, 204, 21] },
+  'cnv-lesion': { name: 'CNV lesion', color: [239, 68, 68] },
+  'geographic-atrophy': { name: 'Geographic atrophy', color: [148, 163, 184] },
+  'epiretinal-membrane': { name: 'Epiretinal membrane', color: [249, 115, 22] },
+};
+
+export const ANNOTATION_LABEL_ORDER = Object.keys(ANNOTATION_LABELS) as AnnotationLabel[];
+
+export const SHAPE_NAMES: Record<AnnotationShape['kind'], string> = { box: 'Box', polygon: 'Polygon', point: 'Point' };
+
+/** Smallest box containing the shape, as fractions of the image. */
+export const shapeBounds = (shape: AnnotationShape) => {
+  if (shape.kind === 'box') return { left: shape.x, top: shape.y, right: shape.x + shape.width, bottom: shape.y + shape.height };
+  if (shape.kind === 'point') return { left: shape.x, top: shape.y, right: shape.x, bottom: shape.y };
+  const xs = shape.points.map(([x]) => x);
+  const ys = shape.points.map(([, y]) => y);
+  return { left: Math.min(...xs), top: Math.min(...ys), right: Math.max(...xs), bottom: Math.max(...ys) };
+};
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+/** Human-readable location, e.g. "box, x 12%–40%, y 55%–70%". */
+export const describeRegion = (shape: AnnotationShape) => {
+  const { left, top, right, bottom } = shapeBounds(shape);
+  if (shape.kind === 'point') return `point at x ${percent(left)}, y ${percent(top)}`;
+  return `${SHAPE_NAMES[shape.kind].toLowerCase()}, x ${percent(left)}–${percent(right)}, y ${percent(top)}–${percent(bottom)}`;
+};
+
+const toPromptScale = (value: number) => Math.round(value * 1000);
+
+const promptRegion = (shape: AnnotationShape) => {
+  if (shape.kind === 'point') return `point [y, x] = [${toPromptScale(shape.y)}, ${toPromptScale(shape.x)}]`;
+  const { left, top, right, bottom } = shapeBounds(shape);
+  const box = `[${[top, left, bottom, right].map(toPromptScale).join(', ')}]`;
+  if (shape.kind === 'box') return `box [ymin, xmin, ymax, xmax] = ${box}`;
+  const vertices = shape.points.map(([x, y]) => `[${toPromptScale(y)}, ${toPromptScale(x)}]`).join(', ');
+  return `polygon with vertices [y, x] = ${vertices} (bounding box ${box})`;
+};
+
+/**
+ * Region-grounded feedback for a refinement prompt: one line per annotation,
+ * in the coordinate convention the model uses for boxes.
+ */
+export const formatRegionFeedback = (annotations: ScanAnnotation[]): string => [
+  'The clinician marked the following regions on the scan. Coordinates are normalized to 0–1000 with the origin at the top-left corner of the image.',
+  ...annotations.map((annotation, index) => `${index + 1}. ${ANNOTATION_LABELS[annotation.label].name}: ${promptRegion(annotation.shape)}`),
+  'Re-evaluate each marked region specifically: state whether you agree with the clinician\'s label for it, and update the diagnosis, findings and explanations if the regions change your assessment.',
+].join('\n');
+
+const isFraction = (value: unknown): value is number => typeof value === 'number' && value >= 0 && value <= 1;
+
+const isShape = (value: unknown): value is AnnotationShape => {
+  const shape = value as Partial<Record<string, unknown>> | null;
+  if (!shape || typeof shape !== 'object') return false;
+  switch (shape.kind) {
+    case 'box': return [shape.x, shape.y, shape.width, shape.height].every(isFraction);
+    case 'point': return isFraction(shape.x) && isFraction(shape.y);
+    case 'polygon': return Array.isArray(shape.points) && shape.points.length >= 3
+      && shape.points.every(point => Array.isArray(point) && point.length === 2 && point.every(isFraction));
+    default: return false;
+  }
+};
+
+/** Keeps the well-formed annotations of an imported record, dropping the rest. */
+export const sanitizeAnnotations = (value: unknown): ScanAnnotation[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const annotations = value.filter((entry): entry is ScanAnnotation =>
+    !!entry && typeof entry.id === 'string' && Object.hasOwn(ANNOTATION_LABELS, entry.label) && isShape(entry.shape));
+  return annotations.length > 0 ? annotations : undefined;
+};
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { AnalysisError, classifyApiError, isRetryableError, parseApiError } from './apiErrors';
+
+const withStatus = (message: string, status: number) => Object.assign(new Error(message), { status });
+
+describe('classifyApiError', () => {
+  it('keeps the kind of an AnalysisError', () => {
+    expect(classifyApiError(new AnalysisError('Refused.', 'bad-request'))).toBe('bad-request');
+  });
+
+  it('reads the HTTP status before the message', () => {
+    expect(classifyApiError(withStatus('Something went wrong', 429))).toBe('quota');
+    expect(classifyApiError(withStatus('Something went wrong', 503))).toBe('server');
+  });
+
+  it('recognizes the SDK messages', () => {
+    expect(classifyApiError(new Error('API key not valid. Please pass a valid API key.'))).toBe('invalid-key');
+    expect(classifyApiError(new Error('Resource has been exhausted (e.g. check quota).'))).toBe('quota');
+    expect(classifyApiError(new Error('Response was blocked due to SAFETY'))).toBe('safety');
+  });
+
+  it('treats an abort as a cancellation', () => {
+    expect(classifyApiError(new DOMException('The operation was aborted.', 'AbortError'))).toBe('cancelled');
+  });
+
+  it('falls back to unknown', () => {
+    expect(classifyApiError(new Error('socket hang up'))).toBe('unknown');
+    expect(classifyApiError('not an error')).toBe('unknown');
+  });
+});
+
+describe('isRetryableError', () => {
+  it('retries transient failures only', () => {
+    expect(isRetryableError(withStatus('Too many requests', 429))).toBe(true);
+    expect(isRetryableError(withStatus('Bad gateway', 502))).toBe(true);
+    expect(isRetryableError(new AnalysisError('Timed out.', 'timeout'))).toBe(true);
+    expect(isRetryableError(new AnalysisError('Invalid output.', 'validation'))).toBe(false);
+    expect(isRetryableError(new AnalysisError('Refused.', 'bad-request'))).toBe(false);
+    expect(isRetryableError(new Error('API key not valid'))).toBe(false);
+  });
+});
+
+describe('parseApiError', () => {
+  it('passes the message of an AnalysisError through', () => {
+    expect(parseApiError(new AnalysisError('Invalid Request. The body is not valid JSON.', 'bad-request'))).toBe('Invalid Request. The body is not valid JSON.');
+  });
+
+  it('words other errors by their kind', () => {
+    expect(parseApiError(withStatus('Too many requests', 429))).toMatch(/^API Quota Exceeded\./);
+    expect(parseApiError(new Error('socket hang up'))).toMatch(/^An unexpected error occurred/);
+  });
+});
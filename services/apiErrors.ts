@@ -0,0 +1,74 @@
+/**
+ * 'validation' is a model response that failed validation even after a retry;
+ * 'bad-request' is a request the analysis server refused, e.g. one too large.
+ */
+export type ApiErrorKind = 'missing-key' | 'invalid-key' | 'quota' | 'safety' | 'server' | 'timeout' | 'cancelled' | 'validation' | 'bad-request' | 'unknown';
+
+/**
+ * Error thrown by the analysis service. `message` is already user friendly;
+ * `kind` lets callers decide whether the failure is worth retrying.
+ */
+export class AnalysisError extends Error {
+  constructor(message: string, public readonly kind: ApiErrorKind) {
+    super(message);
+    this.name = 'AnalysisError';
+  }
+}
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof Error && error.name === 'AbortError';
+
+export const classifyApiError = (error: unknown): ApiErrorKind => {
+    if (error instanceof AnalysisError) {
+        return error.kind;
+    }
+    if (isAbortError(error)) {
+        return 'cancelled';
+    }
+    if (error instanceof Error) {
+        const status = (error as { status?: unknown }).status;
+        if (status === 429) return 'quota';
+        if (typeof status === 'number' && status >= 500) return 'server';
+        const message = error.message.toLowerCase();
+        if (message.includes('api key not found')) return 'missing-key';
+        if (message.includes('api key not valid')) return 'invalid-key';
+        if (message.includes('quota') || message.includes('rate limit')) return 'quota';
+        if (message.includes('blocked') || message.includes('safety')) return 'safety';
+        if (message.includes('server error') || message.includes('500')) return 'server';
+    }
+    return 'unknown';
+};
+
+// Quota and backend failures are transient; everything else will fail the same way again.
+export const isRetryableError = (error: unknown): boolean => {
+    const kind = classifyApiError(error);
+    return kind === 'quota' || kind === 'server' || kind === 'timeout';
+};
+
+export const parseApiError = (error: unknown): string => {
+    if (error instanceof AnalysisError) {
+        return error.message;
+    }
+    switch (classifyApiError(error)) {
+        case 'missing-key':
+            return (error as Error).message;
+        case 'invalid-key':
+            return 'Invalid API Key. Please ensure your API key is correctly configured in your environment variables. You can verify your key on the Google AI Studio dashboard.';
+        case 'quota':
+            return 'API Quota Exceeded. You have made too many requests in a short period. Please wait a moment before trying again or check your usage limits in the Google Cloud console.';
+        case 'safety':
+            return 'Content Safety Error. The request was blocked due to safety settings, which can occasionally be triggered by medical images. Please try a different image or adjust safety settings if possible.';
+        case 'server':
+            return 'AI Service Unavailable. The service is currently experiencing issues on the backend. Please try again in a few minutes.';
+        case 'timeout':
+            return 'Analysis Timed Out. The AI service did not respond in time. Please try again.';
+        case 'cancelled':
+            return 'Analysis was cancelled.';
+        case 'validation':
+            return 'Invalid Model Output. The AI returned a result that does not match the expected report format.';
+        case 'bad-request':
+            return 'Invalid Request. The analysis server refused the request.';
+    }
+    // Generic fallback
+    return 'An unexpected error occurred during the analysis. Please check your network connection and try again. If the problem persists, check the developer console for more details.';
+}
@@ -0,0 +1,123 @@
+import type { AnalyzableImage, AuditAction, AuditedImage, AuditEntry, ModelCall, ModelCallAuditEntry, UserActionAuditEntry } from '../types';
+import { createDatabaseOpener, requestToPromise, transactionDone } from './indexedDb';
+import { PROMPT_TASK_LABELS } from './promptRegistry';
+
+// Append-only local audit log of every model call and of what users did with
+// scans and results, kept for research ethics review. Entries are only ever
+// added: nothing here updates or deletes one, and clearing the analysis cache
+// or deleting a session leaves the log alone. It is shared by all sessions;
+// each entry names the session that was open.
+
+const DB_NAME = 'oct-analyzer-audit';
+const DB_VERSION = 1;
+const ENTRIES = 'entries';
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  upload: 'Upload',
+  delete: 'Delete',
+  analyze: 'Analyze',
+  refine: 'Refine',
+  ask: 'Question',
+  grade: 'Grade',
+  export: 'Export',
+  import: 'Import',
+};
+
+const openDatabase = createDatabaseOpener(DB_NAME, DB_VERSION, db => {
+  db.createObjectStore(ENTRIES, { keyPath: 'seq', autoIncrement: true });
+});
+
+let currentSessionId: string | undefined;
+let onEntryAdded: (() => void) | undefined;
+
+/** The session later entries are recorded under; set whenever a session is opened. */
+export const setAuditSession = (sessionId?: string) => {
+  currentSessionId = sessionId;
+};
+
+/** Called after each entry is written, so a view of the log can be refreshed. */
+export const setAuditEntryListener = (listener?: () => void) => {
+  onEntryAdded = listener;
+};
+
+// Auditing must never fail what it records, so a failed write is only logged.
+const appendAuditEntry = async (entry: AuditEntry): Promise<void> => {
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction(ENTRIES, 'readwrite');
+    tx.objectStore(ENTRIES).add(entry);
+    await transactionDone(tx);
+    onEntryAdded?.();
+  } catch (err) {
+    console.error('Failed to write the audit log:', err);
+  }
+};
+
+export const recordModelCall = (
+  { startedAt, ...call }: ModelCall,
+  context: Pick<ModelCallAuditEntry, 'provider' | 'promptVersion' | 'images'>,
+): Promise<void> => {
+  const entry: ModelCallAuditEntry = { type: 'model-call', at: startedAt, sessionId: currentSessionId, ...context, ...call };
+  return appendAuditEntry(entry);
+};
+
+export const recordUserAction = (action: AuditAction, detail: string, images?: AuditedImage[]): Promise<void> => {
+  const entry: UserActionAuditEntry = {
+    type: 'user-action',
+    at: new Date().toISOString(),
+    sessionId: currentSessionId,
+    action,
+    detail,
+    images: images?.length ? images : undefined,
+  };
+  return appendAuditEntry(entry);
+};
+
+/** The scans an action applied to, by the content hash taken at upload; scans without one are left out. */
+export const toAuditedImages = (images: AnalyzableImage[]): AuditedImage[] =>
+  images.flatMap(img => img.contentHash ? [{ fileName: img.file.name, hash: img.contentHash }] : []);
+
+/** The most recent entries, newest first, optionally of one type only. */
+export const listAuditEntries = async (limit: number, type?: AuditEntry['type']): Promise<AuditEntry[]> => {
+  const db = await openDatabase();
+  const entries: AuditEntry[] = [];
+  const cursorRequest = db.transaction(ENTRIES).objectStore(ENTRIES).openCursor(null, 'prev');
+  await new Promise<void>((resolve, reject) => {
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor || entries.length >= limit) return resolve();
+      const entry = cursor.value as AuditEntry;
+      if (!type || entry.type === type) entries.push(entry);
+      cursor.continue();
+    };
+    cursorRequest.onerror = () => reject(cursorRequest.error);
+  });
+  return entries;
+};
+
+export const countAuditEntries = async (): Promise<number> => {
+  const db = await openDatabase();
+  return requestToPromise(db.transaction(ENTRIES).objectStore(ENTRIES).count());
+};
+
+/** The whole log as JSON Lines, one entry per line in the order they were written. */
+export const buildAuditJsonl = async (): Promise<Blob> => {
+  const db = await openDatabase();
+  const entries = await requestToPromise(db.transaction(ENTRIES).objectStore(ENTRIES).getAll() as IDBRequest<AuditEntry[]>);
+  return new Blob(entries.map(entry => `${JSON.stringify(entry)}\n`), { type: 'application/x-ndjson' });
+};
+
+const formatUsage = ({ usage }: ModelCallAuditEntry) =>
+  usage?.totalTokens !== undefined ? `${usage.totalTokens} tokens (${usage.promptTokens ?? '?'} in, ${usage.responseTokens ?? '?'} out)` : undefined;
+
+/** One line describing an entry, for the viewer. */
+export const describeAuditEntry = (entry: AuditEntry): string => {
+  if (entry.type === 'user-action') return entry.detail;
+  return [
+    `${PROMPT_TASK_LABELS[entry.task]} on ${entry.model}`,
+    entry.promptVersion,
+    `${entry.latencyMs} ms`,
+    formatUsage(entry),
+    entry.outcome === 'success' ? undefined : `${entry.outcome}: ${entry.error ?? 'no details'}`,
+  ].filter(Boolean).join(' · ');
+};
@@ -0,0 +1,277 @@
+import type { AnalysisVersion, AnalyzableImage, ScanVolume, VisitComparison } from '../types';
+import { finishedStatus, sanitizeMapErrors } from './analysisMaps';
+import { validateAnalysisResult } from './analysisResult';
+import { ANNOTATION_LABELS, describeRegion, sanitizeAnnotations } from './annotations';
+import { formatVotes, sanitizeEnsemble } from './ensemble';
+import { aiAgreesWithGraders, gradingStage, humanDiagnosis, sanitizeGrading } from './grading';
+import { base64ToBlob, blobToBase64 } from './imageData';
+import { describePreprocessing, sanitizePreprocessing } from './preprocessing';
+import { describeModels, sanitizeProvenance } from './promptRegistry';
+import { sanitizeChat } from './scanChat';
+import { versionHeatmapKind, type ImageBlobKind, type ImageBlobs, type LoadedImage } from './sessionStore';
+import { validateChangeAssessment } from './visits';
+
+// Batch hand-off formats. The CSV is a flat table for statistics; the JSON
+// bundle is lossless (results, history and every map) and can be imported back.
+
+export const BUNDLE_FORMAT = 'oct-analyzer-bundle';
+export const BUNDLE_VERSION = 1;
+
+type TransientImageFields = 'file' | 'previewUrl' | 'processedFile' | 'processedImageUrl' | 'segmentedImageUrl' | 'heatmapImageUrl' | 'segmentationUncertaintyMapUrl' | 'versions' | 'retryAttempt';
+
+interface EncodedBlob {
+  mimeType: string;
+  /** Base64 without a data: URL prefix. */
+  data: string;
+}
+
+interface BundleImage extends Omit<AnalyzableImage, TransientImageFields> {
+  versions?: Omit<AnalysisVersion, 'heatmapImageUrl'>[];
+  fileName: string;
+  fileType: string;
+  fileLastModified: number;
+  maps: Partial<Record<ImageBlobKind, EncodedBlob>>;
+}
+
+export interface ResultBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  volumes: ScanVolume[];
+  images: BundleImage[];
+  /** Absent in bundles written before visit comparisons existed. */
+  comparisons?: VisitComparison[];
+}
+
+export interface ImportedBundle {
+  images: LoadedImage[];
+  volumes: ScanVolume[];
+  comparisons: VisitComparison[];
+  /** One message per image that could not be restored. */
+  skipped: string[];
+}
+
+const CSV_COLUMNS = [
+  'file_name', 'volume', 'slice', 'status', 'gradable', 'quality_issues', 'ground_truth', 'diagnosis', 'confidence', 'review_reason', 'ensemble_agreement', 'ensemble_votes', 'anomaly_report',
+  'prompt_version', 'models', 'preprocessing', 'intraretinal_fluid', 'subretinal_fluid', 'drusen_count', 'drusen_size', 'geographic_atrophy',
+  'epiretinal_membrane', 'vitreomacular_traction', 'central_retinal_thickness_um', 'annotations',
+  'grading_stage', 'first_grade', 'first_grader', 'second_grade', 'second_grader', 'adjudicated_grade', 'adjudicator', 'human_diagnosis',
+  'ai_human_agreement', 'signed_off_by', 'signed_off_at',
+  'patient_id', 'laterality', 'study_date', 'eye', 'visit_date', 'first_analyzed_at', 'last_analyzed_at', 'version_count',
+];
+
+const csvCell = (value: string | number | boolean | null | undefined): string => {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const buildResultsCsv = (images: AnalyzableImage[], volumes: ScanVolume[]): string => {
+  const volumeNames = new Map(volumes.map(volume => [volume.id, volume.name]));
+  const rows = images.map(image => {
+    const { result, versions = [], grading } = image;
+    const findings = result?.findings;
+    const activeVersion = versions.find(version => version.id === image.activeVersionId) ?? versions[versions.length - 1];
+    return [
+      image.file.name,
+      image.volumeId ? volumeNames.get(image.volumeId) : undefined,
+      image.sliceIndex !== undefined ? image.sliceIndex + 1 : undefined,
+      image.status,
+      image.quality?.gradable,
+      image.quality?.reasons.join(' '),
+      image.groundTruth,
+      result?.diagnosis,
+      result?.confidence,
+      result?.reviewReason,
+      result?.ensemble?.agreement,
+      result?.ensemble && formatVotes(result.ensemble),
+      result?.anomalyReport,
+      result?.provenance?.promptVersion,
+      result?.provenance && describeModels(result.provenance),
+      result?.preprocessing && describePreprocessing(result.preprocessing),
+      findings?.intraretinalFluid.present,
+      findings?.subretinalFluid.present,
+      findings?.drusen.count,
+      findings?.drusen.sizeClass,
+      findings?.geographicAtrophy.present,
+      findings?.epiretinalMembrane.present,
+      findings?.vitreomacularTraction.present,
+      findings?.centralRetinalThickness.micrometers,
+      image.annotations?.map(annotation => `${ANNOTATION_LABELS[annotation.label].name} (${describeRegion(annotation.shape)})`).join('; '),
+      gradingStage(grading),
+      grading?.first?.diagnosis,
+      grading?.first?.grader,
+      grading?.second?.diagnosis,
+      grading?.second?.grader,
+      grading?.adjudication?.diagnosis,
+      grading?.adjudication?.grader,
+      humanDiagnosis(grading),
+      aiAgreesWithGraders(result, grading),
+      grading?.signedOff?.grader,
+      grading?.signedOff?.signedAt,
+      image.visit?.patientId ?? image.metadata?.patientId,
+      image.metadata?.laterality,
+      image.metadata?.studyDate,
+      image.visit?.eye,
+      image.visit?.visitDate,
+      versions[0]?.createdAt,
+      activeVersion?.createdAt,
+      versions.length,
+    ].map(csvCell).join(',');
+  });
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n');
+};
+
+const encodeUrl = async (url?: string): Promise<EncodedBlob | undefined> => {
+  if (!url) return undefined;
+  const blob = await (await fetch(url)).blob();
+  return { mimeType: blob.type || 'image/jpeg', data: await blobToBase64(blob) };
+};
+
+const toBundleImage = async (image: AnalyzableImage): Promise<BundleImage> => {
+  const {
+    file, previewUrl, processedFile, processedImageUrl: _processedUrl, segmentedImageUrl, heatmapImageUrl, segmentationUncertaintyMapUrl, versions,
+    retryAttempt: _retryAttempt, progress: _progress, retryingMaps: _retryingMaps, chatPending: _chatPending, ...rest
+  } = image;
+  const maps: BundleImage['maps'] = {
+    original: { mimeType: file.type, data: await blobToBase64(file) },
+    processed: processedFile && { mimeType: processedFile.type, data: await blobToBase64(processedFile) },
+    segmentation: await encodeUrl(segmentedImageUrl),
+    uncertainty: await encodeUrl(segmentationUncertaintyMapUrl),
+  };
+  if (versions && versions.length > 0) {
+    for (const version of versions) {
+      maps[versionHeatmapKind(version.id)] = await encodeUrl(version.heatmapImageUrl);
+    }
+  } else {
+    maps.heatmap = await encodeUrl(heatmapImageUrl);
+  }
+  return {
+    ...rest,
+    versions: versions?.map(({ heatmapImageUrl: _url, ...version }) => version),
+    fileName: file.name,
+    fileType: file.type,
+    fileLastModified: file.lastModified,
+    maps,
+  };
+};
+
+export const buildResultBundle = async (images: AnalyzableImage[], volumes: ScanVolume[], comparisons: VisitComparison[] = []): Promise<Blob> => {
+  const bundleImages: BundleImage[] = [];
+  // Sequential so only one image's maps are being encoded at a time.
+  for (const image of images) {
+    bundleImages.push(await toBundleImage(image));
+  }
+  const usedVolumes = new Set(images.map(image => image.volumeId));
+  const exportedIds = new Set(images.map(image => image.id));
+  const bundle: ResultBundle = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    volumes: volumes.filter(volume => usedVolumes.has(volume.id)),
+    images: bundleImages,
+    comparisons: comparisons.filter(comparison => exportedIds.has(comparison.baselineImageId) && exportedIds.has(comparison.followUpImageId)),
+  };
+  return new Blob([JSON.stringify(bundle)], { type: 'application/json' });
+};
+
+/**
+ * Reads a bundle produced by `buildResultBundle`. Images and volumes get fresh
+ * ids so importing the same bundle twice never collides with existing records;
+ * results are re-validated and nothing is sent to the model.
+ */
+export const readResultBundle = async (file: File): Promise<ImportedBundle> => {
+  let bundle: ResultBundle;
+  try {
+    bundle = JSON.parse(await file.text());
+  } catch {
+    throw new Error(`${file.name} is not a valid JSON file.`);
+  }
+  if (bundle?.format !== BUNDLE_FORMAT || !Array.isArray(bundle.images)) {
+    throw new Error(`${file.name} is not an OCT analysis bundle.`);
+  }
+  if (typeof bundle.version !== 'number' || bundle.version > BUNDLE_VERSION) {
+    throw new Error(`${file.name} was written by a newer version of the app (bundle version ${bundle.version}).`);
+  }
+
+  const volumeIds = new Map<string, string>();
+  const volumes = (Array.isArray(bundle.volumes) ? bundle.volumes : []).map(volume => {
+    const id = crypto.randomUUID();
+    volumeIds.set(volume.id, id);
+    return { ...volume, id };
+  });
+
+  const skipped: string[] = [];
+  const images: LoadedImage[] = [];
+  const imageIds = new Map<string, string>();
+  bundle.images.forEach((entry, index) => {
+    const name = typeof entry?.fileName === 'string' ? entry.fileName : `Image ${index + 1}`;
+    if (!entry?.maps?.original) {
+      skipped.push(`${name}: the original scan is missing.`);
+      return;
+    }
+    const { maps, fileName, fileType, fileLastModified, versions, result, ...rest } = entry;
+
+    // Validation rebuilds results from the report fields, so provenance, ensemble votes and preprocessing are carried over separately.
+    const checked = result ? validateAnalysisResult(result, { requireFindings: false }) : undefined;
+    const checkedVersions = versions?.map(version => ({ ...version, check: validateAnalysisResult(version.result, { requireFindings: false }) }));
+    const invalid = [checked, ...(checkedVersions ?? []).map(version => version.check)].find(check => check && !check.result);
+    if (invalid) {
+      skipped.push(`${name}: invalid result (${invalid.errors.join('; ')}).`);
+      return;
+    }
+
+    const blobs: ImageBlobs = {};
+    (Object.entries(maps) as [ImageBlobKind, EncodedBlob | undefined][]).forEach(([kind, encoded]) => {
+      if (encoded) blobs[kind] = base64ToBlob(encoded.data, encoded.mimeType);
+    });
+    const id = crypto.randomUUID();
+    imageIds.set(rest.id, id);
+    const mapErrors = checked?.result ? sanitizeMapErrors(rest.mapErrors) : undefined;
+    images.push({
+      image: {
+        ...rest,
+        id,
+        volumeId: rest.volumeId ? volumeIds.get(rest.volumeId) : undefined,
+        status: checked?.result ? finishedStatus(mapErrors) : 'pending',
+        error: undefined,
+        errorKind: undefined,
+        mapErrors,
+        preprocessing: sanitizePreprocessing(rest.preprocessing),
+        result: checked?.result && {
+          ...checked.result,
+          provenance: sanitizeProvenance(result?.provenance),
+          ensemble: sanitizeEnsemble(result?.ensemble),
+          preprocessing: sanitizePreprocessing(result?.preprocessing),
+        },
+        annotations: sanitizeAnnotations(rest.annotations),
+        chat: sanitizeChat(rest.chat),
+        grading: sanitizeGrading(rest.grading),
+        versions: checkedVersions?.map(({ check, ...version }) => ({
+          ...version,
+          annotations: sanitizeAnnotations(version.annotations),
+          result: {
+            ...check.result!,
+            provenance: sanitizeProvenance(version.result?.provenance),
+            ensemble: sanitizeEnsemble(version.result?.ensemble),
+            preprocessing: sanitizePreprocessing(version.result?.preprocessing),
+          },
+        })),
+        file: new File([blobs.original!], fileName, { type: fileType, lastModified: fileLastModified }),
+      },
+      blobs,
+    });
+  });
+
+  const usedVolumes = new Set(images.map(({ image }) => image.volumeId));
+  // Comparisons follow their images to the new ids; one whose scans were skipped is dropped.
+  const comparisons = (Array.isArray(bundle.comparisons) ? bundle.comparisons : []).flatMap(comparison => {
+    const baselineImageId = imageIds.get(comparison.baselineImageId);
+    const followUpImageId = imageIds.get(comparison.followUpImageId);
+    const { assessment } = validateChangeAssessment(comparison.assessment);
+    return baselineImageId && followUpImageId && assessment
+      ? [{ ...comparison, id: crypto.randomUUID(), baselineImageId, followUpImageId, assessment: { ...assessment, provenance: sanitizeProvenance(comparison.assessment?.provenance) } }]
+      : [];
+  });
+  return { images, volumes: volumes.filter(volume => usedVolumes.has(volume.id)), comparisons, skipped };
+};
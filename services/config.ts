@@ -0,0 +1,21 @@
+export type AnalysisProviderName = 'gemini' | 'local';
+
+const resolveProviderName = (): AnalysisProviderName => {
+  const configured = process.env.ANALYSIS_PROVIDER?.toLowerCase();
+  if (configured === 'gemini' || configured === 'local') {
+    return configured;
+  }
+  // The build picks `local` when no key is configured; the key itself stays on the analysis server.
+  return 'gemini';
+};
+
+const parsePositiveInt = (value: string | undefined, fallback: number): number => {
+  const parsed = parseInt(value ?? '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+export const appConfig = {
+  analysisProvider: resolveProviderName(),
+  analysisConcurrency: parsePositiveInt(process.env.ANALYSIS_CONCURRENCY, 3),
+  ensembleSize: parsePositiveInt(process.env.ENSEMBLE_SIZE, 1),
+};
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { isDicomFile, looksLikeDicom, parseDicom } from './dicomParser';
+
+// Builds DICOM Part 10 files in Explicit VR Little Endian, one element at a time.
+const LONG_VRS = ['OB', 'SQ'];
+
+const concat = (...parts: Uint8Array[]) => {
+  const bytes = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  parts.reduce((offset, part) => {
+    bytes.set(part, offset);
+    return offset + part.length;
+  }, 0);
+  return bytes;
+};
+
+const element = (group: number, elementId: number, vr: string, value: Uint8Array | string, undefinedLength = false) => {
+  const bytes = typeof value === 'string' ? new TextEncoder().encode(value.length % 2 ? `${value} ` : value) : value;
+  const long = LONG_VRS.includes(vr);
+  const header = new DataView(new ArrayBuffer(long ? 12 : 8));
+  header.setUint16(0, group, true);
+  header.setUint16(2, elementId, true);
+  header.setUint8(4, vr.charCodeAt(0));
+  header.setUint8(5, vr.charCodeAt(1));
+  if (long) header.setUint32(8, undefinedLength ? 0xffffffff : bytes.length, true);
+  else header.setUint16(6, bytes.length, true);
+  return concat(new Uint8Array(header.buffer), bytes);
+};
+
+// Items and delimiters of sequences and encapsulated pixel data.
+const item = (elementId: number, value = new Uint8Array(), length = value.length) => {
+  const header = new DataView(new ArrayBuffer(8));
+  header.setUint16(0, 0xfffe, true);
+  header.setUint16(2, elementId, true);
+  header.setUint32(4, length, true);
+  return concat(new Uint8Array(header.buffer), value);
+};
+
+const dicomFile = (transferSyntax: string, ...dataset: Uint8Array[]) => new File([
+  new Uint8Array(128),
+  new TextEncoder().encode('DICM'),
+  element(0x0002, 0x0010, 'UI', `${transferSyntax}\0`),
+  ...dataset,
+], 'scan.dcm', { type: 'application/dicom' });
+
+const JPEG_BASELINE = '1.2.840.10008.1.2.4.50';
+const jpeg = (marker: number) => new Uint8Array([0xff, 0xd8, marker, 0x00]);
+
+describe('parseDicom', () => {
+  it('reads the metadata and splits encapsulated JPEG frames', async () => {
+    const file = dicomFile(
+      JPEG_BASELINE,
+      element(0x0008, 0x0020, 'DA', '20240131'),
+      element(0x0008, 0x0060, 'CS', 'OPT'),
+      // A nested sequence of undefined length is walked over, not recorded.
+      element(0x0008, 0x1115, 'SQ', concat(
+        item(0xe000, element(0x0010, 0x0020, 'LO', 'NESTED'), 0xffffffff),
+        item(0xe00d),
+        item(0xe0dd),
+      ), true),
+      element(0x0010, 0x0010, 'PN', 'Doe^Jane'),
+      element(0x0010, 0x0020, 'LO', 'P-001'),
+      element(0x0020, 0x0062, 'CS', 'OD'),
+      element(0x7fe0, 0x0010, 'OB', concat(
+        item(0xe000),
+        item(0xe000, jpeg(1)),
+        item(0xe000, new Uint8Array([0x01, 0x02])),
+        item(0xe000, jpeg(2)),
+        item(0xe0dd),
+      ), true),
+    );
+    const frames = await parseDicom(file);
+    expect(frames.map(frame => [frame.file.name, frame.file.type, frame.file.size])).toEqual([
+      ['scan_frame001.jpg', 'image/jpeg', 6],
+      ['scan_frame002.jpg', 'image/jpeg', 4],
+    ]);
+    expect(frames[1].metadata).toMatchObject({
+      source: 'dicom',
+      sourceFileName: 'scan.dcm',
+      patientName: 'Doe, Jane',
+      patientId: 'P-001',
+      studyDate: '2024-01-31',
+      laterality: 'OD',
+      modality: 'OPT',
+      frameIndex: 1,
+      frameCount: 2,
+    });
+  });
+
+  it('rejects a file without the DICM preamble', async () => {
+    await expect(parseDicom(new File([new Uint8Array(200)], 'scan.dcm'))).rejects.toThrow('missing DICM preamble');
+  });
+
+  it('rejects a dataset without pixel data', async () => {
+    await expect(parseDicom(dicomFile(JPEG_BASELINE, element(0x0010, 0x0020, 'LO', 'P-001')))).rejects.toThrow('contains no image data');
+  });
+
+  it('rejects compressed transfer syntaxes other than baseline JPEG', async () => {
+    const file = dicomFile('1.2.840.10008.1.2.4.90', element(0x7fe0, 0x0010, 'OB', concat(item(0xe000), item(0xe000, jpeg(1)), item(0xe0dd)), true));
+    await expect(parseDicom(file)).rejects.toThrow('1.2.840.10008.1.2.4.90 is not supported');
+  });
+});
+
+describe('isDicomFile', () => {
+  it('checks the DICM magic after the preamble', async () => {
+    expect(await isDicomFile(dicomFile(JPEG_BASELINE))).toBe(true);
+    expect(await isDicomFile(new File([new Uint8Array(200)], 'scan.dcm'))).toBe(false);
+  });
+});
+
+describe('looksLikeDicom', () => {
+  it('goes by the type or name', () => {
+    expect(looksLikeDicom(new File([], 'scan.DCM'))).toBe(true);
+    expect(looksLikeDicom(new File([], 'IM000001'))).toBe(true);
+    expect(looksLikeDicom(new File([], 'scan.png', { type: 'image/png' }))).toBe(false);
+  });
+});
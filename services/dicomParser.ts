@@ -0,0 +1,369 @@
+import type { ScanMetadata } from '../types';
+
+// Minimal in-browser DICOM Part 10 reader. It walks the dataset just far enough
+// to read the identifying tags and pixel attributes we need, then turns each
+// frame into a browser-decodable image file. Nothing leaves the browser.
+
+export interface DicomImage {
+  file: File;
+  metadata: ScanMetadata;
+}
+
+const TRANSFER_SYNTAX = {
+  implicitLittle: '1.2.840.10008.1.2',
+  explicitLittle: '1.2.840.10008.1.2.1',
+  explicitBig: '1.2.840.10008.1.2.2',
+  jpegBaseline: '1.2.840.10008.1.2.4.50',
+};
+
+const tag = (group: number, element: number) => ((group << 16) | element) >>> 0;
+
+const TAGS = {
+  transferSyntaxUid: tag(0x0002, 0x0010),
+  sopClassUid: tag(0x0008, 0x0016),
+  studyDate: tag(0x0008, 0x0020),
+  acquisitionDate: tag(0x0008, 0x0022),
+  contentDate: tag(0x0008, 0x0023),
+  acquisitionDateTime: tag(0x0008, 0x002a),
+  modality: tag(0x0008, 0x0060),
+  manufacturer: tag(0x0008, 0x0070),
+  studyDescription: tag(0x0008, 0x1030),
+  patientName: tag(0x0010, 0x0010),
+  patientId: tag(0x0010, 0x0020),
+  studyInstanceUid: tag(0x0020, 0x000d),
+  seriesInstanceUid: tag(0x0020, 0x000e),
+  laterality: tag(0x0020, 0x0060),
+  imageLaterality: tag(0x0020, 0x0062),
+  samplesPerPixel: tag(0x0028, 0x0002),
+  photometricInterpretation: tag(0x0028, 0x0004),
+  planarConfiguration: tag(0x0028, 0x0006),
+  numberOfFrames: tag(0x0028, 0x0008),
+  rows: tag(0x0028, 0x0010),
+  columns: tag(0x0028, 0x0011),
+  bitsAllocated: tag(0x0028, 0x0100),
+  pixelRepresentation: tag(0x0028, 0x0103),
+  windowCenter: tag(0x0028, 0x1050),
+  windowWidth: tag(0x0028, 0x1051),
+  rescaleIntercept: tag(0x0028, 0x1052),
+  rescaleSlope: tag(0x0028, 0x1053),
+  pixelData: tag(0x7fe0, 0x0010),
+};
+
+const ITEM_DELIMITER = 0xe00d;
+const SEQUENCE_DELIMITER = 0xe0dd;
+const UNDEFINED_LENGTH = 0xffffffff;
+
+// Explicit VRs whose length is a 32-bit value preceded by two reserved bytes.
+const LONG_VRS = new Set(['OB', 'OD', 'OF', 'OL', 'OV', 'OW', 'SQ', 'SV', 'UC', 'UN', 'UR', 'UT', 'UV']);
+
+interface DicomElement {
+  offset: number;
+  length: number;
+  /** Encapsulated pixel data fragments, in file order. */
+  fragments?: Uint8Array[];
+}
+
+interface ParseContext {
+  view: DataView;
+  bytes: Uint8Array;
+  explicit: boolean;
+  littleEndian: boolean;
+  elements: Map<number, DicomElement>;
+}
+
+const readAscii = (bytes: Uint8Array, offset: number, length: number) => {
+  let text = '';
+  for (let i = 0; i < length; i++) {
+    text += String.fromCharCode(bytes[offset + i]);
+  }
+  return text;
+};
+
+const readEncapsulatedFragments = (ctx: ParseContext, offset: number): { fragments: Uint8Array[]; end: number } => {
+  const fragments: Uint8Array[] = [];
+  while (offset + 8 <= ctx.view.byteLength) {
+    const element = ctx.view.getUint16(offset + 2, ctx.littleEndian);
+    const length = ctx.view.getUint32(offset + 4, ctx.littleEndian);
+    offset += 8;
+    if (element === SEQUENCE_DELIMITER) break;
+    fragments.push(ctx.bytes.subarray(offset, offset + length));
+    offset += length;
+  }
+  return { fragments, end: offset };
+};
+
+const readElementHeader = (ctx: ParseContext, offset: number) => {
+  const { view, littleEndian } = ctx;
+  const elementTag = tag(view.getUint16(offset, littleEndian), view.getUint16(offset + 2, littleEndian));
+  if (!ctx.explicit) {
+    return { elementTag, length: view.getUint32(offset + 4, littleEndian), valueOffset: offset + 8 };
+  }
+  const vr = readAscii(ctx.bytes, offset + 4, 2);
+  return LONG_VRS.has(vr)
+    ? { elementTag, length: view.getUint32(offset + 8, littleEndian), valueOffset: offset + 12 }
+    : { elementTag, length: view.getUint16(offset + 6, littleEndian), valueOffset: offset + 8 };
+};
+
+/**
+ * Reads elements from `offset` until `end` or a delimiter. Only top-level
+ * elements are recorded; nested sequence content is walked and discarded.
+ */
+const parseElements = (ctx: ParseContext, offset: number, end: number, depth: number): number => {
+  const { view, littleEndian } = ctx;
+  while (offset + 8 <= end) {
+    const group = view.getUint16(offset, littleEndian);
+    const element = view.getUint16(offset + 2, littleEndian);
+
+    if (group === 0xfffe) {
+      const length = view.getUint32(offset + 4, littleEndian);
+      if (element === ITEM_DELIMITER || element === SEQUENCE_DELIMITER) return offset + 8;
+      offset = length === UNDEFINED_LENGTH
+        ? parseElements(ctx, offset + 8, end, depth + 1)
+        : offset + 8 + length;
+      continue;
+    }
+
+    const { elementTag, length, valueOffset } = readElementHeader(ctx, offset);
+
+    if (length === UNDEFINED_LENGTH) {
+      if (elementTag === TAGS.pixelData && depth === 0) {
+        const { fragments, end: fragmentsEnd } = readEncapsulatedFragments(ctx, valueOffset);
+        ctx.elements.set(elementTag, { offset: valueOffset, length, fragments });
+        offset = fragmentsEnd;
+      } else {
+        offset = parseElements(ctx, valueOffset, end, depth + 1);
+      }
+      continue;
+    }
+
+    if (depth === 0) {
+      ctx.elements.set(elementTag, { offset: valueOffset, length });
+    }
+    offset = valueOffset + length;
+  }
+  return offset;
+};
+
+const getString = (ctx: ParseContext, elementTag: number): string | undefined => {
+  const element = ctx.elements.get(elementTag);
+  if (!element || element.length === UNDEFINED_LENGTH) return undefined;
+  const value = readAscii(ctx.bytes, element.offset, element.length).replace(/[\0\s]+$/, '').trim();
+  return value || undefined;
+};
+
+// Multi-valued strings are backslash separated; we only ever need the first value.
+const getNumber = (ctx: ParseContext, elementTag: number): number | undefined => {
+  const value = getString(ctx, elementTag)?.split('\\')[0];
+  const parsed = value !== undefined ? parseFloat(value) : NaN;
+  return isNaN(parsed) ? undefined : parsed;
+};
+
+const getUint16 = (ctx: ParseContext, elementTag: number): number | undefined => {
+  const element = ctx.elements.get(elementTag);
+  if (!element || element.length < 2) return undefined;
+  return ctx.view.getUint16(element.offset, ctx.littleEndian);
+};
+
+const formatDate = (value?: string) =>
+  value && /^\d{8}/.test(value) ? `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}` : value;
+
+const formatDateTime = (value?: string) => {
+  if (!value || !/^\d{12}/.test(value)) return formatDate(value);
+  return `${formatDate(value)} ${value.slice(8, 10)}:${value.slice(10, 12)}`;
+};
+
+// DICOM person names are `Family^Given^Middle^Prefix^Suffix`.
+const formatPersonName = (value?: string) => {
+  if (!value) return undefined;
+  const [family, given] = value.split('=')[0].split('^');
+  return [family, given].filter(Boolean).join(', ') || undefined;
+};
+
+const readMetadata = (ctx: ParseContext, sourceFileName: string): ScanMetadata => ({
+  source: 'dicom',
+  sourceFileName,
+  patientName: formatPersonName(getString(ctx, TAGS.patientName)),
+  patientId: getString(ctx, TAGS.patientId),
+  studyInstanceUid: getString(ctx, TAGS.studyInstanceUid),
+  seriesInstanceUid: getString(ctx, TAGS.seriesInstanceUid),
+  studyDate: formatDate(getString(ctx, TAGS.studyDate)),
+  studyDescription: getString(ctx, TAGS.studyDescription),
+  laterality: getString(ctx, TAGS.imageLaterality) ?? getString(ctx, TAGS.laterality),
+  acquisitionDate: formatDateTime(getString(ctx, TAGS.acquisitionDateTime))
+    ?? formatDate(getString(ctx, TAGS.acquisitionDate) ?? getString(ctx, TAGS.contentDate)),
+  modality: getString(ctx, TAGS.modality),
+  manufacturer: getString(ctx, TAGS.manufacturer),
+  sopClassUid: getString(ctx, TAGS.sopClassUid),
+});
+
+const canvasToPngBlob = (imageData: ImageData): Promise<Blob> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = imageData.width;
+  canvas.height = imageData.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    return Promise.reject(new Error('Canvas 2D context is not available.'));
+  }
+  ctx.putImageData(imageData, 0, 0);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Could not encode DICOM frame.')), 'image/png');
+  });
+};
+
+const renderNativeFrame = (ctx: ParseContext, pixelData: DicomElement, frameIndex: number): ImageData => {
+  const rows = getUint16(ctx, TAGS.rows) ?? 0;
+  const columns = getUint16(ctx, TAGS.columns) ?? 0;
+  const samples = getUint16(ctx, TAGS.samplesPerPixel) ?? 1;
+  const bitsAllocated = getUint16(ctx, TAGS.bitsAllocated) ?? 8;
+  const signed = getUint16(ctx, TAGS.pixelRepresentation) === 1;
+  const photometric = getString(ctx, TAGS.photometricInterpretation) ?? 'MONOCHROME2';
+  const bytesPerSample = bitsAllocated / 8;
+  const pixelCount = rows * columns;
+  const frameOffset = pixelData.offset + frameIndex * pixelCount * samples * bytesPerSample;
+  const output = new ImageData(columns, rows);
+  const rgba = output.data;
+
+  if (frameOffset + pixelCount * samples * bytesPerSample > ctx.view.byteLength) {
+    throw new Error('Pixel data is shorter than the image dimensions require.');
+  }
+
+  if (samples === 3) {
+    if (bitsAllocated !== 8) throw new Error(`Unsupported ${bitsAllocated}-bit color pixel data.`);
+    const planar = getUint16(ctx, TAGS.planarConfiguration) === 1;
+    for (let i = 0; i < pixelCount; i++) {
+      for (let channel = 0; channel < 3; channel++) {
+        const source = planar ? frameOffset + channel * pixelCount + i : frameOffset + i * 3 + channel;
+        rgba[i * 4 + channel] = ctx.bytes[source];
+      }
+      rgba[i * 4 + 3] = 255;
+    }
+    return output;
+  }
+
+  if (bitsAllocated !== 8 && bitsAllocated !== 16) {
+    throw new Error(`Unsupported ${bitsAllocated}-bit pixel data.`);
+  }
+  const slope = getNumber(ctx, TAGS.rescaleSlope) ?? 1;
+  const intercept = getNumber(ctx, TAGS.rescaleIntercept) ?? 0;
+  const values = new Float32Array(pixelCount);
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 0; i < pixelCount; i++) {
+    const offset = frameOffset + i * bytesPerSample;
+    const raw = bitsAllocated === 8
+      ? (signed ? ctx.view.getInt8(offset) : ctx.view.getUint8(offset))
+      : (signed ? ctx.view.getInt16(offset, ctx.littleEndian) : ctx.view.getUint16(offset, ctx.littleEndian));
+    const value = raw * slope + intercept;
+    values[i] = value;
+    if (value < min) min = value;
+    if (value > max) max = value;
+  }
+
+  // Use the stored VOI window when present, otherwise stretch the frame's own range.
+  const windowCenter = getNumber(ctx, TAGS.windowCenter);
+  const windowWidth = getNumber(ctx, TAGS.windowWidth);
+  const low = windowCenter !== undefined && windowWidth ? windowCenter - windowWidth / 2 : min;
+  const high = windowCenter !== undefined && windowWidth ? windowCenter + windowWidth / 2 : max;
+  const range = high - low || 1;
+  const invert = photometric === 'MONOCHROME1';
+  for (let i = 0; i < pixelCount; i++) {
+    let gray = Math.round(((values[i] - low) / range) * 255);
+    gray = Math.min(255, Math.max(0, gray));
+    if (invert) gray = 255 - gray;
+    rgba[i * 4] = rgba[i * 4 + 1] = rgba[i * 4 + 2] = gray;
+    rgba[i * 4 + 3] = 255;
+  }
+  return output;
+};
+
+// The first fragment is the Basic Offset Table. Without one, each JPEG frame
+// starts with an SOI marker (FFD8), which is how we find frame boundaries.
+const groupJpegFrames = (fragments: Uint8Array[]): Uint8Array[][] => {
+  const frames: Uint8Array[][] = [];
+  fragments.slice(1).forEach(fragment => {
+    const startsFrame = fragment[0] === 0xff && fragment[1] === 0xd8;
+    if (startsFrame || frames.length === 0) {
+      frames.push([fragment]);
+    } else {
+      frames[frames.length - 1].push(fragment);
+    }
+  });
+  return frames;
+};
+
+const frameFileName = (fileName: string, frameIndex: number, frameCount: number, extension: string) => {
+  const base = fileName.replace(/\.(dcm|dicom)$/i, '');
+  return frameCount > 1
+    ? `${base}_frame${String(frameIndex + 1).padStart(3, '0')}.${extension}`
+    : `${base}.${extension}`;
+};
+
+export const looksLikeDicom = (file: File): boolean =>
+  file.type === 'application/dicom' || /\.(dcm|dicom)$/i.test(file.name) || (file.type === '' && !file.name.includes('.'));
+
+export const isDicomFile = async (file: File): Promise<boolean> => {
+  if (file.size < 132) return false;
+  const magic = new Uint8Array(await file.slice(128, 132).arrayBuffer());
+  return readAscii(magic, 0, 4) === 'DICM';
+};
+
+export const parseDicom = async (file: File): Promise<DicomImage[]> => {
+  const buffer = await file.arrayBuffer();
+  const bytes = new Uint8Array(buffer);
+  if (bytes.length < 132 || readAscii(bytes, 128, 4) !== 'DICM') {
+    throw new Error('Not a DICOM Part 10 file (missing DICM preamble).');
+  }
+
+  // The file meta group is always Explicit VR Little Endian.
+  const ctx: ParseContext = {
+    view: new DataView(buffer),
+    bytes,
+    explicit: true,
+    littleEndian: true,
+    elements: new Map(),
+  };
+  let offset = 132;
+  while (offset + 8 <= bytes.length && ctx.view.getUint16(offset, true) === 0x0002) {
+    const { elementTag, length, valueOffset } = readElementHeader(ctx, offset);
+    ctx.elements.set(elementTag, { offset: valueOffset, length });
+    offset = valueOffset + length;
+  }
+
+  const transferSyntax = getString(ctx, TAGS.transferSyntaxUid) ?? TRANSFER_SYNTAX.explicitLittle;
+  ctx.explicit = transferSyntax !== TRANSFER_SYNTAX.implicitLittle;
+  ctx.littleEndian = transferSyntax !== TRANSFER_SYNTAX.explicitBig;
+  parseElements(ctx, offset, bytes.length, 0);
+
+  const pixelData = ctx.elements.get(TAGS.pixelData);
+  if (!pixelData) {
+    throw new Error('The DICOM file contains no image data.');
+  }
+
+  const metadata = readMetadata(ctx, file.name);
+  const lastModified = file.lastModified;
+
+  if (pixelData.fragments) {
+    if (transferSyntax !== TRANSFER_SYNTAX.jpegBaseline) {
+      throw new Error(`Compressed transfer syntax ${transferSyntax} is not supported. Export the scan as uncompressed or baseline JPEG DICOM.`);
+    }
+    const frames = groupJpegFrames(pixelData.fragments);
+    return frames.map((fragments, frameIndex) => ({
+      file: new File(fragments, frameFileName(file.name, frameIndex, frames.length, 'jpg'), { type: 'image/jpeg', lastModified }),
+      metadata: { ...metadata, frameIndex, frameCount: frames.length },
+    }));
+  }
+
+  if (![TRANSFER_SYNTAX.implicitLittle, TRANSFER_SYNTAX.explicitLittle, TRANSFER_SYNTAX.explicitBig].includes(transferSyntax)) {
+    throw new Error(`Transfer syntax ${transferSyntax} is not supported.`);
+  }
+  const frameCount = Math.max(1, getNumber(ctx, TAGS.numberOfFrames) ?? 1);
+  const images: DicomImage[] = [];
+  for (let frameIndex = 0; frameIndex < frameCount; frameIndex++) {
+    const blob = await canvasToPngBlob(renderNativeFrame(ctx, pixelData, frameIndex));
+    images.push({
+      file: new File([blob], frameFileName(file.name, frameIndex, frameCount, 'png'), { type: 'image/png', lastModified }),
+      metadata: { ...metadata, frameIndex, frameCount },
+    });
+  }
+  return images;
+};
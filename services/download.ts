@@ -0,0 +1,12 @@
+/** Saves a Blob to the user's downloads through a temporary object URL. */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(link.href);
+};
+
+export const baseFileName = (fileName: string) => fileName.split('.')[0];
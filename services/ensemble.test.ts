@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import type { AnalysisResult } from '../types';
+import { aggregateEnsemble, formatVotes, memberModels, sanitizeEnsemble, type EnsembleMember } from './ensemble';
+
+const member = (seed: number, diagnosis: AnalysisResult['diagnosis'], confidence: number): EnsembleMember => ({
+  model: 'gemini-2.5-flash',
+  seed,
+  result: {
+    diagnosis,
+    confidence,
+    explanation: `Run ${seed}`,
+    explainability: '',
+    uncertaintyStatement: '',
+    segmentationUncertaintyStatement: '',
+  },
+});
+
+describe('memberModels', () => {
+  it('cycles through the configured models, or repeats the fallback', () => {
+    expect(memberModels({ size: 3, models: ['a', 'b'] }, 'fallback')).toEqual(['a', 'b', 'a']);
+    expect(memberModels({ size: 2, models: [] }, 'fallback')).toEqual(['fallback', 'fallback']);
+  });
+});
+
+describe('aggregateEnsemble', () => {
+  it('decides by plurality and reports the most confident winning run', () => {
+    const result = aggregateEnsemble([member(0, 'CNV', 80), member(1, 'DME', 95), member(2, 'CNV', 90)]);
+    expect(result.diagnosis).toBe('CNV');
+    expect(result.explanation).toBe('Run 2');
+    expect(result.confidence).toBe(85);
+    expect(result.ensemble).toMatchObject({ agreement: 66.7, failed: 0 });
+    expect(formatVotes(result.ensemble!)).toBe('CNV 2, DME 1');
+  });
+
+  it('breaks a tie by summed confidence', () => {
+    expect(aggregateEnsemble([member(0, 'CNV', 60), member(1, 'DME', 70)]).diagnosis).toBe('DME');
+  });
+
+  it('counts failed runs against agreement', () => {
+    const result = aggregateEnsemble([member(0, 'CNV', 90)], 4);
+    expect(result.ensemble).toMatchObject({ agreement: 20, failed: 4 });
+  });
+});
+
+describe('sanitizeEnsemble', () => {
+  it('keeps a well-formed summary and defaults the failure count', () => {
+    const votes = [{ model: 'm', seed: 0, diagnosis: 'CNV', confidence: 90 }];
+    expect(sanitizeEnsemble({ votes, agreement: 100 })).toEqual({ votes, agreement: 100, failed: 0 });
+  });
+
+  it('drops a malformed summary', () => {
+    expect(sanitizeEnsemble({ votes: [], agreement: 100 })).toBeUndefined();
+    expect(sanitizeEnsemble({ votes: [{ model: 'm' }], agreement: 100 })).toBeUndefined();
+    expect(sanitizeEnsemble(null)).toBeUndefined();
+  });
+});
@@ -0,0 +1,68 @@
+import type { AnalysisResult, EnsembleSettings, EnsembleSummary, EnsembleVote } from '../types';
+
+// Ensemble classification: each scan is classified several times, by different
+// models or sampling seeds, and the diagnosis is decided by vote.
+
+export const MAX_ENSEMBLE_SIZE = 7;
+
+export const isEnsembleEnabled = (settings: EnsembleSettings) => settings.size > 1;
+
+/** The model of each member: the configured models in turn, or the fallback for every run. */
+export const memberModels = (settings: EnsembleSettings, fallbackModel: string): string[] =>
+  Array.from({ length: settings.size }, (_, index) => settings.models.length > 0 ? settings.models[index % settings.models.length] : fallbackModel);
+
+/** Votes per diagnosis, most votes first. */
+export const voteDistribution = ({ votes }: EnsembleSummary) => {
+  const counts = new Map<AnalysisResult['diagnosis'], number>();
+  votes.forEach(vote => counts.set(vote.diagnosis, (counts.get(vote.diagnosis) ?? 0) + 1));
+  return [...counts.entries()].map(([diagnosis, count]) => ({ diagnosis, count })).sort((a, b) => b.count - a.count);
+};
+
+/** e.g. "CNV 2, DME 1". */
+export const formatVotes = (ensemble: EnsembleSummary) =>
+  voteDistribution(ensemble).map(({ diagnosis, count }) => `${diagnosis} ${count}`).join(', ');
+
+export interface EnsembleMember {
+  model: string;
+  seed: number;
+  result: AnalysisResult;
+}
+
+/**
+ * Decides the diagnosis by plurality vote; a tie goes to the diagnosis with the
+ * higher summed confidence. The report is that of the most confident member
+ * that voted for the winner, and the confidence is the winners' mean. Failed
+ * members count against agreement, so an ensemble that mostly failed is not
+ * reported as unanimous.
+ */
+export const aggregateEnsemble = (members: EnsembleMember[], failed = 0): AnalysisResult => {
+  const votes: EnsembleVote[] = members.map(({ model, seed, result }) => ({ model, seed, diagnosis: result.diagnosis, confidence: result.confidence }));
+  const tally = new Map<AnalysisResult['diagnosis'], { count: number; confidence: number }>();
+  votes.forEach(vote => {
+    const entry = tally.get(vote.diagnosis) ?? { count: 0, confidence: 0 };
+    tally.set(vote.diagnosis, { count: entry.count + 1, confidence: entry.confidence + vote.confidence });
+  });
+  const [winner, { count }] = [...tally.entries()].sort(([, a], [, b]) => b.count - a.count || b.confidence - a.confidence)[0];
+  const winners = members.filter(member => member.result.diagnosis === winner);
+  const representative = winners.reduce((best, member) => member.result.confidence > best.result.confidence ? member : best);
+  const confidence = winners.reduce((sum, member) => sum + member.result.confidence, 0) / winners.length;
+  return {
+    ...representative.result,
+    confidence: Math.round(confidence * 10) / 10,
+    ensemble: { votes, agreement: Math.round(count / (votes.length + failed) * 1000) / 10, failed },
+  };
+};
+
+const isVote = (value: unknown): value is EnsembleVote => {
+  const vote = value as Partial<EnsembleVote> | null;
+  return !!vote && typeof vote.model === 'string' && typeof vote.seed === 'number'
+    && typeof vote.diagnosis === 'string' && typeof vote.confidence === 'number';
+};
+
+/** Keeps the ensemble summary of an imported record when it is well-formed. */
+export const sanitizeEnsemble = (value: unknown): EnsembleSummary | undefined => {
+  const ensemble = value as Partial<EnsembleSummary> | null;
+  if (!ensemble || !Array.isArray(ensemble.votes) || ensemble.votes.length === 0 || !ensemble.votes.every(isVote)
+    || typeof ensemble.agreement !== 'number') return undefined;
+  return { votes: ensemble.votes, agreement: ensemble.agreement, failed: typeof ensemble.failed === 'number' ? ensemble.failed : 0 };
+};
@@ -0,0 +1,164 @@
+import type { AnalysisResult, AnalyzableImage, ClinicalDiagnosis } from '../types';
+import { CLINICAL_DIAGNOSES } from './analysisResult';
+
+type Diagnosis = AnalysisResult['diagnosis'];
+
+export interface ClassMetrics {
+  diagnosis: ClinicalDiagnosis;
+  /** Images whose ground truth is this class. */
+  support: number;
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  trueNegatives: number;
+  /** Undefined when there are no positive (or negative) cases to measure against. */
+  sensitivity?: number;
+  specificity?: number;
+}
+
+export interface CalibrationBin {
+  /** Inclusive lower and exclusive upper confidence bound (the last bin includes 100). */
+  lower: number;
+  upper: number;
+  count: number;
+  meanConfidence?: number;
+  accuracy?: number;
+}
+
+/** Accuracy of one prompt preset version, for A/B comparison of presets on the same labeled images. */
+export interface PromptVersionMetrics {
+  promptVersion: string;
+  /** Labeled images with an unprompted result from this prompt version. */
+  evaluated: number;
+  correct: number;
+  accuracy?: number;
+  meanConfidence?: number;
+}
+
+export interface EvaluationSummary {
+  /** Images with a ground-truth label. */
+  labeled: number;
+  /** Labeled images that also have a model result. */
+  evaluated: number;
+  correct: number;
+  accuracy?: number;
+  /** confusion[truth][predicted]; 'Requires Further Review' collects results the model could not classify. */
+  confusion: Record<ClinicalDiagnosis, Record<Diagnosis, number>>;
+  classes: ClassMetrics[];
+  calibration: CalibrationBin[];
+  /** Count-weighted mean gap between confidence and accuracy across bins, in percentage points. */
+  expectedCalibrationError?: number;
+  referral: {
+    /** Evaluated results flagged for human review by triage. */
+    count: number;
+    rate?: number;
+    /** Accuracy of the results that were and were not referred. */
+    referredAccuracy?: number;
+    automatedAccuracy?: number;
+  };
+  /** Per prompt version across each image's history, most evaluated first; results without provenance are left out. */
+  promptVersions: PromptVersionMetrics[];
+}
+
+const CALIBRATION_EDGES = [0, 50, 60, 70, 80, 90, 100];
+
+const ratio = (numerator: number, denominator: number) => denominator > 0 ? numerator / denominator : undefined;
+
+// Re-analyzing a batch with another preset adds a version to each image, so every
+// image can contribute one result per prompt version: its latest one. Refinements
+// are left out because clinician feedback, not the prompts, shaped them.
+const evaluatePromptVersions = (labeled: AnalyzableImage[]): PromptVersionMetrics[] => {
+  const byVersion = new Map<string, { groundTruth: ClinicalDiagnosis; result: AnalysisResult }[]>();
+  labeled.forEach(image => {
+    const latest = new Map<string, AnalysisResult>();
+    (image.versions ?? [])
+      .filter(version => !version.feedback && !version.annotations?.length)
+      .forEach(({ result }) => {
+        if (result.provenance) latest.set(result.provenance.promptVersion, result);
+      });
+    latest.forEach((result, promptVersion) => {
+      byVersion.set(promptVersion, [...(byVersion.get(promptVersion) ?? []), { groundTruth: image.groundTruth!, result }]);
+    });
+  });
+  return [...byVersion.entries()]
+    .map(([promptVersion, entries]): PromptVersionMetrics => {
+      const correct = entries.filter(({ groundTruth, result }) => result.diagnosis === groundTruth).length;
+      return {
+        promptVersion,
+        evaluated: entries.length,
+        correct,
+        accuracy: ratio(correct, entries.length),
+        meanConfidence: ratio(entries.reduce((sum, { result }) => sum + result.confidence, 0), entries.length),
+      };
+    })
+    .sort((a, b) => b.evaluated - a.evaluated || a.promptVersion.localeCompare(b.promptVersion));
+};
+
+export const evaluateResults = (images: AnalyzableImage[]): EvaluationSummary => {
+  const labeled = images.filter(image => image.groundTruth);
+  const evaluated = labeled.filter((image): image is AnalyzableImage & { groundTruth: ClinicalDiagnosis; result: AnalysisResult } => !!image.result);
+  const isCorrect = (image: typeof evaluated[number]) => image.result.diagnosis === image.groundTruth;
+
+  const confusion = Object.fromEntries(CLINICAL_DIAGNOSES.map(truth => [
+    truth,
+    Object.fromEntries([...CLINICAL_DIAGNOSES, 'Requires Further Review'].map(predicted => [predicted, 0])),
+  ])) as EvaluationSummary['confusion'];
+  evaluated.forEach(image => {
+    confusion[image.groundTruth][image.result.diagnosis] += 1;
+  });
+
+  const classes = CLINICAL_DIAGNOSES.map((diagnosis): ClassMetrics => {
+    const truePositives = evaluated.filter(image => image.groundTruth === diagnosis && image.result.diagnosis === diagnosis).length;
+    const falseNegatives = evaluated.filter(image => image.groundTruth === diagnosis && image.result.diagnosis !== diagnosis).length;
+    const falsePositives = evaluated.filter(image => image.groundTruth !== diagnosis && image.result.diagnosis === diagnosis).length;
+    const trueNegatives = evaluated.length - truePositives - falseNegatives - falsePositives;
+    return {
+      diagnosis,
+      support: truePositives + falseNegatives,
+      truePositives,
+      falsePositives,
+      falseNegatives,
+      trueNegatives,
+      sensitivity: ratio(truePositives, truePositives + falseNegatives),
+      specificity: ratio(trueNegatives, trueNegatives + falsePositives),
+    };
+  });
+
+  const calibration = CALIBRATION_EDGES.slice(0, -1).map((lower, index): CalibrationBin => {
+    const upper = CALIBRATION_EDGES[index + 1];
+    const inBin = evaluated.filter(({ result }) => result.confidence >= lower && (result.confidence < upper || (upper === 100 && result.confidence === 100)));
+    return {
+      lower,
+      upper,
+      count: inBin.length,
+      meanConfidence: ratio(inBin.reduce((sum, image) => sum + image.result.confidence, 0), inBin.length),
+      accuracy: ratio(inBin.filter(isCorrect).length * 100, inBin.length),
+    };
+  });
+  const expectedCalibrationError = ratio(
+    calibration.reduce((sum, bin) => sum + (bin.count > 0 ? bin.count * Math.abs(bin.meanConfidence! - bin.accuracy!) : 0), 0),
+    evaluated.length,
+  );
+
+  const referred = evaluated.filter(image => image.result.reviewReason || image.result.diagnosis === 'Requires Further Review');
+  const automated = evaluated.filter(image => !referred.includes(image));
+  const correct = evaluated.filter(isCorrect).length;
+
+  return {
+    labeled: labeled.length,
+    evaluated: evaluated.length,
+    correct,
+    accuracy: ratio(correct, evaluated.length),
+    confusion,
+    classes,
+    calibration,
+    expectedCalibrationError,
+    referral: {
+      count: referred.length,
+      rate: ratio(referred.length, evaluated.length),
+      referredAccuracy: ratio(referred.filter(isCorrect).length, referred.length),
+      automatedAccuracy: ratio(automated.filter(isCorrect).length, automated.length),
+    },
+    promptVersions: evaluatePromptVersions(labeled),
+  };
+};
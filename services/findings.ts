@@ -0,0 +1,123 @@
+import type { DrusenSizeClass, FindingFlag, StructuredFindings } from '../types';
+
+export const DRUSEN_SIZE_CLASSES: DrusenSizeClass[] = ['none', 'small', 'medium', 'large'];
+
+const FLAG_FIELDS = ['intraretinalFluid', 'subretinalFluid', 'geographicAtrophy', 'epiretinalMembrane', 'vitreomacularTraction'] as const;
+
+const FLAG_LABELS: Record<typeof FLAG_FIELDS[number], string> = {
+  intraretinalFluid: 'Intraretinal fluid',
+  subretinalFluid: 'Subretinal fluid',
+  geographicAtrophy: 'Geographic atrophy',
+  epiretinalMembrane: 'Epiretinal membrane (ERM)',
+  vitreomacularTraction: 'Vitreomacular traction (VMT)',
+};
+
+export interface FindingRow {
+  label: string;
+  value: string;
+  confidence: number;
+  /** True when the row describes a positive (abnormal) finding. */
+  positive: boolean;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isConfidence = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 100;
+
+/** Checks model output against the StructuredFindings shape and lists every problem found. */
+export const validateFindings = (value: unknown): { findings?: StructuredFindings; errors: string[] } => {
+  const errors: string[] = [];
+  if (!isRecord(value)) {
+    return { errors: ['findings must be an object'] };
+  }
+
+  FLAG_FIELDS.forEach(field => {
+    const flag = value[field];
+    if (!isRecord(flag)) {
+      errors.push(`findings.${field} is missing`);
+      return;
+    }
+    if (typeof flag.present !== 'boolean') errors.push(`findings.${field}.present must be a boolean`);
+    if (!isConfidence(flag.confidence)) errors.push(`findings.${field}.confidence must be a number from 0 to 100`);
+  });
+
+  const drusen = value.drusen;
+  if (!isRecord(drusen)) {
+    errors.push('findings.drusen is missing');
+  } else {
+    if (typeof drusen.count !== 'number' || !Number.isInteger(drusen.count) || drusen.count < 0) {
+      errors.push('findings.drusen.count must be a non-negative integer');
+    }
+    if (!DRUSEN_SIZE_CLASSES.includes(drusen.sizeClass as DrusenSizeClass)) {
+      errors.push(`findings.drusen.sizeClass must be one of ${DRUSEN_SIZE_CLASSES.join(', ')}`);
+    }
+    if (!isConfidence(drusen.confidence)) errors.push('findings.drusen.confidence must be a number from 0 to 100');
+  }
+
+  const thickness = value.centralRetinalThickness;
+  if (!isRecord(thickness)) {
+    errors.push('findings.centralRetinalThickness is missing');
+  } else {
+    const micrometers = thickness.micrometers ?? null;
+    if (micrometers !== null && (typeof micrometers !== 'number' || micrometers <= 0 || micrometers > 2000)) {
+      errors.push('findings.centralRetinalThickness.micrometers must be a positive number of micrometers or null');
+    }
+    if (!isConfidence(thickness.confidence)) errors.push('findings.centralRetinalThickness.confidence must be a number from 0 to 100');
+  }
+
+  if (errors.length > 0) return { errors };
+
+  const flag = (field: typeof FLAG_FIELDS[number]): FindingFlag => {
+    const { present, confidence } = value[field] as FindingFlag;
+    return { present, confidence };
+  };
+  const validDrusen = drusen as StructuredFindings['drusen'];
+  const validThickness = thickness as Record<string, unknown>;
+  return {
+    errors,
+    findings: {
+      intraretinalFluid: flag('intraretinalFluid'),
+      subretinalFluid: flag('subretinalFluid'),
+      drusen: { count: validDrusen.count, sizeClass: validDrusen.sizeClass, confidence: validDrusen.confidence },
+      geographicAtrophy: flag('geographicAtrophy'),
+      epiretinalMembrane: flag('epiretinalMembrane'),
+      vitreomacularTraction: flag('vitreomacularTraction'),
+      centralRetinalThickness: {
+        micrometers: (validThickness.micrometers as number | null | undefined) ?? null,
+        confidence: validThickness.confidence as number,
+      },
+    },
+  };
+};
+
+/** Flattens findings into display rows, shared by the findings table and report exports. */
+export const getFindingRows = (findings: StructuredFindings): FindingRow[] => [
+  ...(['intraretinalFluid', 'subretinalFluid'] as const).map(field => ({
+    label: FLAG_LABELS[field],
+    value: findings[field].present ? 'Present' : 'Absent',
+    confidence: findings[field].confidence,
+    positive: findings[field].present,
+  })),
+  {
+    label: 'Drusen',
+    value: findings.drusen.count > 0 ? `${findings.drusen.count} (${findings.drusen.sizeClass})` : 'None',
+    confidence: findings.drusen.confidence,
+    positive: findings.drusen.count > 0,
+  },
+  ...(['geographicAtrophy', 'epiretinalMembrane', 'vitreomacularTraction'] as const).map(field => ({
+    label: FLAG_LABELS[field],
+    value: findings[field].present ? 'Present' : 'Absent',
+    confidence: findings[field].confidence,
+    positive: findings[field].present,
+  })),
+  {
+    label: 'Central retinal thickness',
+    value: findings.centralRetinalThickness.micrometers !== null
+      ? `${Math.round(findings.centralRetinalThickness.micrometers)} µm`
+      : 'Not estimated',
+    confidence: findings.centralRetinalThickness.confidence,
+    positive: false,
+  },
+];
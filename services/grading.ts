@@ -0,0 +1,120 @@
+import type { AnalysisResult, Grade, GradingStage, ScanGrading } from '../types';
+import { CLINICAL_DIAGNOSES, DIAGNOSES } from './analysisResult';
+
+// Human grading for reader studies and clinical sign-off. A first grader
+// records a diagnosis and a second grader may grade the scan independently.
+// When the two disagree an adjudicator decides. Signing off makes the grading
+// final until it is reopened. Grades use the AI's diagnoses, so the two compare.
+
+export const GRADING_STAGES: GradingStage[] = ['awaiting-grade', 'awaiting-adjudication', 'awaiting-sign-off', 'signed-off'];
+
+export const GRADING_STAGE_LABELS: Record<GradingStage, string> = {
+  'awaiting-grade': 'Awaiting grading',
+  'awaiting-adjudication': 'Awaiting adjudication',
+  'awaiting-sign-off': 'Awaiting sign-off',
+  'signed-off': 'Signed off',
+};
+
+/** Graders choose from the AI's diagnoses, most severe first. */
+export const GRADE_DIAGNOSES: AnalysisResult['diagnosis'][] = [...CLINICAL_DIAGNOSES, 'Requires Further Review'];
+
+export const gradersDisagree = (grading?: ScanGrading) =>
+  !!grading?.first && !!grading.second && grading.first.diagnosis !== grading.second.diagnosis;
+
+/** The human diagnosis: the adjudicated one, or the graders' when they agree. Undefined while a disagreement is open. */
+export const humanDiagnosis = (grading?: ScanGrading): AnalysisResult['diagnosis'] | undefined =>
+  grading?.adjudication?.diagnosis ?? (grading?.first && !gradersDisagree(grading) ? grading.first.diagnosis : undefined);
+
+export const gradingStage = (grading?: ScanGrading): GradingStage => {
+  if (grading?.signedOff) return 'signed-off';
+  if (!grading?.first) return 'awaiting-grade';
+  if (gradersDisagree(grading) && !grading.adjudication) return 'awaiting-adjudication';
+  return 'awaiting-sign-off';
+};
+
+/** Whether the AI agrees with the human diagnosis; undefined until both exist. */
+export const aiAgreesWithGraders = (result: AnalysisResult | undefined, grading?: ScanGrading): boolean | undefined => {
+  const human = humanDiagnosis(grading);
+  return result && human ? result.diagnosis === human : undefined;
+};
+
+/** E.g. "AI CNV vs. human DME: disagree"; undefined until both exist. */
+export const formatAiAgreement = (result: AnalysisResult | undefined, grading?: ScanGrading) => {
+  const agrees = aiAgreesWithGraders(result, grading);
+  return agrees === undefined ? undefined : `AI ${result!.diagnosis} vs. human ${humanDiagnosis(grading)}: ${agrees ? 'agree' : 'disagree'}`;
+};
+
+/** A second grade must come from someone other than the first grader. */
+export const isSameGrader = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+export const createGrade = (grader: string, diagnosis: AnalysisResult['diagnosis']): Grade =>
+  ({ grader: grader.trim(), diagnosis, gradedAt: new Date().toISOString() });
+
+/** Takes back the most recent grade: the adjudication, else the second grade, else the first. */
+export const withoutLastGrade = (grading: ScanGrading): ScanGrading | undefined => {
+  if (grading.adjudication) return { ...grading, adjudication: undefined };
+  if (grading.second) return { ...grading, second: undefined };
+  return undefined;
+};
+
+export const formatGrade = ({ diagnosis, grader, gradedAt }: Grade) => `${diagnosis} (${grader}, ${new Date(gradedAt).toLocaleString()})`;
+
+/** One [label, value] row per recorded step, for reports. */
+export const gradingRows = ({ first, second, adjudication, signedOff }: ScanGrading): [string, string][] => {
+  const rows: [string, string][] = [];
+  if (first) rows.push(['First grade', formatGrade(first)]);
+  if (second) rows.push(['Second grade', formatGrade(second)]);
+  if (adjudication) rows.push(['Adjudication', formatGrade(adjudication)]);
+  if (signedOff) rows.push(['Signed off', `${signedOff.grader}, ${new Date(signedOff.signedAt).toLocaleString()}`]);
+  return rows;
+};
+
+/** What one edit in the grading panel did, e.g. "Second grade: DME (Dr. Lee, …)"; for the audit log. */
+export const describeGradingChange = (before: ScanGrading | undefined, after: ScanGrading | undefined) => {
+  if (after?.signedOff && !before?.signedOff) return `Signed off by ${after.signedOff.grader}`;
+  if (before?.signedOff && !after?.signedOff) return 'Reopened the grading';
+  const added = after && gradingRows(after).find(([label]) => !before || !gradingRows(before).some(([previous]) => previous === label));
+  return added ? `${added[0]}: ${added[1]}` : 'Undid the last grade';
+};
+
+const sanitizeGrade = (value: unknown): Grade | undefined => {
+  const grade = value as Partial<Grade> | null;
+  if (!grade || typeof grade !== 'object' || typeof grade.grader !== 'string' || !grade.grader.trim()
+    || !DIAGNOSES.includes(grade.diagnosis!) || typeof grade.gradedAt !== 'string') return undefined;
+  return { grader: grade.grader, diagnosis: grade.diagnosis!, gradedAt: grade.gradedAt };
+};
+
+/** Keeps the consistent part of an imported grading: each step only when the steps before it are present. */
+export const sanitizeGrading = (value: unknown): ScanGrading | undefined => {
+  if (typeof value !== 'object' || value === null) return undefined;
+  const raw = value as Record<string, unknown>;
+  const first = sanitizeGrade(raw.first);
+  if (!first) return undefined;
+  const second = sanitizeGrade(raw.second);
+  const grading: ScanGrading = { first, second };
+  if (gradersDisagree(grading)) grading.adjudication = sanitizeGrade(raw.adjudication);
+  const signedOff = raw.signedOff as Partial<NonNullable<ScanGrading['signedOff']>> | undefined;
+  if (gradingStage(grading) === 'awaiting-sign-off' && typeof signedOff?.grader === 'string' && typeof signedOff.signedAt === 'string') {
+    grading.signedOff = { grader: signedOff.grader, signedAt: signedOff.signedAt };
+  }
+  return grading;
+};
+
+const GRADER_NAME_KEY = 'oct-analyzer:grader-name';
+
+/** The name last used to grade on this device, so a grader does not retype it for every scan. */
+export const loadGraderName = () => {
+  try {
+    return localStorage.getItem(GRADER_NAME_KEY) ?? '';
+  } catch {
+    return '';
+  }
+};
+
+export const saveGraderName = (name: string) => {
+  try {
+    localStorage.setItem(GRADER_NAME_KEY, name.trim());
+  } catch (err) {
+    console.error('Failed to save the grader name:', err);
+  }
+};
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { labelFromPath, parseGroundTruthLabel, parseManifest } from './groundTruth';
+
+describe('parseGroundTruthLabel', () => {
+  it('accepts clinical diagnoses only', () => {
+    expect(parseGroundTruthLabel('DRUSEN')).toBe('Drusen');
+    expect(parseGroundTruthLabel('Requires Further Review')).toBeUndefined();
+  });
+});
+
+describe('labelFromPath', () => {
+  it('uses the nearest folder that names a diagnosis', () => {
+    const file = new File([], 'DRUSEN-123.jpeg');
+    Object.defineProperty(file, 'webkitRelativePath', { value: 'OCT2017/CNV/DRUSEN/DRUSEN-123.jpeg' });
+    expect(labelFromPath(file)).toBe('Drusen');
+    expect(labelFromPath(new File([], 'scan.png'))).toBeUndefined();
+  });
+});
+
+describe('parseManifest', () => {
+  it('finds the file and label columns by their header', () => {
+    const { labels, errors } = parseManifest('\uFEFFdiagnosis,Ground_Truth,File\nCNV,DME,scans/Scan-1.PNG\r\nNormal,normal,scan-2.png\n');
+    expect(errors).toEqual([]);
+    expect([...labels]).toEqual([['scan-1.png', 'DME'], ['scan-2.png', 'Normal']]);
+  });
+
+  it('uses the first two columns without a header', () => {
+    const { labels } = parseManifest('a.png,CNV\nb.png,wet AMD\n');
+    expect([...labels]).toEqual([['a.png', 'CNV'], ['b.png', 'CNV']]);
+  });
+
+  it('reads quoted cells with commas, quotes and newlines', () => {
+    const { labels } = parseManifest('file,label\n"scan, ""left"".png",Drusen\n"multi\nline.png",GA\n');
+    expect([...labels]).toEqual([['scan, "left".png', 'Drusen'], ['multi\nline.png', 'Geographic Atrophy']]);
+  });
+
+  it('reports rows it cannot use and skips blank ones', () => {
+    const { labels, errors } = parseManifest('file,label\na.png,glaucoma\n\n,CNV\nb.png,DME');
+    expect([...labels]).toEqual([['b.png', 'DME']]);
+    expect(errors).toEqual(['Row 2: unknown label "glaucoma".', 'Row 3: missing file name.']);
+  });
+});
@@ -0,0 +1,99 @@
+import type { ClinicalDiagnosis } from '../types';
+import { parseDiagnosisLabel } from './analysisResult';
+
+const FILE_COLUMNS = ['file', 'file_name', 'filename', 'image', 'name'];
+const LABEL_COLUMNS = ['ground_truth', 'groundtruth', 'truth', 'label', 'class', 'diagnosis'];
+
+export interface ManifestParseResult {
+  /** Ground truth keyed by lower-cased file name. */
+  labels: Map<string, ClinicalDiagnosis>;
+  errors: string[];
+}
+
+export const parseGroundTruthLabel = (value: string): ClinicalDiagnosis | undefined => {
+  const diagnosis = parseDiagnosisLabel(value);
+  return diagnosis === 'Requires Further Review' ? undefined : diagnosis;
+};
+
+/**
+ * Reads the ground truth from the folder a file was uploaded from, e.g.
+ * `OCT2017/test/DRUSEN/DRUSEN-123.jpeg`. The nearest matching folder wins.
+ */
+export const labelFromPath = (file: File): ClinicalDiagnosis | undefined => {
+  const folders = (file.webkitRelativePath || '').split('/').slice(0, -1).reverse();
+  for (const folder of folders) {
+    const label = parseGroundTruthLabel(folder);
+    if (label) return label;
+  }
+  return undefined;
+};
+
+// RFC 4180 rows: quoted cells may contain commas, quotes ("") and newlines.
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(value => value.trim()));
+};
+
+/**
+ * Parses a CSV manifest mapping file names to ground-truth diagnoses. A header
+ * row naming the file and label columns is optional; without one the first
+ * two columns are used.
+ */
+export const parseManifest = (text: string): ManifestParseResult => {
+  const rows = parseCsv(text.replace(/^\uFEFF/, ''));
+  const header = (rows[0] ?? []).map(cell => cell.trim().toLowerCase());
+  // Column names are tried in priority order, so a `ground_truth` column wins over a predicted `diagnosis`.
+  const findColumn = (names: string[]) => names.map(name => header.indexOf(name)).find(index => index >= 0) ?? -1;
+  const fileColumn = findColumn(FILE_COLUMNS);
+  const labelColumn = findColumn(LABEL_COLUMNS);
+  const hasHeader = fileColumn >= 0 && labelColumn >= 0;
+  const columns = hasHeader ? { file: fileColumn, label: labelColumn } : { file: 0, label: 1 };
+
+  const labels = new Map<string, ClinicalDiagnosis>();
+  const errors: string[] = [];
+  rows.slice(hasHeader ? 1 : 0).forEach((row, index) => {
+    const fileName = row[columns.file]?.trim();
+    const rawLabel = row[columns.label]?.trim() ?? '';
+    const label = parseGroundTruthLabel(rawLabel);
+    if (!fileName || !label) {
+      errors.push(`Row ${index + (hasHeader ? 2 : 1)}: ${fileName ? `unknown label "${rawLabel}"` : 'missing file name'}.`);
+      return;
+    }
+    // Manifests often list paths; match on the file name alone.
+    labels.set(fileName.split(/[\\/]/).pop()!.toLowerCase(), label);
+  });
+  return { labels, errors };
+};
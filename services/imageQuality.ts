@@ -0,0 +1,116 @@
+import type { AnalyzableImage, ImageQuality, ImageQualityMetrics, ModelQualityCheck, QualitySettings } from '../types';
+
+// Pre-analysis quality gate. Local pixel statistics catch scans that are too
+// small, washed out, blurred or obviously not OCT before any model call; the
+// optional model check judges what pixels cannot, like a cropped fovea.
+
+export const DEFAULT_QUALITY_SETTINGS: QualitySettings = { mode: 'warn', modelCheck: false };
+
+export const QUALITY_GATE_MODES: { mode: QualitySettings['mode']; name: string; description: string }[] = [
+  { mode: 'off', name: 'Off', description: 'Analyze every scan.' },
+  { mode: 'warn', name: 'Warn', description: 'Ask before analyzing scans that look ungradable.' },
+  { mode: 'skip', name: 'Skip', description: 'Leave scans that look ungradable out of batch analysis.' },
+];
+
+// Set conservatively, so that only clearly unusable scans are caught.
+const QUALITY_THRESHOLDS = {
+  minDimension: 128,
+  minContrast: 18,
+  minSharpness: 12,
+  maxColorfulness: 45,
+};
+
+// Metrics are computed on a downscaled copy, so they do not depend on the export resolution.
+const ANALYSIS_WIDTH = 512;
+
+export const measureImage = async (file: File): Promise<ImageQualityMetrics> => {
+  const bitmap = await createImageBitmap(file);
+  const { width, height } = bitmap;
+  const scale = Math.min(1, ANALYSIS_WIDTH / width);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    bitmap.close();
+    throw new Error('Canvas 2D context is not available.');
+  }
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+
+  const pixels = canvas.width * canvas.height;
+  const luminance = new Float32Array(pixels);
+  let sum = 0;
+  let chroma = 0;
+  for (let i = 0; i < pixels; i++) {
+    const [r, g, b] = [data[i * 4], data[i * 4 + 1], data[i * 4 + 2]];
+    luminance[i] = 0.299 * r + 0.587 * g + 0.114 * b;
+    sum += luminance[i];
+    chroma += Math.max(r, g, b) - Math.min(r, g, b);
+  }
+  const mean = sum / pixels;
+  const contrast = Math.sqrt(luminance.reduce((acc, value) => acc + (value - mean) ** 2, 0) / pixels);
+
+  // Variance of the 4-neighbour Laplacian over the interior pixels.
+  const laplacian: number[] = [];
+  for (let y = 1; y < canvas.height - 1; y++) {
+    for (let x = 1; x < canvas.width - 1; x++) {
+      const i = y * canvas.width + x;
+      laplacian.push(luminance[i - 1] + luminance[i + 1] + luminance[i - canvas.width] + luminance[i + canvas.width] - 4 * luminance[i]);
+    }
+  }
+  const laplacianMean = laplacian.reduce((acc, value) => acc + value, 0) / Math.max(1, laplacian.length);
+  const sharpness = laplacian.reduce((acc, value) => acc + (value - laplacianMean) ** 2, 0) / Math.max(1, laplacian.length);
+
+  const round = (value: number) => Math.round(value * 10) / 10;
+  return { width, height, contrast: round(contrast), sharpness: round(sharpness), colorfulness: round(chroma / pixels) };
+};
+
+/** Lists what makes a scan ungradable. An empty list means it passed. */
+export const getQualityReasons = (metrics: ImageQualityMetrics, model?: ModelQualityCheck): string[] => {
+  const reasons: string[] = [];
+  if (Math.min(metrics.width, metrics.height) < QUALITY_THRESHOLDS.minDimension) {
+    reasons.push(`The image is only ${metrics.width}×${metrics.height} px.`);
+  }
+  if (metrics.contrast < QUALITY_THRESHOLDS.minContrast) {
+    reasons.push(`Contrast is very low (${metrics.contrast}), which suggests weak signal strength.`);
+  }
+  if (metrics.sharpness < QUALITY_THRESHOLDS.minSharpness) {
+    reasons.push(`The image is blurred (sharpness ${metrics.sharpness}), e.g. from motion.`);
+  }
+  if (metrics.colorfulness > QUALITY_THRESHOLDS.maxColorfulness) {
+    reasons.push('The image is strongly colored and does not look like a grayscale OCT B-scan.');
+  }
+  if (model && !model.isOct) {
+    reasons.push(`Not a retinal OCT B-scan: ${model.reason}`);
+  } else if (model && !model.gradable) {
+    reasons.push(`Not gradable: ${model.reason}`);
+  }
+  return reasons;
+};
+
+export const assessQuality = (metrics: ImageQualityMetrics, model?: ModelQualityCheck): ImageQuality => {
+  const reasons = getQualityReasons(metrics, model);
+  return { checkedAt: new Date().toISOString(), metrics, model, gradable: reasons.length === 0, reasons };
+};
+
+/** Whether the gate holds this scan back from analysis under the given settings. */
+export const isHeldBack = (image: AnalyzableImage, settings: QualitySettings) =>
+  settings.mode !== 'off' && !!image.quality && !image.quality.gradable && !image.qualityOverride;
+
+/** Checks a parsed quality-check response; the reason is optional when the image passes. */
+export const parseModelQualityCheck = (text: string): { check?: ModelQualityCheck; errors: string[] } => {
+  let value: Partial<Record<keyof ModelQualityCheck, unknown>>;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    return { errors: ['the response is not valid JSON'] };
+  }
+  const errors: string[] = [];
+  if (typeof value?.isOct !== 'boolean') errors.push('isOct must be a boolean');
+  if (typeof value?.gradable !== 'boolean') errors.push('gradable must be a boolean');
+  if (value?.reason !== undefined && typeof value.reason !== 'string') errors.push('reason must be a string');
+  if (errors.length > 0) return { errors };
+  return { errors: [], check: { isOct: value.isOct as boolean, gradable: value.gradable as boolean, reason: (value.reason as string | undefined) ?? '' } };
+};
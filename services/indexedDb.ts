@@ -0,0 +1,35 @@
+// Promise wrappers for IndexedDB, shared by the local stores. Each store keeps
+// its own database and defines its schema in `upgrade`.
+
+/**
+ * Returns a function that opens the database once and then reuses the
+ * connection. A failed open is not remembered, so the next call tries again.
+ */
+export const createDatabaseOpener = (name: string, version: number, upgrade: (db: IDBDatabase) => void) => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  return (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+      dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(name, version);
+        request.onupgradeneeded = () => upgrade(request.result);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return dbPromise;
+  };
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+export const transactionDone = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
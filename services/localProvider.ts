@@ -0,0 +1,331 @@
+import type { AnalysisResult, ChangeAssessment, ChangeDirection, FindingChange, StructuredFindings } from '../types';
+import type { ChatTurn, ProviderCallOptions, StageProvider, VisitScan } from './analysisProvider';
+import { ANNOTATION_LABELS, describeRegion } from './annotations';
+import { getFindingRows } from './findings';
+
+// Offline stand-in for the model backend. Results are canned and picked from a
+// hash of the file, so the same scan always produces the same report and maps.
+
+const SIMULATED_LATENCY_MS = 600;
+
+const EXPLAINABILITY = 'The simulated hybrid model extracts multi-scale features with Deeplab\'s atrous spatial pyramid pooling, while TransUNet\'s transformer encoder reasons over the full B-scan. An attention module fuses both streams so the classifier concentrates on salient pathology, and the shared multi-task backbone learns segmentation and classification together. The warm regions in the Attention Heatmap mark the areas that contributed most to this diagnosis.';
+
+// Fills in the unremarkable findings so each canned result only lists what it shows.
+const findings = (overrides: Partial<StructuredFindings>): StructuredFindings => ({
+  intraretinalFluid: { present: false, confidence: 90 },
+  subretinalFluid: { present: false, confidence: 90 },
+  drusen: { count: 0, sizeClass: 'none', confidence: 88 },
+  geographicAtrophy: { present: false, confidence: 92 },
+  epiretinalMembrane: { present: false, confidence: 85 },
+  vitreomacularTraction: { present: false, confidence: 90 },
+  centralRetinalThickness: { micrometers: 270, confidence: 75 },
+  ...overrides,
+});
+
+const CANNED_RESULTS: AnalysisResult[] = [
+  {
+    diagnosis: 'Normal',
+    confidence: 96.2,
+    explanation: 'Retinal layers are well defined and continuous with a preserved foveal depression. No intraretinal or subretinal fluid, drusen or RPE disruption is visible.',
+    explainability: EXPLAINABILITY,
+    uncertaintyStatement: 'Confidence is high: layer boundaries are crisp and no pathological features compete for attention.',
+    segmentationUncertaintyStatement: 'Segmentation confidence is high across all layers; only the scan edges show minor ambiguity from signal fall-off.',
+    findings: findings({ centralRetinalThickness: { micrometers: 268, confidence: 82 } }),
+  },
+  {
+    diagnosis: 'DME',
+    confidence: 88.4,
+    explanation: 'Multiple hyporeflective cyst-like spaces are present within the inner and outer nuclear layers with diffuse retinal thickening. No neovascular lesion is identified beneath the RPE, consistent with diabetic macular edema.',
+    explainability: EXPLAINABILITY,
+    uncertaintyStatement: 'Fluid is unambiguous; the main source of uncertainty is excluding a small occult neovascular membrane.',
+    segmentationUncertaintyStatement: 'The margins of the smaller intraretinal cysts are indistinct and carry the highest segmentation uncertainty.',
+    findings: findings({
+      intraretinalFluid: { present: true, confidence: 93 },
+      subretinalFluid: { present: false, confidence: 71 },
+      centralRetinalThickness: { micrometers: 452, confidence: 68 },
+    }),
+  },
+  {
+    diagnosis: 'CNV',
+    confidence: 91,
+    explanation: 'A disorganized hyper-reflective lesion breaches the RPE with overlying subretinal fluid lifting the neurosensory retina, the hallmark of choroidal neovascularization.',
+    explainability: EXPLAINABILITY,
+    uncertaintyStatement: 'Both the core lesion and associated fluid are visible, supporting a confident diagnosis.',
+    segmentationUncertaintyStatement: 'The boundary between the fibrovascular lesion and surrounding RPE is blurred and uncertain.',
+    anomalyReport: 'Mild epiretinal membrane noted along the inner retinal surface.',
+    findings: findings({
+      intraretinalFluid: { present: true, confidence: 64 },
+      subretinalFluid: { present: true, confidence: 92 },
+      epiretinalMembrane: { present: true, confidence: 72 },
+      centralRetinalThickness: { micrometers: 389, confidence: 61 },
+    }),
+  },
+  {
+    diagnosis: 'Drusen',
+    confidence: 84.7,
+    explanation: 'Several small to medium dome-shaped elevations of the RPE are present without fluid or significant RPE atrophy.',
+    explainability: EXPLAINABILITY,
+    uncertaintyStatement: 'Drusen are clearly visible; the distinction from early dry AMD depends on size, which is borderline in places.',
+    segmentationUncertaintyStatement: 'The bases of the drusen deposits merge with Bruch\'s membrane, making their lower edges uncertain.',
+    findings: findings({
+      drusen: { count: 5, sizeClass: 'medium', confidence: 83 },
+      centralRetinalThickness: { micrometers: 274, confidence: 78 },
+    }),
+  },
+  {
+    diagnosis: 'AMD',
+    confidence: 79.3,
+    explanation: 'Large confluent drusen with overlying RPE irregularity and hyper-reflective foci are present. No fluid is seen, consistent with dry age-related macular degeneration.',
+    explainability: EXPLAINABILITY,
+    uncertaintyStatement: 'Features overlap with isolated drusen; RPE changes tip the assessment toward dry AMD.',
+    segmentationUncertaintyStatement: 'Confluent drusen create irregular RPE contours that are difficult to delineate.',
+    findings: findings({
+      drusen: { count: 9, sizeClass: 'large', confidence: 81 },
+      centralRetinalThickness: { micrometers: 251, confidence: 72 },
+    }),
+  },
+  {
+    diagnosis: 'Geographic Atrophy',
+    confidence: 86.5,
+    explanation: 'A well-demarcated zone of RPE and outer retinal loss with increased choroidal signal hypertransmission is visible, characteristic of geographic atrophy.',
+    explainability: EXPLAINABILITY,
+    uncertaintyStatement: 'The atrophic zone is well defined; uncertainty is limited to its exact lateral extent.',
+    segmentationUncertaintyStatement: 'The transition from atrophic to preserved RPE is gradual at the lesion margins.',
+    findings: findings({
+      drusen: { count: 3, sizeClass: 'medium', confidence: 70 },
+      geographicAtrophy: { present: true, confidence: 88 },
+      centralRetinalThickness: { micrometers: 198, confidence: 74 },
+    }),
+  },
+  {
+    diagnosis: 'Drusen',
+    confidence: 62,
+    explanation: 'Subtle RPE elevations may represent small drusen, but image noise limits interpretation.',
+    explainability: EXPLAINABILITY,
+    uncertaintyStatement: 'Low signal strength and speckle noise make the findings equivocal.',
+    segmentationUncertaintyStatement: 'Most layer boundaries are uncertain because of low signal quality.',
+    findings: findings({
+      drusen: { count: 2, sizeClass: 'small', confidence: 58 },
+      centralRetinalThickness: { micrometers: null, confidence: 35 },
+    }),
+  },
+];
+
+const LAYER_COLORS = ['#22c55e', '#14b8a6', '#d946ef', '#10b981', '#2dd4bf'];
+
+const PATHOLOGY_COLORS: Partial<Record<AnalysisResult['diagnosis'], string>> = {
+  CNV: '#ef4444',
+  DME: '#3b82f6',
+  Drusen: '#facc15',
+  AMD: '#facc15',
+  'Geographic Atrophy': '#94a3b8',
+};
+
+const hashString = (value: string): number => {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+// mulberry32: a tiny seeded PRNG so generated overlays are reproducible.
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const fileSeed = (file: File) => hashString(`${file.name}:${file.size}:${file.lastModified}`);
+
+const pickResult = (file: File): AnalysisResult => CANNED_RESULTS[fileSeed(file) % CANNED_RESULTS.length];
+
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(signal.reason);
+    return;
+  }
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(signal.reason);
+  }, { once: true });
+});
+
+const drawOverlay = async (
+  file: File,
+  paint: (ctx: CanvasRenderingContext2D, width: number, height: number, random: () => number) => void,
+): Promise<string> => {
+  const bitmap = await createImageBitmap(file);
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas 2D context is not available.');
+  }
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  paint(ctx, canvas.width, canvas.height, createRandom(fileSeed(file)));
+  return canvas.toDataURL('image/jpeg', 0.9).split(',')[1];
+};
+
+// A seeded run stands in for one sample of an ensemble: about one in four
+// disagrees with the file's canned result, and the confidence varies a little.
+const sampleResult = (file: File, seed: number): AnalysisResult => {
+  const sample = hashString(`${fileSeed(file)}:${seed}`);
+  const result = sample % 4 === 0 ? CANNED_RESULTS[(fileSeed(file) + 1) % CANNED_RESULTS.length] : pickResult(file);
+  const confidence = Math.min(99.9, Math.max(40, result.confidence + (sample % 11) - 5));
+  return { ...result, confidence };
+};
+
+const classify = async (image: File, { refinementFeedback, annotations, seed, signal }: ProviderCallOptions = {}): Promise<AnalysisResult> => {
+  await delay(SIMULATED_LATENCY_MS, signal);
+  const result = seed === undefined ? { ...pickResult(image) } : sampleResult(image, seed);
+  if (refinementFeedback) {
+    result.explanation = `${result.explanation} Re-evaluated with clinician feedback: "${refinementFeedback}".`;
+  }
+  if (annotations?.length) {
+    const regions = annotations.map(annotation => `${ANNOTATION_LABELS[annotation.label].name} (${describeRegion(annotation.shape)})`);
+    result.explanation = `${result.explanation} Re-evaluated the clinician-marked regions: ${regions.join('; ')}.`;
+  }
+  return result;
+};
+
+const segment = async (image: File, { signal }: ProviderCallOptions = {}): Promise<string> => {
+  await delay(SIMULATED_LATENCY_MS, signal);
+  const { diagnosis } = pickResult(image);
+  return drawOverlay(image, (ctx, width, height, random) => {
+    const bandHeight = height * 0.06;
+    const top = height * (0.3 + random() * 0.1);
+    ctx.globalAlpha = 0.45;
+    LAYER_COLORS.forEach((color, index) => {
+      ctx.fillStyle = color;
+      ctx.fillRect(0, top + index * bandHeight, width, bandHeight);
+    });
+
+    const pathologyColor = PATHOLOGY_COLORS[diagnosis];
+    if (pathologyColor) {
+      ctx.globalAlpha = 0.7;
+      ctx.fillStyle = pathologyColor;
+      ctx.beginPath();
+      ctx.ellipse(width * (0.35 + random() * 0.3), top + bandHeight * 3, width * 0.08, bandHeight * 1.2, 0, 0, Math.PI * 2);
+      ctx.fill();
+    }
+
+    const legendHeight = Math.max(24, height * 0.07);
+    ctx.globalAlpha = 0.85;
+    ctx.fillStyle = '#0f172a';
+    ctx.fillRect(0, height - legendHeight, width, legendHeight);
+    ctx.globalAlpha = 1;
+    ctx.fillStyle = '#ffffff';
+    ctx.font = `${Math.round(legendHeight * 0.5)}px sans-serif`;
+    ctx.textBaseline = 'middle';
+    ctx.fillText('Color Key: Blue=Fluid, Yellow=Deposits/Drusen, Red=CNV, Green/Teal=Retinal Layers', 8, height - legendHeight / 2);
+  });
+};
+
+const heatmap = async (image: File, { signal }: ProviderCallOptions = {}): Promise<string> => {
+  await delay(SIMULATED_LATENCY_MS, signal);
+  return drawOverlay(image, (ctx, width, height, random) => {
+    ctx.fillStyle = 'rgba(100, 116, 139, 0.35)';
+    ctx.fillRect(0, 0, width, height);
+    for (let i = 0; i < 3; i++) {
+      const x = width * (0.2 + random() * 0.6);
+      const y = height * (0.35 + random() * 0.2);
+      const radius = Math.min(width, height) * (0.1 + random() * 0.12);
+      const gradient = ctx.createRadialGradient(x, y, 0, x, y, radius);
+      gradient.addColorStop(0, 'rgba(250, 204, 21, 0.85)');
+      gradient.addColorStop(0.5, 'rgba(239, 68, 68, 0.55)');
+      gradient.addColorStop(1, 'rgba(239, 68, 68, 0)');
+      ctx.fillStyle = gradient;
+      ctx.fillRect(x - radius, y - radius, radius * 2, radius * 2);
+    }
+  });
+};
+
+const uncertaintyMap = async (image: File, { signal }: ProviderCallOptions = {}): Promise<string> => {
+  await delay(SIMULATED_LATENCY_MS, signal);
+  return drawOverlay(image, (ctx, width, height, random) => {
+    ctx.fillStyle = 'rgba(46, 16, 101, 0.6)';
+    ctx.fillRect(0, 0, width, height);
+    ctx.strokeStyle = 'rgba(254, 240, 138, 0.8)';
+    ctx.lineWidth = Math.max(2, height * 0.01);
+    const top = height * 0.3;
+    for (let boundary = 0; boundary < 4; boundary++) {
+      ctx.beginPath();
+      const baseY = top + boundary * height * 0.07;
+      ctx.moveTo(0, baseY);
+      for (let x = 0; x <= width; x += width / 20) {
+        ctx.lineTo(x, baseY + (random() - 0.5) * height * 0.03);
+      }
+      ctx.stroke();
+    }
+  });
+};
+
+// Compares the findings of the two reports; scans without one use the canned result for the file.
+const compareVisits = async (baseline: VisitScan, followUp: VisitScan, { signal }: ProviderCallOptions = {}): Promise<ChangeAssessment> => {
+  await delay(SIMULATED_LATENCY_MS, signal);
+  const before = (baseline.result ?? pickResult(baseline.image)).findings ?? findings({});
+  const after = (followUp.result ?? pickResult(followUp.image)).findings ?? findings({});
+  const direction = (delta: number): ChangeDirection => delta < 0 ? 'improved' : delta > 0 ? 'worsened' : 'stable';
+  const flagChange = (finding: string, wasPresent: boolean, isPresent: boolean): FindingChange | undefined => {
+    if (!wasPresent && !isPresent) return undefined;
+    const change = direction(Number(isPresent) - Number(wasPresent));
+    return { finding, change, note: change === 'improved' ? 'Resolved since baseline.' : change === 'worsened' ? 'New since baseline.' : 'Present at both visits.' };
+  };
+
+  const findingChanges = [
+    flagChange('Intraretinal fluid', before.intraretinalFluid.present, after.intraretinalFluid.present),
+    flagChange('Subretinal fluid', before.subretinalFluid.present, after.subretinalFluid.present),
+    flagChange('Geographic atrophy', before.geographicAtrophy.present, after.geographicAtrophy.present),
+    before.drusen.count + after.drusen.count > 0
+      ? { finding: 'Drusen', change: direction(after.drusen.count - before.drusen.count), note: `${before.drusen.count} at baseline, ${after.drusen.count} at follow-up.` }
+      : undefined,
+  ].filter((change): change is FindingChange => !!change);
+  const beforeThickness = before.centralRetinalThickness.micrometers;
+  const afterThickness = after.centralRetinalThickness.micrometers;
+  if (beforeThickness !== null && afterThickness !== null) {
+    // Changes under 25 µm are within the repeatability of OCT thickness measurements.
+    const delta = afterThickness - beforeThickness;
+    findingChanges.push({
+      finding: 'Central retinal thickness',
+      change: Math.abs(delta) < 25 ? 'stable' : direction(delta),
+      note: `${Math.round(beforeThickness)} µm at baseline, ${Math.round(afterThickness)} µm at follow-up.`,
+    });
+  }
+
+  const score = findingChanges.reduce((sum, { change }) => sum + (change === 'worsened' ? 1 : change === 'improved' ? -1 : 0), 0);
+  const overall = direction(score);
+  return {
+    overall,
+    confidence: 80,
+    rationale: `Simulated comparison of ${baseline.visitDate} and ${followUp.visitDate}: ${findingChanges.filter(change => change.change !== 'stable').map(change => `${change.finding.toLowerCase()} ${change.change}`).join(', ') || 'no change in the reported findings'}.`,
+    findingChanges,
+  };
+};
+
+// Answers from the report alone: the findings the question names, or the diagnosis when it names none.
+const chat = async (_image: File, result: AnalysisResult, history: ChatTurn[], { signal }: ProviderCallOptions = {}): Promise<string> => {
+  await delay(SIMULATED_LATENCY_MS, signal);
+  const question = history[history.length - 1].text.toLowerCase();
+  const rows = result.findings ? getFindingRows(result.findings) : [];
+  const mentioned = rows.filter(row => row.label.toLowerCase().split(' ').some(word => word.length > 3 && question.includes(word)));
+  const details = (mentioned.length > 0 ? mentioned : rows).map(row => `${row.label}: ${row.value}`).join('; ');
+  return `Simulated reply: the report reads ${result.diagnosis} at ${result.confidence}% confidence.${details ? ` ${details}.` : ''} Connect a model backend for answers grounded in the scan itself.`;
+};
+
+export const localProvider: StageProvider = {
+  name: 'local',
+  // Canned results: the prompts and models of the registry do not apply.
+  modelFor: () => 'local-simulation',
+  classify,
+  segment,
+  heatmap,
+  uncertaintyMap,
+  compareVisits,
+  chat,
+};
@@ -0,0 +1,36 @@
+// Color keys for the generated maps. The segmentation key is also written into
+// the segmentation prompt, so the model, the viewer and reports share one mapping.
+
+export type RgbColor = [number, number, number];
+
+export interface LegendEntry {
+  label: string;
+  color: RgbColor;
+  /** How the color is named to the model. */
+  colorName: string;
+}
+
+export const SEGMENTATION_LEGEND: LegendEntry[] = [
+  { label: 'Fluid', color: [59, 130, 246], colorName: 'Blue' },
+  { label: 'Deposits/Drusen', color: [250, 204, 21], colorName: 'Yellow' },
+  { label: 'CNV', color: [239, 68, 68], colorName: 'Red' },
+  { label: 'Retinal Layers', color: [34, 197, 94], colorName: 'Green/Teal' },
+];
+
+export const HEATMAP_LEGEND: LegendEntry[] = [
+  { label: 'High attention', color: [239, 68, 68], colorName: 'Red' },
+  { label: 'Moderate attention', color: [250, 204, 21], colorName: 'Yellow' },
+  { label: 'Low attention', color: [148, 163, 184], colorName: 'Desaturated' },
+];
+
+export const UNCERTAINTY_LEGEND: LegendEntry[] = [
+  { label: 'Low uncertainty', color: [49, 46, 129], colorName: 'Dark purple' },
+  { label: 'Moderate', color: [168, 85, 247], colorName: 'Violet' },
+  { label: 'High uncertainty', color: [250, 204, 21], colorName: 'Bright yellow' },
+];
+
+/** The legend line the segmentation prompt asks the model to burn into its image. */
+export const segmentationColorKey = () =>
+  `Color Key: ${SEGMENTATION_LEGEND.map(entry => `${entry.colorName}=${entry.label}`).join(', ')}`;
+
+export const toCssColor = ([r, g, b]: RgbColor) => `rgb(${r}, ${g}, ${b})`;
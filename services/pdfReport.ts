@@ -0,0 +1,320 @@
+import type { AnalysisResult, AnalyzableImage, ScanAnnotation, ScanMetadata } from '../types';
+import { formatConfidence } from './analysisResult';
+import { ANNOTATION_LABELS, describeRegion } from './annotations';
+import { formatVotes } from './ensemble';
+import { getFindingRows } from './findings';
+import { formatAiAgreement, gradingRows } from './grading';
+import { HEATMAP_LEGEND, SEGMENTATION_LEGEND, UNCERTAINTY_LEGEND, type LegendEntry } from './mapLegends';
+import { describePreprocessing } from './preprocessing';
+import { formatProvenance } from './promptRegistry';
+import { createPdfWriter, measureText, wrapText, PAGE_HEIGHT, PAGE_WIDTH, type PdfImage, type PdfPage, type RgbColor } from './pdfWriter';
+
+const MARGIN = 48;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FOOTER_SPACE = 36;
+const COLUMN_GAP = 16;
+const MAX_FIGURE_HEIGHT = 200;
+// Figures are re-encoded at most this wide; enough for print, small enough for a batch report.
+const MAX_IMAGE_PIXELS = 1200;
+
+const TEXT: RgbColor = [30, 41, 59];
+const MUTED: RgbColor = [100, 116, 139];
+const ACCENT: RgbColor = [8, 145, 178];
+const RULE: RgbColor = [203, 213, 225];
+
+const DIAGNOSIS_COLORS: Record<AnalysisResult['diagnosis'], RgbColor> = {
+  'CNV': [220, 38, 38],
+  'AMD': [147, 51, 234],
+  'DME': [234, 88, 12],
+  'Drusen': [202, 138, 4],
+  'Geographic Atrophy': [100, 116, 139],
+  'Requires Further Review': [107, 114, 128],
+  'Normal': [22, 163, 74],
+};
+
+const DISCLAIMER = 'Disclaimer: This report is generated by an AI model and is for informational purposes only. It is not a substitute for professional medical advice.';
+
+const LATERALITY_LABELS: Record<string, string> = { R: 'OD (right eye)', L: 'OS (left eye)' };
+
+interface Figure {
+  caption: string;
+  image: PdfImage;
+  legend?: LegendEntry[];
+  /** Clinician regions outlined over the image. */
+  annotations?: ScanAnnotation[];
+}
+
+// Report text fields may carry Markdown emphasis from triage and validation notes.
+const plain = (value: string) => value.replace(/\*\*/g, '');
+
+/** Re-encodes any displayable image URL as a JPEG the PDF can embed directly. */
+const loadPdfImage = async (url: string): Promise<PdfImage> => {
+  const bitmap = await createImageBitmap(await (await fetch(url)).blob());
+  const scale = Math.min(1, MAX_IMAGE_PIXELS / bitmap.width);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas 2D context is not available.');
+  }
+  // JPEG has no alpha channel; flatten transparent PNGs onto white.
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  const jpeg = await new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Could not encode report image.')), 'image/jpeg', 0.85));
+  return { data: new Uint8Array(await jpeg.arrayBuffer()), width: canvas.width, height: canvas.height };
+};
+
+const loadFigures = async (image: AnalyzableImage): Promise<Figure[]> => {
+  const annotations = image.annotations?.length ? image.annotations : undefined;
+  // The maps were drawn on the preprocessed scan, so that is the one shown.
+  const scan = image.processedImageUrl ? 'Preprocessed OCT scan' : 'Original OCT scan';
+  const sources: { caption: string; url?: string; legend?: LegendEntry[]; annotations?: ScanAnnotation[] }[] = [
+    { caption: annotations ? `${scan} with clinician annotations` : scan, url: image.processedImageUrl ?? image.previewUrl, annotations },
+    { caption: 'Segmentation map', url: image.segmentedImageUrl, legend: SEGMENTATION_LEGEND },
+    { caption: 'Attention heatmap', url: image.heatmapImageUrl, legend: HEATMAP_LEGEND },
+    { caption: 'Segmentation uncertainty map', url: image.segmentationUncertaintyMapUrl, legend: UNCERTAINTY_LEGEND },
+  ];
+  const figures = await Promise.all(sources.map(async ({ url, ...figure }): Promise<Figure | undefined> =>
+    url ? { ...figure, image: await loadPdfImage(url) } : undefined));
+  return figures.filter((figure): figure is Figure => !!figure);
+};
+
+const metadataLine = (metadata?: ScanMetadata) => metadata ? [
+  metadata.patientName && `Patient: ${metadata.patientName}`,
+  metadata.patientId && `ID: ${metadata.patientId}`,
+  metadata.laterality && `Eye: ${LATERALITY_LABELS[metadata.laterality] ?? metadata.laterality}`,
+  metadata.studyDate && `Study: ${metadata.studyDate}`,
+  metadata.acquisitionDate && `Acquired: ${metadata.acquisitionDate}`,
+  metadata.frameCount && metadata.frameCount > 1 && `Frame ${(metadata.frameIndex ?? 0) + 1}/${metadata.frameCount}`,
+].filter(Boolean).join(' · ') : '';
+
+// A top-to-bottom cursor over the document that starts a new page when content would overflow.
+const createLayout = (addPage: () => PdfPage) => {
+  let page = addPage();
+  let y = MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > PAGE_HEIGHT - MARGIN - FOOTER_SPACE) {
+      page = addPage();
+      y = MARGIN;
+    }
+  };
+
+  const paragraph = (value: string, size = 10, color: RgbColor = TEXT, bold = false) => {
+    const lineHeight = size * 1.4;
+    wrapText(plain(value), CONTENT_WIDTH, size, bold).forEach(line => {
+      ensureSpace(lineHeight);
+      page.text(MARGIN, y + size, line, { size, bold, color });
+      y += lineHeight;
+    });
+  };
+
+  const heading = (value: string) => {
+    ensureSpace(40);
+    y += 10;
+    page.text(MARGIN, y + 13, value, { size: 13, bold: true, color: ACCENT });
+    y += 18;
+    page.line(MARGIN, y, MARGIN + CONTENT_WIDTH, y, RULE);
+    y += 8;
+  };
+
+  const section = (title: string, body?: string) => {
+    if (!body) return;
+    heading(title);
+    paragraph(body);
+  };
+
+  const badge = (label: string, fill: RgbColor) => {
+    const size = 12;
+    const width = measureText(label, size, true) + 20;
+    ensureSpace(28);
+    page.rect(MARGIN, y, width, 24, fill);
+    page.text(MARGIN + 10, y + 16, label, { size, bold: true, color: [255, 255, 255] });
+    return width;
+  };
+
+  const table = (rows: string[][], columnWidths: number[]) => {
+    rows.forEach((row, index) => {
+      ensureSpace(16);
+      let x = MARGIN;
+      row.forEach((cell, column) => {
+        page.text(x, y + 10, cell, { size: 9.5, bold: index === 0, color: index === 0 ? MUTED : TEXT });
+        x += columnWidths[column];
+      });
+      y += 14;
+      page.line(MARGIN, y, MARGIN + CONTENT_WIDTH, y, RULE);
+      y += 2;
+    });
+  };
+
+  const legendHeight = (legend?: LegendEntry[]) => legend ? 14 : 0;
+
+  const drawLegend = (legend: LegendEntry[], x: number, top: number) => {
+    let cursor = x;
+    legend.forEach(({ color: fill, label }) => {
+      page.rect(cursor, top + 2, 8, 8, fill);
+      page.text(cursor + 11, top + 9, label, { size: 7.5, color: MUTED });
+      cursor += 11 + measureText(label, 7.5) + 10;
+    });
+  };
+
+  // Outlines each annotation over a figure drawn at (x, y) with the given size, numbered as in the annotation table.
+  const drawAnnotations = (annotations: ScanAnnotation[], x: number, top: number, width: number, height: number) => {
+    annotations.forEach((annotation, index) => {
+      const color = ANNOTATION_LABELS[annotation.label].color;
+      const { shape } = annotation;
+      const toPage = ([px, py]: [number, number]): [number, number] => [x + px * width, top + py * height];
+      let anchor: [number, number];
+      if (shape.kind === 'point') {
+        anchor = toPage([shape.x, shape.y]);
+        page.rect(anchor[0] - 2.5, anchor[1] - 2.5, 5, 5, color);
+      } else {
+        const corners: [number, number][] = shape.kind === 'box'
+          ? [[shape.x, shape.y], [shape.x + shape.width, shape.y], [shape.x + shape.width, shape.y + shape.height], [shape.x, shape.y + shape.height]]
+          : shape.points;
+        const points = corners.map(toPage);
+        points.forEach((point, pointIndex) => {
+          const next = points[(pointIndex + 1) % points.length];
+          page.line(point[0], point[1], next[0], next[1], color);
+        });
+        anchor = points[0];
+      }
+      page.text(anchor[0] + 3, anchor[1] - 2, String(index + 1), { size: 7, bold: true, color });
+    });
+  };
+
+  // Two figures per row, each scaled to the column width and capped in height.
+  const figures = (items: Figure[]) => {
+    const columnWidth = (CONTENT_WIDTH - COLUMN_GAP) / 2;
+    for (let index = 0; index < items.length; index += 2) {
+      const row = items.slice(index, index + 2);
+      const sizes = row.map(({ image }) => {
+        const scale = Math.min(columnWidth / image.width, MAX_FIGURE_HEIGHT / image.height);
+        return { width: image.width * scale, height: image.height * scale };
+      });
+      const rowHeight = Math.max(...sizes.map(size => size.height)) + 16 + Math.max(...row.map(figure => legendHeight(figure.legend)));
+      ensureSpace(rowHeight + 8);
+      row.forEach((figure, column) => {
+        const x = MARGIN + column * (columnWidth + COLUMN_GAP);
+        const { width, height } = sizes[column];
+        page.image(figure.image, x, y, width, height);
+        if (figure.annotations) drawAnnotations(figure.annotations, x, y, width, height);
+        page.text(x, y + height + 11, figure.caption, { size: 8.5, bold: true, color: TEXT });
+        if (figure.legend) drawLegend(figure.legend, x, y + height + 14);
+      });
+      y += rowHeight + 8;
+    }
+  };
+
+  return {
+    get page() { return page; },
+    get y() { return y; },
+    space: (height: number) => { y += height; },
+    newPage: () => { page = addPage(); y = MARGIN; },
+    ensureSpace,
+    paragraph,
+    heading,
+    section,
+    badge,
+    table,
+    figures,
+  };
+};
+
+const writeImageReport = (layout: ReturnType<typeof createLayout>, image: AnalyzableImage, result: AnalysisResult, figures: Figure[]) => {
+  layout.page.text(MARGIN, layout.y + 18, 'Retinal OCT Analysis Report', { size: 18, bold: true, color: TEXT });
+  layout.space(26);
+  layout.paragraph(`File: ${image.file.name}`, 10, TEXT, true);
+  const metadata = metadataLine(image.metadata);
+  if (metadata) layout.paragraph(metadata, 9, MUTED);
+  layout.paragraph(`Report date: ${new Date().toLocaleString()}`, 9, MUTED);
+  if (result.provenance) layout.paragraph(`Prompts & models: ${formatProvenance(result.provenance)}`, 9, MUTED);
+  if (result.preprocessing) layout.paragraph(`Preprocessing: ${describePreprocessing(result.preprocessing)}`, 9, MUTED);
+  layout.space(10);
+
+  const badgeWidth = layout.badge(`Diagnosis: ${result.diagnosis}`, DIAGNOSIS_COLORS[result.diagnosis]);
+  layout.page.text(MARGIN + badgeWidth + 14, layout.y + 16, `Confidence: ${formatConfidence(result.confidence)}`, { size: 12, bold: true, color: TEXT });
+  layout.space(32);
+  if (result.ensemble) {
+    layout.paragraph(`Ensemble vote: ${formatConfidence(result.ensemble.agreement)} agreement (${formatVotes(result.ensemble)})`, 10, TEXT);
+  }
+  if (result.reviewReason) {
+    layout.paragraph(`Flagged for review: ${result.reviewReason}`, 10, [180, 83, 9], true);
+  }
+
+  layout.section('Uncertainty Assessment', result.uncertaintyStatement);
+
+  if (result.findings) {
+    layout.heading('Structured Findings');
+    layout.table(
+      [['Finding', 'Result', 'Confidence'], ...getFindingRows(result.findings).map(row => [row.label, row.value, `${Math.round(row.confidence)}%`])],
+      [CONTENT_WIDTH * 0.5, CONTENT_WIDTH * 0.3, CONTENT_WIDTH * 0.2],
+    );
+  }
+
+  if (figures.length > 0) {
+    layout.heading('Images');
+    layout.figures(figures);
+  }
+
+  if (image.annotations?.length) {
+    layout.heading('Clinician Annotations');
+    layout.table(
+      [['#', 'Finding', 'Region'], ...image.annotations.map((annotation, index) => [String(index + 1), ANNOTATION_LABELS[annotation.label].name, describeRegion(annotation.shape)])],
+      [CONTENT_WIDTH * 0.08, CONTENT_WIDTH * 0.32, CONTENT_WIDTH * 0.6],
+    );
+  }
+
+  if (image.grading) {
+    layout.heading('Human Grading');
+    layout.table(
+      [['Step', 'Grade'], ...gradingRows(image.grading)],
+      [CONTENT_WIDTH * 0.3, CONTENT_WIDTH * 0.7],
+    );
+    const aiAgreement = formatAiAgreement(result, image.grading);
+    if (aiAgreement) layout.paragraph(aiAgreement, 10, TEXT, true);
+  }
+
+  layout.section('Clinical Explanation', result.explanation);
+  layout.section('Model Interpretability', result.explainability);
+  layout.section('Segmentation Uncertainty Analysis', result.segmentationUncertaintyStatement);
+  layout.section('Ancillary Findings', result.anomalyReport);
+
+  layout.space(12);
+  layout.paragraph(DISCLAIMER, 8.5, MUTED);
+};
+
+/**
+ * Builds one PDF containing a clinical report for every analyzed image, each
+ * starting on a new page. Images without a result are skipped.
+ */
+export const buildReportPdf = async (images: AnalyzableImage[]): Promise<Blob> => {
+  const analyzed = images.filter((image): image is AnalyzableImage & { result: AnalysisResult } => !!image.result);
+  if (analyzed.length === 0) {
+    throw new Error('There are no analyzed images to include in the report.');
+  }
+
+  const writer = createPdfWriter();
+  const pages: PdfPage[] = [];
+  const layout = createLayout(() => {
+    const page = writer.addPage();
+    pages.push(page);
+    return page;
+  });
+
+  // Decode one image's figures at a time so a large batch never has every bitmap in memory at once.
+  for (const [index, image] of analyzed.entries()) {
+    if (index > 0) layout.newPage();
+    writeImageReport(layout, image, image.result, await loadFigures(image));
+  }
+
+  pages.forEach((page, index) => {
+    const label = `Page ${index + 1} of ${pages.length}`;
+    page.text(PAGE_WIDTH - MARGIN - measureText(label, 8), PAGE_HEIGHT - MARGIN / 2, label, { size: 8, color: MUTED });
+  });
+  return writer.toBlob();
+};
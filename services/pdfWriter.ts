@@ -0,0 +1,185 @@
+// Minimal PDF 1.4 writer: the standard Helvetica fonts, filled rectangles,
+// lines and JPEG images. Enough for text-and-figure reports without pulling in
+// a PDF library. Coordinates are in points with the origin at the top-left of
+// the page; the writer flips them to PDF's bottom-left origin.
+
+import type { RgbColor } from './mapLegends';
+
+export type { RgbColor };
+
+export interface TextStyle {
+  size: number;
+  bold?: boolean;
+  color?: RgbColor;
+}
+
+export interface PdfImage {
+  /** Baseline JPEG bytes. */
+  data: Uint8Array;
+  width: number;
+  height: number;
+}
+
+export interface PdfPage {
+  readonly width: number;
+  readonly height: number;
+  text: (x: number, y: number, value: string, style: TextStyle) => void;
+  rect: (x: number, y: number, width: number, height: number, fill: RgbColor) => void;
+  line: (x1: number, y1: number, x2: number, y2: number, color: RgbColor) => void;
+  image: (image: PdfImage, x: number, y: number, width: number, height: number) => void;
+}
+
+export interface PdfWriter {
+  addPage: () => PdfPage;
+  toBlob: () => Blob;
+}
+
+// A4 in points.
+export const PAGE_WIDTH = 595.28;
+export const PAGE_HEIGHT = 841.89;
+
+// Advance widths (per 1000 em) of printable ASCII, 32–126, from the standard Helvetica AFM files.
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+// Characters outside Latin-1 that WinAnsiEncoding places in 128–159, with their width.
+const WIN_ANSI_EXTRAS: Record<string, [code: number, width: number]> = {
+  '–': [150, 556], '—': [151, 1000], '‘': [145, 222], '’': [146, 222],
+  '“': [147, 333], '”': [148, 333], '•': [149, 350], '…': [133, 1000],
+};
+
+// Maps a character to its WinAnsi code and width; anything unsupported prints as '?'.
+const encodeChar = (char: string, bold: boolean): [number, number] => {
+  const code = char.charCodeAt(0);
+  if (code >= 32 && code <= 126) return [code, (bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS)[code - 32]];
+  if (WIN_ANSI_EXTRAS[char]) return WIN_ANSI_EXTRAS[char];
+  if (code >= 160 && code <= 255) return [code, 556];
+  if (char === '\t' || char === '\n') return [32, 278];
+  return [63, bold ? 611 : 556];
+};
+
+export const measureText = (value: string, size: number, bold = false): number =>
+  Array.from(value).reduce((sum, char) => sum + encodeChar(char, bold)[1], 0) * size / 1000;
+
+const encodeText = (value: string, bold: boolean): string =>
+  Array.from(value).map(char => {
+    const [code] = encodeChar(char, bold);
+    if (code === 40 || code === 41 || code === 92) return `\\${String.fromCharCode(code)}`;
+    return code > 126 ? `\\${code.toString(8)}` : String.fromCharCode(code);
+  }).join('');
+
+/** Greedy word wrap against the real font metrics. */
+export const wrapText = (value: string, maxWidth: number, size: number, bold = false): string[] => {
+  const lines: string[] = [];
+  value.split('\n').forEach(paragraph => {
+    let line = '';
+    paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && measureText(candidate, size, bold) > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    });
+    lines.push(line);
+  });
+  return lines;
+};
+
+const num = (value: number) => (Math.round(value * 100) / 100).toString();
+const color = ([r, g, b]: RgbColor) => `${num(r / 255)} ${num(g / 255)} ${num(b / 255)}`;
+
+export const createPdfWriter = (): PdfWriter => {
+  const pages: { commands: string[]; images: Map<PdfImage, string> }[] = [];
+  const images: PdfImage[] = [];
+
+  const addPage = (): PdfPage => {
+    const page = { commands: [] as string[], images: new Map<PdfImage, string>() };
+    pages.push(page);
+    const flipY = (y: number) => PAGE_HEIGHT - y;
+    return {
+      width: PAGE_WIDTH,
+      height: PAGE_HEIGHT,
+      text: (x, y, value, { size, bold = false, color: fill = [0, 0, 0] }) => {
+        page.commands.push(`BT ${color(fill)} rg /${bold ? 'F2' : 'F1'} ${num(size)} Tf ${num(x)} ${num(flipY(y))} Td (${encodeText(value, bold)}) Tj ET`);
+      },
+      rect: (x, y, width, height, fill) => {
+        page.commands.push(`${color(fill)} rg ${num(x)} ${num(flipY(y + height))} ${num(width)} ${num(height)} re f`);
+      },
+      line: (x1, y1, x2, y2, stroke) => {
+        page.commands.push(`${color(stroke)} RG 0.5 w ${num(x1)} ${num(flipY(y1))} m ${num(x2)} ${num(flipY(y2))} l S`);
+      },
+      image: (image, x, y, width, height) => {
+        if (!images.includes(image)) images.push(image);
+        const name = `Im${images.indexOf(image) + 1}`;
+        page.images.set(image, name);
+        page.commands.push(`q ${num(width)} 0 0 ${num(height)} ${num(x)} ${num(flipY(y + height))} cm /${name} Do Q`);
+      },
+    };
+  };
+
+  const toBlob = (): Blob => {
+    // Object numbers: 1 catalog, 2 page tree, 3–4 fonts, then images, then a page and its content stream per page.
+    const imageObject = (index: number) => 5 + index;
+    const pageObject = (index: number) => 5 + images.length + index * 2;
+    const parts: (string | Uint8Array)[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+    // Every string part is ASCII, so its length in bytes equals its length in characters.
+    const push = (part: string | Uint8Array) => {
+      parts.push(part);
+      length += part.length;
+    };
+    const object = (id: number, body: string | (string | Uint8Array)[]) => {
+      offsets[id] = length;
+      push(`${id} 0 obj\n`);
+      (Array.isArray(body) ? body : [body]).forEach(push);
+      push('\nendobj\n');
+    };
+
+    push('%PDF-1.4\n');
+    object(1, '<< /Type /Catalog /Pages 2 0 R >>');
+    object(2, `<< /Type /Pages /Kids [${pages.map((_, index) => `${pageObject(index)} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+    object(3, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+    object(4, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+    images.forEach((image, index) => {
+      object(imageObject(index), [
+        `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.data.length} >>\nstream\n`,
+        image.data,
+        '\nendstream',
+      ]);
+    });
+    pages.forEach((page, index) => {
+      const xObjects = [...page.images].map(([image, name]) => `/${name} ${imageObject(images.indexOf(image))} 0 R`).join(' ');
+      object(pageObject(index), `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(PAGE_WIDTH)} ${num(PAGE_HEIGHT)}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> /XObject << ${xObjects} >> >> /Contents ${pageObject(index) + 1} 0 R >>`);
+      const content = page.commands.join('\n');
+      object(pageObject(index) + 1, `<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+    });
+
+    const objectCount = pageObject(pages.length);
+    const xrefOffset = length;
+    push(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+    for (let id = 1; id < objectCount; id++) {
+      push(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+    }
+    push(`trailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+    return new Blob(parts as BlobPart[], { type: 'application/pdf' });
+  };
+
+  return { addPage, toBlob };
+};
@@ -0,0 +1,262 @@
+import type { DenoiseLevel, PixelRect, PreprocessingRecord, PreprocessingSettings } from '../types';
+
+// In-browser preprocessing applied before a scan is sent to the model: crop to
+// the B-scan, resize, suppress speckle and normalize contrast. Exports from
+// different devices then reach the model in a comparable form.
+
+export const DEFAULT_PREPROCESSING_SETTINGS: PreprocessingSettings = {
+  enabled: false,
+  autoCrop: true,
+  maxDimension: 1024,
+  denoise: 'light',
+  normalizeContrast: true,
+  grayscale: true,
+};
+
+export const DENOISE_LEVELS: { level: DenoiseLevel; name: string }[] = [
+  { level: 'off', name: 'Off' },
+  { level: 'light', name: 'Light (3×3 median)' },
+  { level: 'strong', name: 'Strong (5×5 median)' },
+];
+
+const MEDIAN_RADIUS: Record<DenoiseLevel, number> = { off: 0, light: 1, strong: 2 };
+
+/** Sizes the longer side can be limited to. There is always a limit, as denoising runs on the main thread. */
+export const MAX_DIMENSIONS = [512, 768, 1024, 1536, 2048];
+
+const LARGEST_DIMENSION = MAX_DIMENSIONS[MAX_DIMENSIONS.length - 1];
+
+// Auto-crop looks for B-scan signal: dim-to-bright, near grayscale pixels. Black
+// borders, colored overlays and sparse text rows fall below the thresholds.
+const CROP_THRESHOLDS = {
+  minLuminance: 6,
+  maxChroma: 30,
+  /** Share of signal pixels a row or column needs to count as part of the scan. */
+  minSignal: 0.2,
+  /** Gaps in the signal this share of the side long are bridged. */
+  maxGap: 0.02,
+  padding: 0.02,
+  /** A crop keeping less than this share of either side is treated as a failed detection. */
+  minSide: 0.25,
+};
+
+// Detection runs on a downscaled copy; the crop is mapped back to original pixels.
+const ANALYSIS_WIDTH = 512;
+
+export interface PreprocessedImage {
+  file: File;
+  record: PreprocessingRecord;
+}
+
+const createContext = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas 2D context is not available.');
+  return { canvas, ctx };
+};
+
+/** Longest run of indices whose value reaches the threshold, bridging short gaps. */
+const longestRun = (values: number[], threshold: number, maxGap: number): [number, number] | undefined => {
+  let best: [number, number] | undefined;
+  let start = -1;
+  let lastHit = -1;
+  values.forEach((value, index) => {
+    if (value < threshold) return;
+    if (start === -1 || index - lastHit - 1 > maxGap) start = index;
+    lastHit = index;
+    if (!best || lastHit - start > best[1] - best[0]) best = [start, lastHit];
+  });
+  return best;
+};
+
+const detectScanRegion = (bitmap: ImageBitmap): PixelRect | undefined => {
+  const scale = Math.min(1, ANALYSIS_WIDTH / bitmap.width);
+  const { canvas, ctx } = createContext(bitmap.width * scale, bitmap.height * scale);
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const { width, height } = canvas;
+
+  const signal = new Uint8Array(width * height);
+  for (let i = 0; i < signal.length; i++) {
+    const [r, g, b] = [data[i * 4], data[i * 4 + 1], data[i * 4 + 2]];
+    const luminance = 0.299 * r + 0.587 * g + 0.114 * b;
+    signal[i] = luminance >= CROP_THRESHOLDS.minLuminance && Math.max(r, g, b) - Math.min(r, g, b) <= CROP_THRESHOLDS.maxChroma ? 1 : 0;
+  }
+  const columnShare = (top: number, bottom: number) => Array.from({ length: width }, (_, x) => {
+    let count = 0;
+    for (let y = top; y <= bottom; y++) count += signal[y * width + x];
+    return count / (bottom - top + 1);
+  });
+  const rowShare = (left: number, right: number) => Array.from({ length: height }, (_, y) => {
+    let count = 0;
+    for (let x = left; x <= right; x++) count += signal[y * width + x];
+    return count / (right - left + 1);
+  });
+
+  // Columns over the full height, rows within those columns, then columns again within those rows.
+  const columns = longestRun(columnShare(0, height - 1), CROP_THRESHOLDS.minSignal, width * CROP_THRESHOLDS.maxGap);
+  if (!columns) return undefined;
+  const rows = longestRun(rowShare(columns[0], columns[1]), CROP_THRESHOLDS.minSignal, height * CROP_THRESHOLDS.maxGap);
+  if (!rows) return undefined;
+  const [left, right] = longestRun(columnShare(rows[0], rows[1]), CROP_THRESHOLDS.minSignal, width * CROP_THRESHOLDS.maxGap) ?? columns;
+
+  const padX = width * CROP_THRESHOLDS.padding;
+  const padY = height * CROP_THRESHOLDS.padding;
+  const x = Math.max(0, Math.floor((left - padX) / scale));
+  const y = Math.max(0, Math.floor((rows[0] - padY) / scale));
+  const crop = {
+    x,
+    y,
+    width: Math.min(bitmap.width, Math.ceil((right + 1 + padX) / scale)) - x,
+    height: Math.min(bitmap.height, Math.ceil((rows[1] + 1 + padY) / scale)) - y,
+  };
+  const keepsWidth = crop.width / bitmap.width;
+  const keepsHeight = crop.height / bitmap.height;
+  if (keepsWidth < CROP_THRESHOLDS.minSide || keepsHeight < CROP_THRESHOLDS.minSide) return undefined;
+  // Nothing worth cropping.
+  if (keepsWidth * keepsHeight > 0.95) return undefined;
+  return crop;
+};
+
+const toGrayscale = (data: Uint8ClampedArray) => {
+  for (let i = 0; i < data.length; i += 4) {
+    const luminance = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+    data[i] = data[i + 1] = data[i + 2] = luminance;
+  }
+};
+
+/** Median filter per channel; a grayscale image is filtered once and copied to all channels. */
+const medianFilter = (image: ImageData, radius: number, grayscale: boolean) => {
+  const { width, height, data } = image;
+  const source = new Uint8ClampedArray(data);
+  const neighborhood: number[] = [];
+  const channels = grayscale ? [0] : [0, 1, 2];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      channels.forEach(channel => {
+        neighborhood.length = 0;
+        for (let dy = -radius; dy <= radius; dy++) {
+          const row = Math.min(height - 1, Math.max(0, y + dy)) * width;
+          for (let dx = -radius; dx <= radius; dx++) {
+            neighborhood.push(source[(row + Math.min(width - 1, Math.max(0, x + dx))) * 4 + channel]);
+          }
+        }
+        neighborhood.sort((a, b) => a - b);
+        data[i + channel] = neighborhood[neighborhood.length >> 1];
+      });
+      if (grayscale) data[i + 1] = data[i + 2] = data[i];
+    }
+  }
+};
+
+/** Linearly maps the 1st–99th luminance percentile to 0–255. */
+const stretchContrast = (data: Uint8ClampedArray) => {
+  const histogram = new Uint32Array(256);
+  const pixels = data.length / 4;
+  for (let i = 0; i < data.length; i += 4) {
+    histogram[Math.round(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2])]++;
+  }
+  const percentile = (share: number) => {
+    let count = 0;
+    for (let value = 0; value < 256; value++) {
+      count += histogram[value];
+      if (count >= pixels * share) return value;
+    }
+    return 255;
+  };
+  const low = percentile(0.01);
+  const high = percentile(0.99);
+  if (high - low < 1) return;
+  const gain = 255 / (high - low);
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = (data[i] - low) * gain;
+    data[i + 1] = (data[i + 1] - low) * gain;
+    data[i + 2] = (data[i + 2] - low) * gain;
+  }
+};
+
+/** Runs the enabled steps in a fixed order: crop, resize, grayscale, denoise, normalize. */
+export const preprocessImage = async (file: File, settings: PreprocessingSettings): Promise<PreprocessedImage> => {
+  const bitmap = await createImageBitmap(file);
+  try {
+    const crop = settings.autoCrop ? detectScanRegion(bitmap) : undefined;
+    const region = crop ?? { x: 0, y: 0, width: bitmap.width, height: bitmap.height };
+    const maxDimension = settings.maxDimension > 0 ? Math.min(settings.maxDimension, LARGEST_DIMENSION) : LARGEST_DIMENSION;
+    const scale = Math.min(1, maxDimension / Math.max(region.width, region.height));
+    const { canvas, ctx } = createContext(region.width * scale, region.height * scale);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(bitmap, region.x, region.y, region.width, region.height, 0, 0, canvas.width, canvas.height);
+
+    const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    if (settings.grayscale) toGrayscale(image.data);
+    if (MEDIAN_RADIUS[settings.denoise] > 0) medianFilter(image, MEDIAN_RADIUS[settings.denoise], settings.grayscale);
+    if (settings.normalizeContrast) stretchContrast(image.data);
+    ctx.putImageData(image, 0, 0);
+
+    // PNG, so that compression does not put back the noise just removed.
+    const blob = await new Promise<Blob>((resolve, reject) =>
+      canvas.toBlob(result => result ? resolve(result) : reject(new Error('Could not encode the preprocessed scan.')), 'image/png'));
+    const { enabled: _enabled, ...steps } = settings;
+    return {
+      file: new File([blob], file.name.replace(/\.[^.]+$/, '') + '-preprocessed.png', { type: 'image/png' }),
+      record: {
+        settings: steps,
+        originalWidth: bitmap.width,
+        originalHeight: bitmap.height,
+        crop,
+        width: canvas.width,
+        height: canvas.height,
+      },
+    };
+  } finally {
+    bitmap.close();
+  }
+};
+
+/** One-line summary of the steps that changed the scan, e.g. for reports. */
+export const describePreprocessing = (record: PreprocessingRecord): string => {
+  const { settings } = record;
+  const steps = [
+    record.crop && `cropped to ${record.crop.width}×${record.crop.height} at (${record.crop.x}, ${record.crop.y})`,
+    (record.width !== (record.crop?.width ?? record.originalWidth)) && `resized to ${record.width}×${record.height}`,
+    settings.grayscale && 'grayscale',
+    settings.denoise !== 'off' && `${settings.denoise} speckle denoising`,
+    settings.normalizeContrast && 'contrast normalized',
+  ].filter((step): step is string => !!step);
+  return `${record.originalWidth}×${record.originalHeight} px: ${steps.length > 0 ? steps.join(', ') : 'unchanged'}`;
+};
+
+const isDenoiseLevel = (value: unknown): value is DenoiseLevel => DENOISE_LEVELS.some(entry => entry.level === value);
+
+/** Accepts a preprocessing record from an imported bundle when it has the expected shape. */
+export const sanitizePreprocessing = (raw: unknown): PreprocessingRecord | undefined => {
+  if (typeof raw !== 'object' || raw === null) return undefined;
+  const value = raw as Partial<Record<keyof PreprocessingRecord, unknown>>;
+  const settings = value.settings as Partial<Record<keyof PreprocessingRecord['settings'], unknown>> | undefined;
+  const isSize = (...numbers: unknown[]) => numbers.every(number => typeof number === 'number' && Number.isFinite(number) && number >= 0);
+  if (
+    !settings || typeof settings.autoCrop !== 'boolean' || !isSize(settings.maxDimension) || !isDenoiseLevel(settings.denoise)
+    || typeof settings.normalizeContrast !== 'boolean' || typeof settings.grayscale !== 'boolean'
+    || !isSize(value.originalWidth, value.originalHeight, value.width, value.height)
+  ) {
+    return undefined;
+  }
+  const crop = value.crop as Partial<PixelRect> | undefined;
+  return {
+    settings: {
+      autoCrop: settings.autoCrop,
+      maxDimension: settings.maxDimension as number,
+      denoise: settings.denoise,
+      normalizeContrast: settings.normalizeContrast,
+      grayscale: settings.grayscale,
+    },
+    originalWidth: value.originalWidth as number,
+    originalHeight: value.originalHeight as number,
+    crop: crop && isSize(crop.x, crop.y, crop.width, crop.height) ? crop as PixelRect : undefined,
+    width: value.width as number,
+    height: value.height as number,
+  };
+};
@@ -0,0 +1,298 @@
+import type { AnalysisProvenance, PromptTask } from '../types';
+import { segmentationColorKey } from './mapLegends';
+
+// Prompt and model registry. The prompts and models of every model-backed task
+// live in named presets; saving an edited preset appends a new version instead
+// of overwriting it, so each result can name the exact prompts that produced it.
+// Presets are app-wide, not per session, and kept in localStorage.
+
+export interface TaskConfig {
+  model: string;
+  prompt: string;
+}
+
+export type PromptTasks = Record<PromptTask, TaskConfig>;
+
+export interface PromptPresetVersion {
+  version: number;
+  createdAt: string;
+  tasks: PromptTasks;
+}
+
+export interface PromptPreset {
+  id: string;
+  name: string;
+  /** The shipped default; it cannot be edited or deleted, only copied. */
+  builtIn?: boolean;
+  /** Oldest first; the last entry is the one new analyses use. */
+  versions: PromptPresetVersion[];
+}
+
+export interface PromptRegistry {
+  presets: PromptPreset[];
+  activePresetId: string;
+}
+
+/** The preset version a call runs with. */
+export interface ResolvedPrompts {
+  presetId: string;
+  presetName: string;
+  version: number;
+  tasks: PromptTasks;
+}
+
+export const PROMPT_TASKS: PromptTask[] = ['classification', 'segmentation', 'uncertainty', 'heatmap', 'comparison', 'quality', 'chat'];
+
+export const PROMPT_TASK_LABELS: Record<PromptTask, string> = {
+  classification: 'Classification',
+  segmentation: 'Segmentation map',
+  uncertainty: 'Segmentation uncertainty map',
+  heatmap: 'Attention heatmap',
+  comparison: 'Visit comparison',
+  quality: 'Quality check',
+  chat: 'Follow-up chat',
+};
+
+const TEXT_MODELS = ['gemini-2.5-pro', 'gemini-2.5-flash'];
+const IMAGE_MODELS = ['gemini-2.5-flash-image'];
+
+/** Models offered per task: report and chat tasks need text output, map tasks need image output. */
+export const TASK_MODELS: Record<PromptTask, string[]> = {
+  classification: TEXT_MODELS,
+  segmentation: IMAGE_MODELS,
+  uncertainty: IMAGE_MODELS,
+  heatmap: IMAGE_MODELS,
+  comparison: TEXT_MODELS,
+  quality: TEXT_MODELS,
+  chat: TEXT_MODELS,
+};
+
+const SEGMENTATION_PROMPT = `Generate a medical segmentation map from this retinal OCT scan. Use a distinct, high-contrast color palette to clearly delineate different retinal layers and pathological features. It is critical that you follow these color assignments for pathologies:
+- **Intraretinal and Subretinal Fluid:** Use shades of **vibrant blue** to color any fluid-filled spaces.
+- **Drusen/Deposits:** Use shades of **bright yellow** to highlight any drusen or sub-RPE deposits.
+- **Disorganized Tissue/CNV:** Use shades of **red** to indicate areas of choroidal neovascularization.
+- **Healthy Retinal Layers:** Use other contrasting colors like green, teal, and magenta for the different healthy retinal layers.
+**Crucially, you must embed a clear, readable text legend directly onto the bottom of the output image that explains the color mapping.** For example: "${segmentationColorKey()}". The legend text should be white or another high-contrast color against a dark bar for maximum readability.`;
+
+const SEGMENTATION_UNCERTAINTY_PROMPT = `
+                  **Task:** Generate a segmentation uncertainty map for the provided retinal OCT scan.
+
+                  **Objective:** The map must visually represent the AI's confidence in its segmentation of different regions, highlighting areas where the segmentation is less reliable.
+
+                  **Mandatory Instructions:**
+                  1.  **Color Scale:** You MUST use a cool-to-warm color scale. For example, from dark purple/blue (cool) to bright yellow/white (warm).
+                  2.  **Color Mapping:**
+                      -   **High Confidence (Low Uncertainty):** Represent these areas with **cool, dark colors** (e.g., dark purple, deep blue). These are regions with clear, well-defined features like healthy retinal layers.
+                      -   **High Uncertainty (Low Confidence):** Represent these areas with **warm, bright colors** (e.g., bright yellow, white). This is the most critical part. You must highlight the following:
+                          - The precise, fuzzy edges of any fluid pockets (DME/CNV).
+                          - The indistinct boundaries of drusen deposits.
+                          - Any ambiguous or blurred borders between retinal layers.
+                          - Any regions affected by imaging artifacts, noise, or low signal quality.
+                  3.  **Output Format:** The final output must be a heatmap-style image overlaid on the original scan structure, where the color intensity directly corresponds to the level of uncertainty.`;
+
+const CLASSIFICATION_PROMPT = `
+      You are an expert AI ophthalmologist. Analyze the provided retinal OCT image with extreme precision. Your task is to classify it as Age-related Macular Degeneration (AMD), Geographic Atrophy, Choroidal Neovascularization (CNV), Diabetic Macular Edema (DME), Drusen, or Normal.
+
+      **Clinical Criteria for Classification:**
+      - **AMD (Age-related Macular Degeneration):** A spectrum of disease.
+          - **Dry AMD:** Characterized by **large, soft drusen**, RPE changes (hyperpigmentation or hypopigmentation). Does NOT involve fluid.
+          - **Wet AMD:** Characterized by the presence of **CNV**. This is the neovascular form of AMD.
+      - **Geographic Atrophy (GA):** An advanced form of Dry AMD. Characterized by **well-demarcated areas of RPE and outer retinal thinning/loss**. If this is the primary finding, diagnose as GA.
+      - **DME (Diabetic Macular Edema):** Characterized by retinal swelling from **leaking macular blood vessels** in patients with diabetic retinopathy. Your primary evidence is the presence of **intraretinal fluid** (dark, cyst-like spaces within the retina) and/or **subretinal fluid** without a clear neovascular membrane.
+      - **Drusen:** Can be a standalone finding or part of AMD. Characterized by **solid waste material** as distinct bumps under the RPE. If drusen are large, confluent, and accompanied by RPE changes, the diagnosis should be AMD.
+      - **CNV (Choroidal Neovascularization):** This is the hallmark of Wet AMD. It is caused by **abnormal blood vessel growth from the choroid** that penetrates the RPE layer. A definitive diagnosis requires a forensic, evidence-based approach. You must identify a combination of the following signs:
+        1.  **The Core Lesion:** Locate the source of the problem—a **disruptive, disorganized, often hyper-reflective lesion** under or breaking through the RPE. This represents the neovascular membrane itself.
+        2.  **Associated Fluid Leakage:** The abnormal vessels are leaky. Therefore, you must find associated **subretinal fluid** (lifting the retina) and/or **intraretinal fluid** (causing cystic swelling).
+      - **Normal:** Shows well-defined retinal layers, a clear foveal depression, and a complete absence of the pathological signs listed above.
+
+      **CRITICAL DIFFERENTIATION: FLUID vs. DEPOSITS (NON-NEGOTIABLE)**
+      - **Fluid (Indicative of DME/CNV):** Visually appears as **dark, optically empty, cyst-like pockets** within or beneath the retina. Its presence causes **measurable retinal thickening, swelling, and separation of layers**. Fluid is the hallmark of active, sight-threatening disease.
+      - **Deposits (Indicative of Drusen/AMD):** Visually appear as **solid, lumpy, often reflective accumulations** of material located beneath the RPE layer. They are deposits, NOT fluid pockets.
+
+      **MANDATORY DIAGNOSTIC HIERARCHY (Diagnostic Funnel):**
+      You MUST follow this reasoning process. Your highest priority is detecting fluid.
+      1.  **STEP 1: CHECK FOR FLUID.** Is there any intraretinal or subretinal fluid?
+          - **YES -> The scan is 'WET'.** The diagnosis MUST be either **CNV (Wet AMD)** or **DME**.
+              - **Crucial Rule:** A diagnosis of 'Drusen' or 'Dry AMD' is strictly incorrect if any fluid is present. Drusen can coexist, but the primary diagnosis must be the fluid-related condition.
+              - **Differentiating DME vs. CNV (Wet AMD):** To differentiate, your primary task is to **locate the source of the fluid.**
+                  - **Hunt for the Neovascular Lesion:** Meticulously search for the hallmark of CNV: a **disruptive, fibrovascular lesion** under or through the RPE. If this lesion is identified as the source of the fluid, the diagnosis is unequivocally **CNV (Wet AMD)**.
+                  - **Diagnose DME by Exclusion:** If, and only if, you observe fluid (especially cystic intraretinal fluid) **WITHOUT** being able to identify a definitive underlying neovascular membrane, should you diagnose **DME**. This implies the fluid is from diabetic-related microvascular leakage.
+          - **NO -> The scan is 'DRY'.** The diagnosis must be **Geographic Atrophy**, **Dry AMD**, **Drusen**, or **Normal**.
+              - **Crucial Rule:** A diagnosis of 'DME' or 'CNV' is impossible without fluid.
+              - **Prioritize GA Detection:** First, you MUST check for Geographic Atrophy. If you identify a **well-demarcated zone of RPE and outer retinal thinning or loss**, your primary diagnosis MUST be **Geographic Atrophy**.
+              - **Then Assess for Dry AMD:** Only if GA is absent should you then consider a diagnosis of **Dry AMD**, which requires the presence of large/confluent drusen and significant RPE changes.
+              - **Then Drusen:** If only a few small/medium drusen are present without other signs of AMD, diagnose as **Drusen**.
+              - **Finally, Normal:** If the retina is clear of all these signs, diagnose as **Normal**.
+
+      **Secondary Anomaly Scan:**
+      After establishing the primary diagnosis, perform a final check for any other anomalies not covered by the main diagnosis (e.g., epiretinal membrane, vitreomacular traction, lamellar hole). If found, describe them in the 'anomalyReport' field.
+
+      **Structured Findings:**
+      Independently of the diagnosis, report each finding in the 'findings' object: intraretinal fluid, subretinal fluid, drusen (count and size class of the largest), geographic atrophy, epiretinal membrane, vitreomacular traction, and an estimate of central retinal thickness in micrometers. Give every finding its own confidence from 0 to 100. The findings must be consistent with your diagnosis (e.g., a 'DME' or 'CNV' diagnosis requires fluid to be present).
+
+      **Uncertainty Assessment:**
+      Provide a qualitative assessment of your diagnostic certainty. Note any ambiguities like poor image quality, subtle features, or overlapping signs.
+
+      **Segmentation Uncertainty Assessment:**
+      Briefly describe areas where segmentation would be challenging (e.g., indistinct boundaries, noise).
+
+      Your response must be a JSON object conforming to the provided schema.
+    `;
+
+const HEATMAP_PROMPT = `Generate a visual attention map for this retinal OCT scan. Overlay a heatmap on the original image, using warm colors (like red and yellow) to highlight the most pathologically significant regions that would be influential for a diagnosis. Focus on features like fluid pockets, drusen deposits, or areas of retinal thinning. The rest of the image should be slightly desaturated to make the heatmap stand out.`;
+
+const VISIT_COMPARISON_PROMPT = `
+      You are an expert AI ophthalmologist reviewing a follow-up. You are given two retinal OCT scans of the same eye: the baseline visit first, then the follow-up visit.
+
+      **Task:** Assess how the eye changed between the two visits, as in monitoring response to anti-VEGF treatment.
+      - Compare intraretinal fluid, subretinal fluid, central retinal thickness, drusen, geographic atrophy, epiretinal membrane and any neovascular lesion.
+      - For each finding that is present in either scan, report whether it **improved**, remained **stable**, or **worsened**, with a short note on what changed.
+      - Give an overall verdict. Resolution or reduction of fluid is an improvement; new or increased fluid, growth of atrophy or a new lesion is worsening.
+      - Differences in scan position, quality or contrast are not disease change; call the eye stable when the differences are within what scan variability explains.
+
+      Your response must be a JSON object conforming to the provided schema.
+    `;
+
+const QUALITY_CHECK_PROMPT = `
+      You are screening images before they are sent for retinal OCT analysis.
+
+      **Task:** Decide whether this image is a retinal OCT B-scan, and if so, whether it is of gradable quality.
+      - **isOct:** true only for a cross-sectional OCT B-scan of the retina. Fundus photographs, OCT angiography en-face images, thickness maps, report printouts, screenshots of software or unrelated images are not B-scans.
+      - **gradable:** true only if the retinal layers can be assessed: adequate signal strength, no severe motion artifact (doubled or broken layers), no large signal dropout from media opacity, and the fovea within the field of view, not cropped at the edge.
+      - **reason:** one short sentence. When the image is not gradable, name the problem.
+
+      Your response must be a JSON object conforming to the provided schema.
+    `;
+
+const CHAT_PROMPT = `
+      You are an expert AI ophthalmologist discussing a retinal OCT B-scan with the clinician who ordered its analysis. The scan is attached to the clinician's first message, and the current AI report of it follows below.
+
+      **How to answer:**
+      - Answer the clinician's question directly and concisely, in a few sentences or a short list, as you would to a colleague.
+      - Ground every answer in what is visible on the scan. Say where on the scan a feature is, e.g. "nasal to the fovea, beneath the RPE".
+      - When asked to differentiate between conditions, name the OCT features that separate them and whether each is present on this scan.
+      - If the scan does not support the current report, say so plainly and explain why; the clinician can apply the conversation to revise the report.
+      - Say when a question cannot be answered from a single B-scan, e.g. because it needs OCT angiography, fluorescein angiography or the patient's history.
+      - Reply in plain text, not JSON.
+    `;
+
+export const DEFAULT_PRESET_ID = 'default';
+
+const DEFAULT_PRESET: PromptPreset = {
+  id: DEFAULT_PRESET_ID,
+  name: 'Default',
+  builtIn: true,
+  versions: [{
+    version: 1,
+    createdAt: '2025-01-01T00:00:00.000Z',
+    tasks: {
+      classification: { model: 'gemini-2.5-pro', prompt: CLASSIFICATION_PROMPT },
+      segmentation: { model: 'gemini-2.5-flash-image', prompt: SEGMENTATION_PROMPT },
+      uncertainty: { model: 'gemini-2.5-flash-image', prompt: SEGMENTATION_UNCERTAINTY_PROMPT },
+      heatmap: { model: 'gemini-2.5-flash-image', prompt: HEATMAP_PROMPT },
+      comparison: { model: 'gemini-2.5-pro', prompt: VISIT_COMPARISON_PROMPT },
+      quality: { model: 'gemini-2.5-flash', prompt: QUALITY_CHECK_PROMPT },
+      chat: { model: 'gemini-2.5-pro', prompt: CHAT_PROMPT },
+    },
+  }],
+};
+
+const STORAGE_KEY = 'oct-analyzer:prompt-registry';
+
+export const latestVersion = (preset: PromptPreset) => preset.versions[preset.versions.length - 1];
+
+export const resolvePrompts = (preset: PromptPreset, version = latestVersion(preset)): ResolvedPrompts =>
+  ({ presetId: preset.id, presetName: preset.name, version: version.version, tasks: version.tasks });
+
+export const DEFAULT_PROMPTS = resolvePrompts(DEFAULT_PRESET);
+
+/** How a preset version is named in results and reports, e.g. "Default v1". */
+export const formatPromptVersion = ({ presetName, version }: Pick<ResolvedPrompts, 'presetName' | 'version'>) => `${presetName} v${version}`;
+
+/** The models of a result, e.g. "Classification: gemini-2.5-pro, Attention heatmap: gemini-2.5-flash-image". */
+export const describeModels = ({ models }: AnalysisProvenance) =>
+  PROMPT_TASKS.filter(task => models[task]).map(task => `${PROMPT_TASK_LABELS[task]}: ${models[task]}`).join(', ');
+
+/** One line for reports, e.g. "Default v1 (gemini) — Classification: gemini-2.5-pro, ...". */
+export const formatProvenance = (provenance: AnalysisProvenance) =>
+  `${provenance.promptVersion} (${provenance.provider}) — ${describeModels(provenance)}`;
+
+/** Keeps the provenance of an imported record when it is well-formed. */
+export const sanitizeProvenance = (value: unknown): AnalysisProvenance | undefined => {
+  const provenance = value as Partial<AnalysisProvenance> | null;
+  if (!provenance || typeof provenance !== 'object' || typeof provenance.provider !== 'string'
+    || typeof provenance.presetId !== 'string' || typeof provenance.promptVersion !== 'string') return undefined;
+  const models = Object.fromEntries(PROMPT_TASKS
+    .filter(task => typeof provenance.models?.[task] === 'string')
+    .map(task => [task, provenance.models![task]]));
+  return { provider: provenance.provider, presetId: provenance.presetId, promptVersion: provenance.promptVersion, models };
+};
+
+export const getActivePreset = (registry: PromptRegistry) =>
+  registry.presets.find(preset => preset.id === registry.activePresetId) ?? DEFAULT_PRESET;
+
+const isTasks = (value: unknown): value is PromptTasks =>
+  !!value && typeof value === 'object' && PROMPT_TASKS.every(task => {
+    const config = (value as Record<string, Partial<TaskConfig> | undefined>)[task];
+    return typeof config?.model === 'string' && typeof config.prompt === 'string';
+  });
+
+const isPreset = (value: unknown): value is PromptPreset => {
+  const preset = value as Partial<PromptPreset> | null;
+  return !!preset && typeof preset.id === 'string' && typeof preset.name === 'string' && Array.isArray(preset.versions)
+    && preset.versions.length > 0 && preset.versions.every(version => typeof version?.version === 'number' && isTasks(version.tasks));
+};
+
+// Versions saved before a task existed get the default prompt and model for it.
+const withMissingTasks = (value: unknown): unknown => {
+  const preset = value as Partial<PromptPreset> | null;
+  if (!preset || !Array.isArray(preset.versions)) return value;
+  return {
+    ...preset,
+    versions: preset.versions.map(version => version?.tasks && typeof version.tasks === 'object'
+      ? { ...version, tasks: { ...DEFAULT_PROMPTS.tasks, ...version.tasks } }
+      : version),
+  };
+};
+
+/**
+ * Reads the saved presets. The built-in default always comes from the code, so
+ * an updated default reaches users who have saved presets of their own.
+ */
+export const loadPromptRegistry = (): PromptRegistry => {
+  let stored: Partial<PromptRegistry> | undefined;
+  try {
+    stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null') ?? undefined;
+  } catch (err) {
+    console.error('Failed to read saved prompt presets:', err);
+  }
+  const custom = (Array.isArray(stored?.presets) ? stored.presets : []).map(withMissingTasks).filter(isPreset).filter(preset => !preset.builtIn);
+  const presets = [DEFAULT_PRESET, ...custom];
+  const activePresetId = presets.some(preset => preset.id === stored?.activePresetId) ? stored!.activePresetId! : DEFAULT_PRESET_ID;
+  return { presets, activePresetId };
+};
+
+export const savePromptRegistry = (registry: PromptRegistry) => {
+  const presets = registry.presets.filter(preset => !preset.builtIn);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ presets, activePresetId: registry.activePresetId }));
+};
+
+/** Appends the edited tasks as the next version of a custom preset. */
+export const addPresetVersion = (registry: PromptRegistry, presetId: string, tasks: PromptTasks): PromptRegistry => ({
+  ...registry,
+  presets: registry.presets.map(preset => preset.id !== presetId || preset.builtIn ? preset : {
+    ...preset,
+    versions: [...preset.versions, { version: latestVersion(preset).version + 1, createdAt: new Date().toISOString(), tasks }],
+  }),
+});
+
+/** Saves the tasks as version 1 of a new preset and makes it active. */
+export const createPreset = (registry: PromptRegistry, name: string, tasks: PromptTasks): PromptRegistry => {
+  const preset: PromptPreset = { id: crypto.randomUUID(), name, versions: [{ version: 1, createdAt: new Date().toISOString(), tasks }] };
+  return { presets: [...registry.presets, preset], activePresetId: preset.id };
+};
+
+export const deletePreset = (registry: PromptRegistry, presetId: string): PromptRegistry => ({
+  presets: registry.presets.filter(preset => preset.id !== presetId || preset.builtIn),
+  activePresetId: registry.activePresetId === presetId ? DEFAULT_PRESET_ID : registry.activePresetId,
+});
@@ -0,0 +1,48 @@
+import type { AnalysisProvenance, ChatMessage } from '../types';
+import type { ChatTurn } from './analysisProvider';
+import { sanitizeProvenance } from './promptRegistry';
+import { MAX_CHAT_MESSAGE_LENGTH, MAX_CHAT_TURNS, MAX_FEEDBACK_LENGTH } from './serverApi';
+
+// Follow-up chat about a scan. Each question is answered with the scan and its
+// current report as context. The chat never changes the report by itself; a
+// clinician applies it, which runs a refinement with the conversation as feedback.
+
+const ROLE_NAMES: Record<ChatMessage['role'], string> = { user: 'Clinician', assistant: 'AI' };
+
+export const createChatMessage = (role: ChatMessage['role'], text: string, provenance?: AnalysisProvenance): ChatMessage =>
+  ({ id: crypto.randomUUID(), role, text, createdAt: new Date().toISOString(), provenance });
+
+/** The turns sent with a question: the most recent ones, starting with a question, each within the length limit. */
+export const recentTurns = (messages: ChatMessage[]): ChatTurn[] => {
+  const recent = messages.slice(-MAX_CHAT_TURNS);
+  const start = Math.max(0, recent.findIndex(message => message.role === 'user'));
+  return recent.slice(start).map(({ role, text }) => ({ role, text: text.slice(0, MAX_CHAT_MESSAGE_LENGTH) }));
+};
+
+/** Refinement feedback from a conversation. When it is too long, the oldest turns are cut short or left out. */
+export const chatToFeedback = (messages: ChatMessage[]): string => {
+  const intro = 'Revise the report in light of this follow-up discussion about the scan:';
+  const lines: string[] = [];
+  let length = intro.length;
+  for (const { role, text } of [...messages].reverse()) {
+    const line = `${ROLE_NAMES[role]}: ${text.replace(/\s+/g, ' ').trim()}`;
+    const room = MAX_FEEDBACK_LENGTH - length - 1;
+    if (line.length > room) {
+      if (room > 1) lines.unshift(`${line.slice(0, room - 1)}…`);
+      break;
+    }
+    lines.unshift(line);
+    length += line.length + 1;
+  }
+  return [intro, ...lines].join('\n');
+};
+
+/** Keeps the well-formed messages of an imported conversation, dropping the rest. */
+export const sanitizeChat = (value: unknown): ChatMessage[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const messages = value
+    .filter((entry): entry is ChatMessage => !!entry && typeof entry.id === 'string' && (entry.role === 'user' || entry.role === 'assistant')
+      && typeof entry.text === 'string' && typeof entry.createdAt === 'string')
+    .map(({ id, role, text, createdAt, provenance }) => ({ id, role, text, createdAt, provenance: sanitizeProvenance(provenance) }));
+  return messages.length > 0 ? messages : undefined;
+};
@@ -0,0 +1,117 @@
+import type { AnalysisMapKind, AnalysisResult, ChangeAssessment, EnsembleSettings, ModelCall, ModelQualityCheck, ScanAnnotation } from '../types';
+import type { AnalysisStageEvent, ChatTurn } from './analysisProvider';
+import type { ApiErrorKind } from './apiErrors';
+import type { ResolvedPrompts } from './promptRegistry';
+
+// Wire format between the browser and the analysis server (server/index.ts).
+// Images travel as base64 in JSON bodies. Analyses stream back as
+// newline-delimited JSON, one event per finished stage. Every response also
+// reports the model calls made for it, for the app's audit log: streams as
+// events, JSON responses and error bodies in `calls`.
+
+export const API_ROUTES = {
+  analyze: '/api/analyze',
+  refine: '/api/refine',
+  map: '/api/map',
+  compare: '/api/compare',
+  quality: '/api/quality',
+  chat: '/api/chat',
+} as const;
+
+/** Longest refinement feedback the server accepts. */
+export const MAX_FEEDBACK_LENGTH = 4_000;
+/** Most turns of a conversation sent with one question, and the longest turn. */
+export const MAX_CHAT_TURNS = 40;
+export const MAX_CHAT_MESSAGE_LENGTH = 4_000;
+
+export interface EncodedImage {
+  name: string;
+  mimeType: string;
+  /** Base64 without a data: URL prefix. */
+  data: string;
+}
+
+export interface AnalyzeRequest {
+  image: EncodedImage;
+  prompts?: ResolvedPrompts;
+  ensemble?: EnsembleSettings;
+}
+
+/** A refinement needs feedback, annotated regions or both. */
+export interface RefineRequest extends AnalyzeRequest {
+  refinementFeedback?: string;
+  annotations?: ScanAnnotation[];
+}
+
+/** One map generated again; a heatmap takes the feedback and regions of the version it belongs to. */
+export interface MapRequest {
+  image: EncodedImage;
+  map: AnalysisMapKind;
+  prompts?: ResolvedPrompts;
+  refinementFeedback?: string;
+  annotations?: ScanAnnotation[];
+}
+
+export interface EncodedVisitScan {
+  image: EncodedImage;
+  visitDate: string;
+  result?: AnalysisResult;
+}
+
+export interface CompareRequest {
+  baseline: EncodedVisitScan;
+  followUp: EncodedVisitScan;
+  prompts?: ResolvedPrompts;
+}
+
+export interface QualityRequest {
+  image: EncodedImage;
+  prompts?: ResolvedPrompts;
+}
+
+/** A question about a scan: the last turn of `history`, which starts with a question too. */
+export interface ChatRequest {
+  image: EncodedImage;
+  result: AnalysisResult;
+  history: ChatTurn[];
+  prompts?: ResolvedPrompts;
+}
+
+export interface ApiErrorBody {
+  kind: ApiErrorKind;
+  message: string;
+}
+
+export interface ApiErrorResponse {
+  error: ApiErrorBody;
+  /** Absent when the request failed before any model call, e.g. validation. */
+  calls?: ModelCall[];
+}
+
+/** Added to every JSON response. */
+export interface ModelCallsBody {
+  calls: ModelCall[];
+}
+
+export interface MapResponse {
+  imageBase64: string;
+}
+
+export interface CompareResponse {
+  assessment: ChangeAssessment;
+}
+
+export interface QualityResponse {
+  check: ModelQualityCheck;
+}
+
+export interface ChatResponse {
+  reply: string;
+}
+
+/** One line of an analysis stream. An error ends the stream; so does `done`, after every stage has been sent. */
+export type AnalysisStreamEvent =
+  | AnalysisStageEvent
+  | { type: 'modelCall'; call: ModelCall }
+  | { type: 'done' }
+  | { type: 'error'; error: ApiErrorBody };
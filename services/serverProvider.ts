@@ -0,0 +1,131 @@
+import type { AnalysisMapKind, AnalysisResult, ChangeAssessment, ModelCall, ModelQualityCheck, PromptTask } from '../types';
+import type { AnalysisOutput, AnalysisStageEvent, ChatTurn, PipelineOptions, PipelineProvider, ProviderCallOptions, VisitScan } from './analysisProvider';
+import { AnalysisError, isAbortError } from './apiErrors';
+import { blobToBase64 } from './imageData';
+import type { ResolvedPrompts } from './promptRegistry';
+import {
+  API_ROUTES, type AnalysisStreamEvent, type ApiErrorResponse, type ChatRequest, type ChatResponse, type CompareRequest, type CompareResponse, type EncodedImage,
+  type MapRequest, type MapResponse, type ModelCallsBody, type QualityRequest, type QualityResponse, type RefineRequest,
+} from './serverApi';
+
+// Browser side of the analysis server: Gemini calls are made there, with a key
+// the browser never sees. Requests go to the same origin; `npm run dev` proxies
+// /api to the server.
+
+const encodeImage = async (file: File): Promise<EncodedImage> =>
+  ({ name: file.name, mimeType: file.type || 'image/png', data: await blobToBase64(file) });
+
+const reportCalls = (calls: ModelCall[] | undefined, onModelCall?: (call: ModelCall) => void) => calls?.forEach(call => onModelCall?.(call));
+
+// The server describes failures with an `ApiErrorResponse`; anything else, such as a proxy error page, is reported by status.
+const toAnalysisError = async (response: Response, onModelCall?: (call: ModelCall) => void) => {
+  const body = await response.json().catch(() => undefined) as Partial<ApiErrorResponse> | undefined;
+  reportCalls(body?.calls, onModelCall);
+  if (body?.error) return new AnalysisError(body.error.message, body.error.kind);
+  return new AnalysisError(`Analysis Server Error. The server responded with status ${response.status}.`, response.status >= 500 ? 'server' : 'unknown');
+};
+
+const post = async (route: string, body: unknown, { signal, onModelCall }: ProviderCallOptions): Promise<Response> => {
+  let response: Response;
+  try {
+    response = await fetch(route, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body), signal });
+  } catch (err) {
+    if (isAbortError(err)) throw err;
+    throw new AnalysisError('Analysis Server Unreachable. Make sure the analysis server is running (`npm run server`) and try again.', 'server');
+  }
+  if (!response.ok) throw await toAnalysisError(response, onModelCall);
+  return response;
+};
+
+/** Posts a request answered with JSON and passes on the model calls listed with the response. */
+const postJson = async <T>(route: string, body: unknown, options: ProviderCallOptions): Promise<T> => {
+  const { calls, ...response } = await (await post(route, body, options)).json() as T & ModelCallsBody;
+  reportCalls(calls, options.onModelCall);
+  return response as T;
+};
+
+const readEvents = async (response: Response, onEvent: (event: AnalysisStreamEvent) => void) => {
+  if (!response.body) throw new AnalysisError('Analysis Server Error. The response has no body.', 'server');
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffered += decoder.decode(value, { stream: !done });
+    const lines = buffered.split('\n');
+    buffered = lines.pop() ?? '';
+    lines.filter(line => line.trim()).forEach(line => onEvent(JSON.parse(line)));
+    if (done) return;
+  }
+};
+
+const analyze = async (
+  image: File,
+  options: PipelineOptions = {},
+  onStage?: (event: AnalysisStageEvent) => void,
+): Promise<AnalysisOutput> => {
+  const { refinementFeedback, annotations, prompts, ensemble } = options;
+  const isRefinement = !!refinementFeedback || !!annotations?.length;
+  const request: RefineRequest = { image: await encodeImage(image), prompts, ensemble, ...(isRefinement && { refinementFeedback, annotations }) };
+  const response = await post(isRefinement ? API_ROUTES.refine : API_ROUTES.analyze, request, options);
+
+  const output: Partial<AnalysisOutput> = {};
+  let finished = false;
+  await readEvents(response, event => {
+    if (event.type === 'error') throw new AnalysisError(event.error.message, event.error.kind);
+    if (event.type === 'modelCall') {
+      options.onModelCall?.(event.call);
+      return;
+    }
+    if (event.type === 'done') {
+      finished = true;
+      return;
+    }
+    if (event.type === 'classification') output.analysis = event.analysis;
+    if (event.type === 'segmentation') output.segmentedImageBase64 = event.imageBase64;
+    if (event.type === 'uncertainty') output.segmentationUncertaintyMapBase64 = event.imageBase64;
+    if (event.type === 'heatmap') output.heatmapImageBase64 = event.imageBase64;
+    if (event.type === 'mapError') output.mapErrors = { ...output.mapErrors, [event.map]: event.message };
+    onStage?.(event);
+  });
+  if (!finished || !output.analysis) {
+    throw new AnalysisError('Analysis Server Error. The connection closed before the analysis finished.', 'server');
+  }
+  return output as AnalysisOutput;
+};
+
+const generateMap = async (
+  image: File,
+  map: AnalysisMapKind,
+  options: ProviderCallOptions = {},
+): Promise<string> => {
+  const { refinementFeedback, annotations, prompts } = options;
+  const request: MapRequest = { image: await encodeImage(image), map, prompts, refinementFeedback, annotations };
+  return (await postJson<MapResponse>(API_ROUTES.map, request, options)).imageBase64;
+};
+
+const compareVisits = async (baseline: VisitScan, followUp: VisitScan, options: ProviderCallOptions = {}): Promise<ChangeAssessment> => {
+  const encode = async ({ image, visitDate, result }: VisitScan) => ({ image: await encodeImage(image), visitDate, result });
+  const request: CompareRequest = { baseline: await encode(baseline), followUp: await encode(followUp), prompts: options.prompts };
+  return (await postJson<CompareResponse>(API_ROUTES.compare, request, options)).assessment;
+};
+
+const checkQuality = async (image: File, options: ProviderCallOptions = {}): Promise<ModelQualityCheck> => {
+  const request: QualityRequest = { image: await encodeImage(image), prompts: options.prompts };
+  return (await postJson<QualityResponse>(API_ROUTES.quality, request, options)).check;
+};
+
+const chat = async (image: File, result: AnalysisResult, history: ChatTurn[], options: ProviderCallOptions = {}): Promise<string> => {
+  const request: ChatRequest = { image: await encodeImage(image), result, history, prompts: options.prompts };
+  return (await postJson<ChatResponse>(API_ROUTES.chat, request, options)).reply;
+};
+
+export const serverProvider: PipelineProvider = {
+  name: 'gemini',
+  modelFor: (task: PromptTask, prompts: ResolvedPrompts) => prompts.tasks[task].model,
+  analyze,
+  generateMap,
+  compareVisits,
+  checkQuality,
+  chat,
+};
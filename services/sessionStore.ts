@@ -0,0 +1,186 @@
+import type { AnalysisResult, AnalysisSession, AnalysisVersion, AnalyzableImage } from '../types';
+import { finishedStatus } from './analysisMaps';
+import { parseConfidence } from './analysisResult';
+import { createDatabaseOpener, requestToPromise, transactionDone } from './indexedDb';
+
+// Local persistence for analysis sessions. Image metadata and results live in
+// the `images` store; the original scan and every generated map are stored as
+// Blobs in the `blobs` store so they never have to be held as data: URLs.
+// Blob keys are `<imageId>:<kind>`, so all blobs of an image share a key prefix.
+
+const DB_NAME = 'oct-analyzer';
+const DB_VERSION = 1;
+
+const SESSIONS = 'sessions';
+const IMAGES = 'images';
+const BLOBS = 'blobs';
+
+export type ImageBlobKind = 'original' | 'processed' | 'segmentation' | 'heatmap' | 'uncertainty' | `heatmap:${string}`;
+
+export const versionHeatmapKind = (versionId: string): ImageBlobKind => `heatmap:${versionId}`;
+
+type TransientImageFields = 'file' | 'previewUrl' | 'processedFile' | 'processedImageUrl' | 'segmentedImageUrl' | 'heatmapImageUrl' | 'segmentationUncertaintyMapUrl' | 'versions';
+
+interface StoredImage extends Omit<AnalyzableImage, TransientImageFields> {
+  versions?: Omit<AnalysisVersion, 'heatmapImageUrl'>[];
+  sessionId: string;
+  order: number;
+  fileName: string;
+  fileType: string;
+  fileLastModified: number;
+}
+
+export type ImageBlobs = Partial<Record<ImageBlobKind, Blob>>;
+
+export interface LoadedImage {
+  image: Omit<AnalyzableImage, 'previewUrl'>;
+  blobs: ImageBlobs;
+}
+
+const openDatabase = createDatabaseOpener(DB_NAME, DB_VERSION, db => {
+  if (!db.objectStoreNames.contains(SESSIONS)) {
+    db.createObjectStore(SESSIONS, { keyPath: 'id' });
+  }
+  if (!db.objectStoreNames.contains(IMAGES)) {
+    db.createObjectStore(IMAGES, { keyPath: 'id' }).createIndex('sessionId', 'sessionId');
+  }
+  if (!db.objectStoreNames.contains(BLOBS)) {
+    db.createObjectStore(BLOBS);
+  }
+});
+
+const blobKey = (imageId: string, kind: ImageBlobKind) => `${imageId}:${kind}`;
+
+const imageBlobRange = (imageId: string) => IDBKeyRange.bound(`${imageId}:`, `${imageId}:\uffff`);
+
+const toStoredImage = (image: AnalyzableImage, sessionId: string, order: number): StoredImage => {
+  const {
+    file, previewUrl, processedFile: _processedFile, processedImageUrl: _processedUrl, segmentedImageUrl, heatmapImageUrl, segmentationUncertaintyMapUrl,
+    progress: _progress, retryingMaps: _retryingMaps, chatPending: _chatPending, versions, ...rest
+  } = image;
+  return {
+    ...rest,
+    versions: versions?.map(({ heatmapImageUrl: _url, ...version }) => version),
+    sessionId,
+    order,
+    fileName: file.name,
+    fileType: file.type,
+    fileLastModified: file.lastModified,
+  };
+};
+
+// Anything in flight when the page was closed has to be run again.
+const restoreStatus = (stored: StoredImage): AnalyzableImage['status'] => {
+  if (stored.status !== 'loading' && stored.status !== 'queued') return stored.status;
+  return stored.result ? finishedStatus(stored.mapErrors) : 'pending';
+};
+
+// Results saved before confidence became numeric store it as a percentage string.
+const restoreResult = (result: AnalysisResult): AnalysisResult =>
+  typeof result.confidence === 'number' ? result : { ...result, confidence: parseConfidence(result.confidence) ?? 0 };
+
+export const listSessions = async (): Promise<AnalysisSession[]> => {
+  const db = await openDatabase();
+  const sessions = await requestToPromise(db.transaction(SESSIONS).objectStore(SESSIONS).getAll() as IDBRequest<AnalysisSession[]>);
+  return sessions.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+export const getSession = async (id: string): Promise<AnalysisSession | undefined> => {
+  const db = await openDatabase();
+  return requestToPromise(db.transaction(SESSIONS).objectStore(SESSIONS).get(id) as IDBRequest<AnalysisSession | undefined>);
+};
+
+export const createSession = async (name: string): Promise<AnalysisSession> => {
+  const now = new Date().toISOString();
+  const session: AnalysisSession = { id: crypto.randomUUID(), name, createdAt: now, updatedAt: now, imageCount: 0 };
+  const db = await openDatabase();
+  const tx = db.transaction(SESSIONS, 'readwrite');
+  tx.objectStore(SESSIONS).put(session);
+  await transactionDone(tx);
+  return session;
+};
+
+export const updateSession = async (id: string, changes: Partial<Omit<AnalysisSession, 'id' | 'createdAt'>>): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(SESSIONS, 'readwrite');
+  const store = tx.objectStore(SESSIONS);
+  const session = await requestToPromise(store.get(id) as IDBRequest<AnalysisSession | undefined>);
+  if (session) {
+    store.put({ ...session, updatedAt: new Date().toISOString(), ...changes });
+  }
+  await transactionDone(tx);
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([SESSIONS, IMAGES, BLOBS], 'readwrite');
+  const images = tx.objectStore(IMAGES);
+  const blobs = tx.objectStore(BLOBS);
+  const imageIds = await requestToPromise(images.index('sessionId').getAllKeys(id));
+  imageIds.forEach(imageId => {
+    images.delete(imageId);
+    blobs.delete(imageBlobRange(String(imageId)));
+  });
+  tx.objectStore(SESSIONS).delete(id);
+  await transactionDone(tx);
+};
+
+export const saveImage = async (sessionId: string, image: AnalyzableImage, order: number): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(IMAGES, 'readwrite');
+  tx.objectStore(IMAGES).put(toStoredImage(image, sessionId, order));
+  await transactionDone(tx);
+};
+
+export const saveImageBlobs = async (imageId: string, blobs: ImageBlobs): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(BLOBS, 'readwrite');
+  const store = tx.objectStore(BLOBS);
+  (Object.entries(blobs) as [ImageBlobKind, Blob | undefined][]).forEach(([kind, blob]) => {
+    if (blob) store.put(blob, blobKey(imageId, kind));
+  });
+  await transactionDone(tx);
+};
+
+export const deleteImage = async (imageId: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([IMAGES, BLOBS], 'readwrite');
+  tx.objectStore(IMAGES).delete(imageId);
+  tx.objectStore(BLOBS).delete(imageBlobRange(imageId));
+  await transactionDone(tx);
+};
+
+export const loadSessionImages = async (sessionId: string): Promise<LoadedImage[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction([IMAGES, BLOBS]);
+  const stored = await requestToPromise(tx.objectStore(IMAGES).index('sessionId').getAll(sessionId) as IDBRequest<StoredImage[]>);
+  const blobStore = tx.objectStore(BLOBS);
+
+  const loaded = await Promise.all(stored.sort((a, b) => a.order - b.order).map(async (record) => {
+    const range = imageBlobRange(record.id);
+    const [keys, values] = await Promise.all([
+      requestToPromise(blobStore.getAllKeys(range)),
+      requestToPromise(blobStore.getAll(range) as IDBRequest<Blob[]>),
+    ]);
+    const blobs: ImageBlobs = {};
+    keys.forEach((key, index) => {
+      blobs[String(key).slice(record.id.length + 1) as ImageBlobKind] = values[index];
+    });
+    return { record, blobs };
+  }));
+
+  // An image without its original scan cannot be shown or re-analyzed.
+  return loaded.filter(({ blobs }) => blobs.original).map(({ record, blobs }) => {
+    const { sessionId: _sessionId, order: _order, fileName, fileType, fileLastModified, ...image } = record;
+    return {
+      image: {
+        ...image,
+        status: restoreStatus(record),
+        result: image.result && restoreResult(image.result),
+        versions: image.versions?.map(version => ({ ...version, result: restoreResult(version.result) })),
+        file: new File([blobs.original!], fileName, { type: fileType, lastModified: fileLastModified }),
+      },
+      blobs,
+    };
+  });
+};
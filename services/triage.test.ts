@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import type { AnalysisResult, AnalyzableImage, TriageSettings } from '../types';
+import { DEFAULT_TRIAGE_SETTINGS, getReviewReasons, triageImage, triageResult } from './triage';
+
+const result = (overrides: Partial<AnalysisResult> = {}): AnalysisResult => ({
+  diagnosis: 'CNV',
+  confidence: 90,
+  explanation: '',
+  explainability: '',
+  uncertaintyStatement: '',
+  segmentationUncertaintyStatement: '',
+  ...overrides,
+});
+
+const settings = (overrides: Partial<TriageSettings> = {}): TriageSettings => ({ ...DEFAULT_TRIAGE_SETTINGS, ...overrides });
+
+const fluid = (present: boolean) => ({ present, confidence: 80 });
+
+describe('getReviewReasons', () => {
+  it('passes a confident, supported diagnosis', () => {
+    expect(getReviewReasons(result(), settings())).toEqual([]);
+  });
+
+  it('flags confidence below the threshold for the diagnosis', () => {
+    const thresholds = { ...DEFAULT_TRIAGE_SETTINGS.thresholds, CNV: 95 };
+    expect(getReviewReasons(result(), settings({ thresholds }))).toEqual(['Confidence 90.0% is below the 95% threshold for CNV.']);
+    expect(getReviewReasons(result({ diagnosis: 'DME' }), settings({ thresholds }))).toEqual([]);
+  });
+
+  it('flags an unsupported diagnosis without a threshold check', () => {
+    expect(getReviewReasons(result({ diagnosis: 'Requires Further Review', confidence: 10 }), settings()))
+      .toEqual(['The model did not return a supported diagnosis.']);
+  });
+
+  it('flags fluid and anomaly reports only when asked to', () => {
+    const withFluid = result({
+      anomalyReport: 'Epiretinal membrane.',
+      findings: {
+        intraretinalFluid: fluid(false),
+        subretinalFluid: fluid(true),
+        drusen: { count: 0, sizeClass: 'none', confidence: 80 },
+        geographicAtrophy: fluid(false),
+        epiretinalMembrane: fluid(false),
+        vitreomacularTraction: fluid(false),
+        centralRetinalThickness: { micrometers: null, confidence: 50 },
+      },
+    });
+    expect(getReviewReasons(withFluid, settings())).toEqual([]);
+    expect(getReviewReasons(withFluid, settings({ flagFluid: true, flagAnomalyReport: true })))
+      .toEqual(['Fluid was detected.', 'An ancillary anomaly was reported.']);
+  });
+
+  it('flags ensemble agreement below the minimum', () => {
+    const ensemble = {
+      votes: [
+        { model: 'm', seed: 0, diagnosis: 'CNV' as const, confidence: 90 },
+        { model: 'm', seed: 1, diagnosis: 'DME' as const, confidence: 80 },
+      ],
+      agreement: 50,
+      failed: 0,
+    };
+    expect(getReviewReasons(result({ ensemble }), settings())).toEqual(['Ensemble agreement 50.0% is below the 70% minimum (votes: CNV 1, DME 1).']);
+  });
+});
+
+describe('triageResult', () => {
+  it('adds and clears the review reason', () => {
+    const flagged = triageResult(result({ confidence: 40 }), settings());
+    expect(flagged.reviewReason).toBe('Confidence 40.0% is below the 70% threshold for CNV.');
+    expect(triageResult(flagged, settings({ thresholds: { ...DEFAULT_TRIAGE_SETTINGS.thresholds, CNV: 30 } }))).not.toHaveProperty('reviewReason');
+  });
+
+  it('returns the same result when nothing changed', () => {
+    const unflagged = result();
+    expect(triageResult(unflagged, settings())).toBe(unflagged);
+  });
+});
+
+describe('triageImage', () => {
+  it('re-triages the current result and every version, and keeps an unchanged image', () => {
+    const image = {
+      id: 'a',
+      status: 'success',
+      result: result(),
+      versions: [{ id: 'v1', createdAt: '', result: result({ confidence: 50 }) }],
+    } as AnalyzableImage;
+    const strict = settings({ thresholds: { ...DEFAULT_TRIAGE_SETTINGS.thresholds, CNV: 95 } });
+    const triaged = triageImage(image, strict);
+    expect(triaged.result?.reviewReason).toContain('below the 95% threshold');
+    expect(triaged.versions?.[0].result.reviewReason).toContain('below the 95% threshold');
+    expect(triageImage(triaged, strict)).toBe(triaged);
+  });
+});
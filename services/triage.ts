@@ -0,0 +1,55 @@
+import type { AnalysisResult, AnalyzableImage, TriageSettings } from '../types';
+import { formatConfidence } from './analysisResult';
+import { formatVotes } from './ensemble';
+
+export const DEFAULT_TRIAGE_SETTINGS: TriageSettings = {
+  thresholds: { 'CNV': 70, 'DME': 70, 'Geographic Atrophy': 70, 'AMD': 70, 'Drusen': 70, 'Normal': 70 },
+  flagFluid: false,
+  flagAnomalyReport: false,
+  minAgreement: 70,
+};
+
+/** Lists every rule the result trips. An empty list means no review is needed. */
+export const getReviewReasons = (result: AnalysisResult, settings: TriageSettings): string[] => {
+  const reasons: string[] = [];
+  if (result.diagnosis === 'Requires Further Review') {
+    reasons.push('The model did not return a supported diagnosis.');
+  } else {
+    const threshold = settings.thresholds[result.diagnosis];
+    if (result.confidence < threshold) {
+      reasons.push(`Confidence ${formatConfidence(result.confidence)} is below the ${threshold}% threshold for ${result.diagnosis}.`);
+    }
+  }
+  if (result.ensemble && result.ensemble.agreement < settings.minAgreement) {
+    reasons.push(`Ensemble agreement ${formatConfidence(result.ensemble.agreement)} is below the ${settings.minAgreement}% minimum (votes: ${formatVotes(result.ensemble)}).`);
+  }
+  if (settings.flagFluid && result.findings && (result.findings.intraretinalFluid.present || result.findings.subretinalFluid.present)) {
+    reasons.push('Fluid was detected.');
+  }
+  if (settings.flagAnomalyReport && result.anomalyReport) {
+    reasons.push('An ancillary anomaly was reported.');
+  }
+  return reasons;
+};
+
+export const triageResult = (result: AnalysisResult, settings: TriageSettings): AnalysisResult => {
+  const reviewReason = getReviewReasons(result, settings).join(' ') || undefined;
+  if (reviewReason === result.reviewReason) return result;
+  const { reviewReason: _previous, ...rest } = result;
+  return reviewReason ? { ...rest, reviewReason } : rest;
+};
+
+/**
+ * Re-applies triage to an image's current result and every version.
+ * Returns the same object when nothing changed, so unchanged images are not persisted again.
+ */
+export const triageImage = (image: AnalyzableImage, settings: TriageSettings): AnalyzableImage => {
+  const result = image.result && triageResult(image.result, settings);
+  const versions = image.versions?.map(version => {
+    const versionResult = triageResult(version.result, settings);
+    return versionResult === version.result ? version : { ...version, result: versionResult };
+  });
+  const versionsChanged = !!versions && versions.some((version, index) => version !== image.versions![index]);
+  if (result === image.result && !versionsChanged) return image;
+  return { ...image, result, versions: versionsChanged ? versions : image.versions };
+};
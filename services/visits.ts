@@ -0,0 +1,101 @@
+import type { AnalyzableImage, ChangeAssessment, ChangeDirection, Eye, FindingChange, ScanMetadata, VisitInfo } from '../types';
+import { confidenceError, parseConfidence } from './analysisResult';
+
+// Follow-up support: images are grouped by patient and eye into a timeline of
+// visits, and two visits of one eye can be compared by the model.
+
+export const EYES: Eye[] = ['OD', 'OS'];
+
+export const EYE_LABELS: Record<Eye, string> = { OD: 'OD (right eye)', OS: 'OS (left eye)' };
+
+export const CHANGE_DIRECTIONS: ChangeDirection[] = ['improved', 'stable', 'worsened'];
+
+export interface PatientEyeTimeline {
+  key: string;
+  patientId: string;
+  eye: Eye;
+  /** Oldest visit first. */
+  visits: (AnalyzableImage & { visit: VisitInfo })[];
+}
+
+const DICOM_LATERALITY: Record<string, Eye> = { R: 'OD', L: 'OS' };
+
+export const patientEyeKey = ({ patientId, eye }: Pick<VisitInfo, 'patientId' | 'eye'>) => `${patientId.trim().toLowerCase()}:${eye}`;
+
+/** Prefills the visit of a DICOM scan from its patient ID, laterality and study date. */
+export const visitFromMetadata = (metadata?: ScanMetadata): VisitInfo | undefined => {
+  const eye = metadata?.laterality ? DICOM_LATERALITY[metadata.laterality] : undefined;
+  const visitDate = (metadata?.studyDate ?? metadata?.acquisitionDate)?.slice(0, 10);
+  if (!metadata?.patientId || !eye || !visitDate || !/^\d{4}-\d{2}-\d{2}$/.test(visitDate)) return undefined;
+  return { patientId: metadata.patientId, eye, visitDate };
+};
+
+export const groupVisits = (images: AnalyzableImage[]): PatientEyeTimeline[] => {
+  const timelines = new Map<string, PatientEyeTimeline>();
+  images.forEach(image => {
+    if (!image.visit) return;
+    const key = patientEyeKey(image.visit);
+    const timeline = timelines.get(key) ?? { key, patientId: image.visit.patientId, eye: image.visit.eye, visits: [] };
+    timeline.visits.push(image as AnalyzableImage & { visit: VisitInfo });
+    timelines.set(key, timeline);
+  });
+  return [...timelines.values()]
+    .map(timeline => ({
+      ...timeline,
+      visits: timeline.visits.sort((a, b) => a.visit.visitDate.localeCompare(b.visit.visitDate) || (a.sliceIndex ?? 0) - (b.sliceIndex ?? 0)),
+    }))
+    .sort((a, b) => a.patientId.localeCompare(b.patientId) || a.eye.localeCompare(b.eye));
+};
+
+export type ChangeValidationResult = { assessment: ChangeAssessment; errors: [] } | { assessment?: undefined; errors: string[] };
+
+const isDirection = (value: unknown): value is ChangeDirection => CHANGE_DIRECTIONS.includes(value as ChangeDirection);
+
+/** Checks a parsed comparison response against `ChangeAssessment`, like `validateAnalysisResult` does for reports. */
+export const validateChangeAssessment = (raw: unknown): ChangeValidationResult => {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { errors: ['the response must be a JSON object'] };
+  }
+  const value = raw as Record<string, unknown>;
+  const errors: string[] = [];
+  const overall = typeof value.overall === 'string' ? value.overall.trim().toLowerCase() : value.overall;
+  if (!isDirection(overall)) {
+    errors.push(`overall must be one of ${CHANGE_DIRECTIONS.join(', ')} (received ${JSON.stringify(value.overall)})`);
+  }
+  const confidence = parseConfidence(value.confidence);
+  if (confidence === undefined) {
+    errors.push(confidenceError(value.confidence));
+  }
+  if (typeof value.rationale !== 'string' || !value.rationale.trim()) {
+    errors.push('rationale must be a non-empty string');
+  }
+  const findingChanges: FindingChange[] = [];
+  if (!Array.isArray(value.findingChanges)) {
+    errors.push('findingChanges must be an array');
+  } else {
+    value.findingChanges.forEach((entry, index) => {
+      const change = typeof entry?.change === 'string' ? entry.change.trim().toLowerCase() : entry?.change;
+      if (typeof entry?.finding !== 'string' || !entry.finding.trim() || !isDirection(change) || typeof entry.note !== 'string') {
+        errors.push(`findingChanges[${index}] must have a finding, a change (${CHANGE_DIRECTIONS.join(', ')}) and a note`);
+        return;
+      }
+      findingChanges.push({ finding: entry.finding, change, note: entry.note });
+    });
+  }
+
+  if (errors.length > 0) return { errors };
+  return {
+    errors: [],
+    assessment: { overall: overall as ChangeDirection, confidence: confidence!, rationale: value.rationale as string, findingChanges },
+  };
+};
+
+export const parseChangeAssessment = (text: string): ChangeValidationResult => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { errors: ['the response is not valid JSON'] };
+  }
+  return validateChangeAssessment(parsed);
+};
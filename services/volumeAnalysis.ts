@@ -0,0 +1,80 @@
+import type { AnalysisResult, AnalyzableImage, VolumeAggregation } from '../types';
+
+type Diagnosis = AnalysisResult['diagnosis'];
+
+export interface SliceFinding {
+  imageId: string;
+  sliceIndex: number;
+  diagnosis?: Diagnosis;
+  confidence?: number;
+}
+
+export interface VolumeDiagnosis {
+  diagnosis?: Diagnosis;
+  aggregation: VolumeAggregation;
+  /** Mean confidence of the slices that share the volume-level diagnosis. */
+  confidence?: number;
+  analyzedSlices: number;
+  totalSlices: number;
+  distribution: Partial<Record<Diagnosis, number>>;
+  slices: SliceFinding[];
+  /** The most confident slice supporting the volume-level diagnosis. */
+  keySliceIndex?: number;
+}
+
+// Higher is more severe. An uncertain slice outranks Normal so it is never hidden by healthy neighbours.
+const SEVERITY: Record<Diagnosis, number> = {
+  'CNV': 6,
+  'DME': 5,
+  'Geographic Atrophy': 4,
+  'AMD': 3,
+  'Drusen': 2,
+  'Requires Further Review': 1,
+  'Normal': 0,
+};
+
+export const AGGREGATION_LABELS: Record<VolumeAggregation, string> = {
+  'worst-finding': 'Worst finding',
+  'majority': 'Majority vote',
+};
+
+export const sortSlices = (slices: AnalyzableImage[]) =>
+  [...slices].sort((a, b) => (a.sliceIndex ?? 0) - (b.sliceIndex ?? 0));
+
+export const aggregateVolume = (slices: AnalyzableImage[], aggregation: VolumeAggregation): VolumeDiagnosis => {
+  const findings: SliceFinding[] = sortSlices(slices).map((slice, index) => ({
+    imageId: slice.id,
+    sliceIndex: index,
+    diagnosis: slice.result?.diagnosis,
+    confidence: slice.result?.confidence,
+  }));
+
+  const analyzed = findings.filter(finding => finding.diagnosis);
+  const distribution: Partial<Record<Diagnosis, number>> = {};
+  analyzed.forEach(({ diagnosis }) => {
+    distribution[diagnosis!] = (distribution[diagnosis!] ?? 0) + 1;
+  });
+
+  const candidates = Object.keys(distribution) as Diagnosis[];
+  const diagnosis = candidates.sort((a, b) => aggregation === 'majority'
+    ? (distribution[b]! - distribution[a]!) || (SEVERITY[b] - SEVERITY[a])
+    : SEVERITY[b] - SEVERITY[a])[0];
+
+  const supporting = analyzed.filter(finding => finding.diagnosis === diagnosis);
+  const confidences = supporting.map(finding => finding.confidence).filter((value): value is number => value !== undefined);
+  const keySlice = supporting.reduce<SliceFinding | undefined>(
+    (best, finding) => !best || (finding.confidence ?? 0) > (best.confidence ?? 0) ? finding : best,
+    undefined,
+  );
+
+  return {
+    diagnosis,
+    aggregation,
+    confidence: confidences.length > 0 ? confidences.reduce((sum, value) => sum + value, 0) / confidences.length : undefined,
+    analyzedSlices: analyzed.length,
+    totalSlices: findings.length,
+    distribution,
+    slices: findings,
+    keySliceIndex: keySlice?.sliceIndex,
+  };
+};
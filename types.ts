@@ -1,23 +1,420 @@
+import type { ApiErrorKind } from './services/apiErrors';
+
+export interface FindingFlag {
+  present: boolean;
+  /** 0–100 */
+  confidence: number;
+}
+
+export type DrusenSizeClass = 'none' | 'small' | 'medium' | 'large';
+
+export interface StructuredFindings {
+  intraretinalFluid: FindingFlag;
+  subretinalFluid: FindingFlag;
+  drusen: { count: number; sizeClass: DrusenSizeClass; confidence: number };
+  geographicAtrophy: FindingFlag;
+  epiretinalMembrane: FindingFlag;
+  vitreomacularTraction: FindingFlag;
+  /** Estimated central retinal thickness in micrometers; null when it cannot be estimated. */
+  centralRetinalThickness: { micrometers: number | null; confidence: number };
+}
+
 export interface AnalysisResult {
   diagnosis: 'CNV' | 'DME' | 'Drusen' | 'Normal' | 'AMD' | 'Geographic Atrophy' | 'Requires Further Review';
-  confidence: string;
+  /** Diagnosis confidence on a 0–100 scale. */
+  confidence: number;
   explanation: string;
   explainability: string;
   uncertaintyStatement: string;
   segmentationUncertaintyStatement: string;
   anomalyReport?: string;
+  /** Absent on results produced before structured findings were introduced. */
+  findings?: StructuredFindings;
+  /** Set by triage when the result needs human review; the diagnosis itself is left as reported. */
+  reviewReason?: string;
+  /** Absent on results produced before the prompt registry was introduced. */
+  provenance?: AnalysisProvenance;
+  /** Present when the diagnosis was decided by an ensemble vote. */
+  ensemble?: EnsembleSummary;
+  /** Present when the scan was preprocessed in the browser before it was sent to the model. */
+  preprocessing?: PreprocessingRecord;
+}
+
+/** How many times each scan is classified, and by which models. */
+export interface EnsembleSettings {
+  /** Classification runs per scan; 1 turns the ensemble off. */
+  size: number;
+  /** Models the runs rotate through; empty uses the active preset's classification model for every run. */
+  models: string[];
+}
+
+/** One ensemble member's classification. */
+export interface EnsembleVote {
+  model: string;
+  seed: number;
+  diagnosis: AnalysisResult['diagnosis'];
+  confidence: number;
+}
+
+export interface EnsembleSummary {
+  votes: EnsembleVote[];
+  /** Share of all members (0–100), failed ones included, that voted for the winning diagnosis. */
+  agreement: number;
+  /** Members that failed and did not vote. */
+  failed: number;
+}
+
+/** A model-backed task whose prompt and model are configured in the prompt registry. */
+export type PromptTask = 'classification' | 'segmentation' | 'uncertainty' | 'heatmap' | 'comparison' | 'quality' | 'chat';
+
+/** Which backend, prompt preset version and models produced a result. */
+export interface AnalysisProvenance {
+  provider: string;
+  presetId: string;
+  /** Preset name and version, e.g. "Default v1". */
+  promptVersion: string;
+  /** Model per task that ran; a refinement skips the segmentation tasks. */
+  models: Partial<Record<PromptTask, string>>;
+}
+
+/** A diagnosis a clinician can assign; 'Requires Further Review' is a triage outcome, not a condition. */
+export type ClinicalDiagnosis = Exclude<AnalysisResult['diagnosis'], 'Requires Further Review'>;
+
+export interface TriageSettings {
+  /** Minimum confidence (0–100) per diagnosis; results below it are flagged for review. */
+  thresholds: Record<ClinicalDiagnosis, number>;
+  /** Flag any result with intraretinal or subretinal fluid. */
+  flagFluid: boolean;
+  /** Flag any result that carries an ancillary anomaly report. */
+  flagAnomalyReport: boolean;
+  /** Minimum ensemble agreement (0–100); ensemble results below it are flagged for review. */
+  minAgreement: number;
+}
+
+export type AnnotationLabel = 'fluid' | 'drusen' | 'cnv-lesion' | 'geographic-atrophy' | 'epiretinal-membrane';
+
+/** Coordinates are fractions (0–1) of the scan's width and height, so they survive any display size. */
+export type AnnotationShape =
+  | { kind: 'box'; x: number; y: number; width: number; height: number }
+  | { kind: 'polygon'; points: [number, number][] }
+  | { kind: 'point'; x: number; y: number };
+
+export interface ScanAnnotation {
+  id: string;
+  label: AnnotationLabel;
+  shape: AnnotationShape;
+  createdAt: string;
+}
+
+/** One human grader's diagnosis of a scan, from the same set of diagnoses as the AI's. */
+export interface Grade {
+  grader: string;
+  diagnosis: AnalysisResult['diagnosis'];
+  gradedAt: string;
+}
+
+/**
+ * The human grading of a scan. A second grade is optional; when it disagrees
+ * with the first, an adjudication decides. A signed-off grading is final.
+ */
+export interface ScanGrading {
+  first?: Grade;
+  second?: Grade;
+  adjudication?: Grade;
+  signedOff?: { grader: string; signedAt: string };
+}
+
+export type GradingStage = 'awaiting-grade' | 'awaiting-adjudication' | 'awaiting-sign-off' | 'signed-off';
+
+export interface AnalysisVersion {
+  id: string;
+  createdAt: string;
+  /** Clinician feedback that produced this version; absent for an unprompted analysis. */
+  feedback?: string;
+  /** Clinician regions submitted with the refinement that produced this version. */
+  annotations?: ScanAnnotation[];
+  result: AnalysisResult;
+  /** Set when the version reused a cached analysis instead of calling the model: when that analysis ran. */
+  cachedAt?: string;
+  heatmapImageUrl?: string;
+}
+
+export interface ScanMetadata {
+  source: 'dicom';
+  sourceFileName: string;
+  patientName?: string;
+  patientId?: string;
+  studyInstanceUid?: string;
+  seriesInstanceUid?: string;
+  studyDate?: string;
+  studyDescription?: string;
+  /** DICOM laterality code: 'R' or 'L'. */
+  laterality?: string;
+  acquisitionDate?: string;
+  modality?: string;
+  manufacturer?: string;
+  sopClassUid?: string;
+  frameIndex?: number;
+  frameCount?: number;
+}
+
+export type Eye = 'OD' | 'OS';
+
+/** Places an image in a patient's follow-up history. */
+export interface VisitInfo {
+  patientId: string;
+  eye: Eye;
+  /** ISO date, YYYY-MM-DD. */
+  visitDate: string;
+}
+
+export type ChangeDirection = 'improved' | 'stable' | 'worsened';
+
+export interface FindingChange {
+  finding: string;
+  change: ChangeDirection;
+  note: string;
+}
+
+/** The model's structured verdict on how an eye changed between two visits. */
+export interface ChangeAssessment {
+  overall: ChangeDirection;
+  /** 0–100 */
+  confidence: number;
+  rationale: string;
+  findingChanges: FindingChange[];
+  provenance?: AnalysisProvenance;
+}
+
+export interface VisitComparison {
+  id: string;
+  createdAt: string;
+  patientId: string;
+  eye: Eye;
+  /** The earlier and later visit's image. */
+  baselineImageId: string;
+  followUpImageId: string;
+  assessment: ChangeAssessment;
+}
+
+/** One turn of a follow-up conversation about a scan and its current report. */
+export interface ChatMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  text: string;
+  createdAt: string;
+  /** Set on replies: the backend and model that answered. */
+  provenance?: AnalysisProvenance;
+}
+
+/** Token counts the model reported for one call; a count it left out is absent. */
+export interface TokenUsage {
+  promptTokens?: number;
+  responseTokens?: number;
+  totalTokens?: number;
+}
+
+/** One request to the model, as the provider that made it saw it. */
+export interface ModelCall {
+  task: PromptTask;
+  model: string;
+  startedAt: string;
+  latencyMs: number;
+  /** Absent when the call failed. */
+  usage?: TokenUsage;
+  outcome: 'success' | 'error' | 'cancelled';
+  /** Why the call failed, worded as the app reports API errors. */
+  error?: string;
+}
+
+/** A scan named in the audit log: its file name and the SHA-256 of the image sent or acted on. */
+export interface AuditedImage {
+  fileName: string;
+  hash: string;
+}
+
+export type AuditAction = 'upload' | 'delete' | 'analyze' | 'refine' | 'ask' | 'grade' | 'export' | 'import';
+
+interface AuditEntryBase {
+  /** Assigned by the log in the order entries are written. */
+  seq?: number;
+  at: string;
+  /** The session that was open; absent before one is. */
+  sessionId?: string;
+}
+
+export interface ModelCallAuditEntry extends AuditEntryBase, Omit<ModelCall, 'startedAt'> {
+  type: 'model-call';
+  provider: string;
+  promptVersion: string;
+  images: AuditedImage[];
+}
+
+export interface UserActionAuditEntry extends AuditEntryBase {
+  type: 'user-action';
+  action: AuditAction;
+  /** What was done, e.g. the feedback of a refinement or the file an export was saved as. */
+  detail: string;
+  images?: AuditedImage[];
 }
 
-export type ImageStatus = 'pending' | 'loading' | 'success' | 'error';
+export type AuditEntry = ModelCallAuditEntry | UserActionAuditEntry;
+
+/** 'partial' is a finished analysis whose report arrived but at least one map failed. */
+export type ImageStatus = 'pending' | 'queued' | 'loading' | 'partial' | 'success' | 'error';
+
+/** The generated overlay maps of an analysis. */
+export type AnalysisMapKind = Extract<PromptTask, 'segmentation' | 'uncertainty' | 'heatmap'>;
+
+export type MapErrors = Partial<Record<AnalysisMapKind, string>>;
+
+/** What a running analysis has delivered so far; the finished analysis replaces it. */
+export interface AnalysisProgress {
+  /** The maps this run generates; a refinement only regenerates the heatmap. */
+  maps: AnalysisMapKind[];
+  result?: AnalysisResult;
+  segmentedImageUrl?: string;
+  heatmapImageUrl?: string;
+  segmentationUncertaintyMapUrl?: string;
+  mapErrors?: MapErrors;
+}
+
+/** Pixel statistics of a scan, measured in the browser before any model call. */
+export interface ImageQualityMetrics {
+  width: number;
+  height: number;
+  /** Standard deviation of luminance, 0–255; low values suggest weak signal. */
+  contrast: number;
+  /** Variance of the Laplacian of luminance; low values suggest blur or motion. */
+  sharpness: number;
+  /** Mean chroma, 0–255; OCT B-scans are near grayscale, fundus photos and screenshots are not. */
+  colorfulness: number;
+}
+
+/** The model's verdict on whether an image is a gradable retinal OCT B-scan. */
+export interface ModelQualityCheck {
+  isOct: boolean;
+  gradable: boolean;
+  reason: string;
+}
+
+export interface ImageQuality {
+  checkedAt: string;
+  metrics: ImageQualityMetrics;
+  /** Absent until the optional model check has run. */
+  model?: ModelQualityCheck;
+  gradable: boolean;
+  /** Why the scan looks ungradable; empty when it is gradable. */
+  reasons: string[];
+}
+
+/** What the quality gate does with an ungradable scan: nothing, ask before analyzing it, or leave it out. */
+export type QualityGateMode = 'off' | 'warn' | 'skip';
+
+export interface QualitySettings {
+  mode: QualityGateMode;
+  /** Ask the model whether each scan is a gradable OCT B-scan before analyzing it. */
+  modelCheck: boolean;
+}
+
+/** Median filter strength for speckle noise: none, 3×3 or 5×5. */
+export type DenoiseLevel = 'off' | 'light' | 'strong';
+
+export interface PreprocessingSettings {
+  enabled: boolean;
+  /** Crop to the B-scan, dropping device borders, text and fundus insets. */
+  autoCrop: boolean;
+  /** Longest side in pixels after resizing, at most 2048; 0, from older sessions, means 2048. */
+  maxDimension: number;
+  denoise: DenoiseLevel;
+  /** Stretch the 1st–99th luminance percentile to the full range. */
+  normalizeContrast: boolean;
+  grayscale: boolean;
+}
+
+export interface PixelRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** What was done to a scan before it was analyzed, so the result can be reproduced. */
+export interface PreprocessingRecord {
+  settings: Omit<PreprocessingSettings, 'enabled'>;
+  originalWidth: number;
+  originalHeight: number;
+  /** Region kept by auto-crop, in original pixels; absent when nothing was cropped. */
+  crop?: PixelRect;
+  width: number;
+  height: number;
+}
 
 export interface AnalyzableImage {
   id: string;
   file: File;
   previewUrl: string;
   status: ImageStatus;
+  metadata?: ScanMetadata;
+  /** Set when the image is one B-scan of a volume; `sliceIndex` orders it within the volume. */
+  volumeId?: string;
+  sliceIndex?: number;
   result?: AnalysisResult;
+  /** Why the last run failed; an analyzed image keeps the report that run would have replaced. */
   error?: string;
+  /** Reference diagnosis used to evaluate the model; never sent to it. */
+  groundTruth?: ClinicalDiagnosis;
+  grading?: ScanGrading;
+  /** Regions drawn on the scan by a clinician; sent with refinements as region-grounded feedback. */
+  annotations?: ScanAnnotation[];
+  visit?: VisitInfo;
+  /** SHA-256 of the scan, used to spot duplicates and look up cached analyses. */
+  contentHash?: string;
+  quality?: ImageQuality;
+  /** Set when a clinician chose to analyze an ungradable scan anyway. */
+  qualityOverride?: boolean;
+  /** How `processedFile` was derived from `file`; the processed scan is what the model saw. */
+  preprocessing?: PreprocessingRecord;
+  processedFile?: File;
+  processedImageUrl?: string;
+  /** Category of the last failure; 'validation' marks a model response that did not match the report format. */
+  errorKind?: ApiErrorKind;
+  retryAttempt?: number;
+  /** Maps of the current analysis that failed, with why; each can be generated again on its own. */
+  mapErrors?: MapErrors;
+  /** Maps being generated again after a failure. */
+  retryingMaps?: AnalysisMapKind[];
+  progress?: AnalysisProgress;
+  /** Follow-up questions about the scan and their answers, oldest first. */
+  chat?: ChatMessage[];
+  /** Set while a question awaits its answer. */
+  chatPending?: boolean;
+  versions?: AnalysisVersion[];
+  activeVersionId?: string;
   segmentedImageUrl?: string;
   heatmapImageUrl?: string;
   segmentationUncertaintyMapUrl?: string;
 }
+
+export type VolumeAggregation = 'worst-finding' | 'majority';
+
+export interface ScanVolume {
+  id: string;
+  name: string;
+  createdAt: string;
+  aggregation: VolumeAggregation;
+}
+
+export interface AnalysisSession {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  imageCount: number;
+  volumes?: ScanVolume[];
+  /** Absent on sessions created before triage was configurable; the defaults apply. */
+  triageSettings?: TriageSettings;
+  /** Absent on sessions created before preprocessing was introduced; preprocessing is then off. */
+  preprocessingSettings?: PreprocessingSettings;
+  comparisons?: VisitComparison[];
+}
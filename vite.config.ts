@@ -8,11 +8,16 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // Model calls go through the analysis server (server/index.ts), which holds the API key.
+        proxy: {
+          '/api': env.ANALYSIS_SERVER_URL || 'http://localhost:8787',
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.ANALYSIS_PROVIDER': JSON.stringify(env.ANALYSIS_PROVIDER || (env.GEMINI_API_KEY ? 'gemini' : 'local')),
+        'process.env.ANALYSIS_CONCURRENCY': JSON.stringify(env.ANALYSIS_CONCURRENCY),
+        'process.env.ENSEMBLE_SIZE': JSON.stringify(env.ENSEMBLE_SIZE)
       },
       resolve: {
         alias: {